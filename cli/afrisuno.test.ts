@@ -0,0 +1,62 @@
+import { execFile, spawnSync } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { build } from 'vite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createWavEncoder } from '../services/encoders';
+
+const SAMPLE_RATE = 44100;
+const SECONDS = 8;
+// Inside the project, so the build's external imports resolve from node_modules
+const BUILD_DIR = path.resolve('node_modules/.cache/afrisuno-cli-test');
+
+// The native Web Audio module is optional and needs Node 22 and ALSA; without it there is nothing to run
+const hasWebAudio = spawnSync(process.execPath, ['--input-type=module', '-e', "await import('node-web-audio-api/polyfill.js')"]).status === 0;
+
+// -12 dBFS stereo sine, written with the app's own WAV encoder
+const writeTone = async (file: string) => {
+  const tone = Float32Array.from({ length: SECONDS * SAMPLE_RATE }, (_, i) => 0.25 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE));
+  const encoder = createWavEncoder(SAMPLE_RATE, { bitDepth: 16, dither: 'none' });
+  encoder.write([tone, tone]);
+  await writeFile(file, new Uint8Array(await encoder.finish().arrayBuffer()));
+};
+
+const readStats = (stdout: string, label: string) => {
+  const match = new RegExp(`${label}:\\s+(-?[\\d.]+) LUFS, (-?[\\d.]+) dBTP`).exec(stdout);
+  if (!match) throw new Error(`No ${label} line in:\n${stdout}`);
+  return { lufs: Number(match[1]), truePeak: Number(match[2]) };
+};
+
+describe.skipIf(!hasWebAudio)('afrisuno master', () => {
+  let dir = '';
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'afrisuno-'));
+    await build({ configFile: 'vite.cli.config.ts', logLevel: 'silent', build: { outDir: BUILD_DIR, emptyOutDir: true } });
+    await writeTone(path.join(dir, 'tone.wav'));
+  }, 60_000);
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+    await rm(BUILD_DIR, { recursive: true, force: true });
+  });
+
+  it('masters a WAV to the target loudness with the built CLI', async () => {
+    const output = path.join(dir, 'tone.mp3');
+    const { stdout } = await promisify(execFile)(process.execPath, [
+      path.join(BUILD_DIR, 'afrisuno.js'), 'master', path.join(dir, 'tone.wav'), '-o', output, '--target-lufs', '-14',
+    ]);
+
+    const input = readStats(stdout, 'Input');
+    expect(input.truePeak).toBeCloseTo(-12, 0);
+    expect(input.lufs).toBeGreaterThan(-14);
+    expect(input.lufs).toBeLessThan(-11);
+
+    const mastered = readStats(stdout, 'Output');
+    expect(Math.abs(mastered.lufs + 14)).toBeLessThan(0.5);
+    expect(mastered.truePeak).toBeLessThanOrEqual(-1);
+    expect((await readFile(output)).length).toBeGreaterThan(SECONDS * 320 * 1000 / 8 / 2);
+  }, 300_000);
+});
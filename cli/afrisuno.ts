@@ -0,0 +1,235 @@
+#!/usr/bin/env node
+// Web Audio for Node: installs OfflineAudioContext, AudioWorkletNode & co. as
+// globals, so the engine renders through exactly the same graph as the page.
+import 'node-web-audio-api/polyfill.js';
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { masterAudio } from '../services/audioEngine';
+import { encodeMaster } from '../services/encoders';
+import { masterFileName } from '../services/batch';
+import { formatQcTime } from '../services/qualityCheck';
+import { createRenderRecord, exportRenderReport, reportFileName } from '../services/renderHistory';
+import { applyPreset, DEFAULT_LIMITER, DEFAULT_LOUDNESS_TARGET, DEFAULT_OPTIONS } from '../services/processingChain';
+import { AudioProcessOptions, BitDepth, DitherMode, ExportFormat, LoudnessStats, MasteredAudio, MasteringPreset, MonoReport, MonoWarning, OutputSampleRate, PcmAudio, ProcessProgress, TrackMetadata } from '../types';
+
+/**
+ * Headless mastering: `afrisuno master in.wav -o out.mp3 --preset pop --target-lufs -14`.
+ * Options start from the web UI's defaults and go through the same preset
+ * logic, so a file mastered here matches one from the page with the same
+ * settings.
+ */
+
+const USAGE = `Usage: afrisuno master <input> [options]
+
+Options:
+  -o, --output <file>       Output file (default: AfriSuno_Enhanced_<input>.<format> next to the input)
+  -p, --preset <name>       balanced | pop | electronic | rock | lofi (default: balanced)
+      --target-lufs <LUFS>  Gain-match to this integrated loudness
+      --true-peak <dBTP>    Ceiling used with --target-lufs (default: ${DEFAULT_LOUDNESS_TARGET.truePeak})
+  -f, --format <format>     mp3 | wav | flac (default: from the output extension, else mp3)
+      --bit-depth <bits>    16 | 24 | 32 (32 = float, WAV only)
+      --sample-rate <Hz>    44100 | 48000 (default: 48000)
+      --dither <mode>       none | tpdf | shaped (default: tpdf)
+      --title <text>        Title tag
+      --artist <text>       Artist tag
+      --report              Also write a JSON report (settings and measurements) next to the output
+  -q, --quiet               No progress output
+  -h, --help                Show this help
+`;
+
+const PRESETS: MasteringPreset[] = ['balanced', 'pop', 'electronic', 'rock', 'lofi'];
+const FORMATS: ExportFormat[] = ['mp3', 'wav', 'flac'];
+const BIT_DEPTHS: BitDepth[] = [16, 24, 32];
+const SAMPLE_RATES: OutputSampleRate[] = [44100, 48000];
+const DITHER_MODES: DitherMode[] = ['none', 'tpdf', 'shaped'];
+
+const STAGE_LABELS: Record<ProcessProgress['stage'], string> = {
+  decode: 'Decoding',
+  render: 'Rendering',
+  encode: 'Encoding',
+};
+
+class UsageError extends Error {}
+
+interface MasterJob {
+  input: string;
+  output: string;
+  options: AudioProcessOptions;
+  metadata?: TrackMetadata;
+  report: boolean;
+  quiet: boolean;
+}
+
+const oneOf = <T extends string | number>(name: string, value: string, allowed: T[]): T => {
+  const match = allowed.find(candidate => String(candidate) === value);
+  if (match === undefined) throw new UsageError(`--${name} must be one of ${allowed.join(', ')} (got "${value}").`);
+  return match;
+};
+
+const numberArg = (name: string, value: string) => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new UsageError(`--${name} must be a number (got "${value}").`);
+  return parsed;
+};
+
+// Options that take numbers, which are usually negative for loudness
+const NUMERIC_OPTIONS = ['--target-lufs', '--true-peak'];
+
+/**
+ * parseArgs refuses a value that starts with a dash, so `--target-lufs -14`
+ * is folded into `--target-lufs=-14` first.
+ */
+const joinNegativeValues = (args: string[]) =>
+  args.reduce<string[]>((joined, arg, i) => {
+    if (NUMERIC_OPTIONS.includes(args[i - 1]) && /^-\d/.test(arg)) joined[joined.length - 1] += `=${arg}`;
+    else joined.push(arg);
+    return joined;
+  }, []);
+
+const parseMasterArgs = (args: string[]): MasterJob => {
+  const { values, positionals } = parseArgs({
+    args: joinNegativeValues(args),
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      preset: { type: 'string', short: 'p' },
+      'target-lufs': { type: 'string' },
+      'true-peak': { type: 'string' },
+      format: { type: 'string', short: 'f' },
+      'bit-depth': { type: 'string' },
+      'sample-rate': { type: 'string' },
+      dither: { type: 'string' },
+      title: { type: 'string' },
+      artist: { type: 'string' },
+      report: { type: 'boolean' },
+      quiet: { type: 'boolean', short: 'q' },
+    },
+  });
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one input file.');
+  const input = positionals[0];
+
+  const extension = values.output ? path.extname(values.output).slice(1).toLowerCase() : '';
+  const exportFormat = values.format
+    ? oneOf('format', values.format, FORMATS)
+    : FORMATS.find(format => format === extension) ?? DEFAULT_OPTIONS.exportFormat;
+
+  let options = applyPreset(DEFAULT_OPTIONS, values.preset ? oneOf('preset', values.preset, PRESETS) : 'balanced');
+  options = { ...options, exportFormat };
+  if (values['bit-depth']) options.bitDepth = oneOf('bit-depth', values['bit-depth'], BIT_DEPTHS);
+  // Like the UI's format switch: FLAC has no float mode
+  if (exportFormat === 'flac' && options.bitDepth === 32) options.bitDepth = 24;
+  if (values['sample-rate']) options.sampleRate = oneOf('sample-rate', values['sample-rate'], SAMPLE_RATES);
+  if (values.dither) options.dither = oneOf('dither', values.dither, DITHER_MODES);
+  if (values['target-lufs']) {
+    options.loudnessTarget = {
+      lufs: numberArg('target-lufs', values['target-lufs']),
+      truePeak: values['true-peak'] ? numberArg('true-peak', values['true-peak']) : DEFAULT_LOUDNESS_TARGET.truePeak,
+    };
+  } else if (values['true-peak']) {
+    options.limiter = { ...DEFAULT_LIMITER, ...options.limiter, ceiling: numberArg('true-peak', values['true-peak']) };
+  }
+
+  const output = values.output ?? path.join(path.dirname(input), masterFileName(path.basename(input), exportFormat));
+  const metadata = values.title || values.artist ? { title: values.title ?? '', artist: values.artist ?? '' } : undefined;
+  return { input, output, options, metadata, report: !!values.report, quiet: !!values.quiet };
+};
+
+/**
+ * Decodes at the render rate; the page decodes at its device rate and lets
+ * the render resample, which comes to the same thing. The samples are
+ * copied out: node-web-audio-api frees a buffer's memory once the
+ * AudioBuffer itself is collected, views and all.
+ */
+const decodeFile = async (file: string, sampleRate: number): Promise<PcmAudio> => {
+  const data = await readFile(file);
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await ctx.decodeAudioData(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+  return {
+    channels: Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice()),
+    sampleRate: buffer.sampleRate,
+  };
+};
+
+const createProgressLine = (quiet: boolean) => {
+  let last = '';
+  return {
+    update: ({ stage, fraction, pass }: ProcessProgress) => {
+      if (quiet || !process.stderr.isTTY) return;
+      const line = `${STAGE_LABELS[stage]}${pass && pass > 1 ? ` (pass ${pass})` : ''}… ${Math.round(fraction * 100)}%`;
+      if (line === last) return;
+      last = line;
+      process.stderr.write(`\r\x1b[K${line}`);
+    },
+    clear: () => {
+      if (!quiet && process.stderr.isTTY && last) process.stderr.write('\r\x1b[K');
+    },
+  };
+};
+
+const reportPath = (output: string) => path.join(path.dirname(output), reportFileName(path.basename(output)));
+
+const describeLoudness = (stats: LoudnessStats) =>
+  `${stats.integrated.toFixed(1)} LUFS, ${stats.truePeak.toFixed(1)} dBTP, LRA ${stats.range.toFixed(1)} LU`;
+
+const describeMono = (report: MonoReport) =>
+  `${report.status}, correlation ${report.correlation.toFixed(2)}, ${report.foldDown.toFixed(1)} dB summed to mono`;
+
+const describeMonoWarning = (warning: MonoWarning) =>
+  `${formatQcTime(warning.start)}–${formatQcTime(warning.end)} ${warning.band?.label ?? 'Full band'} at ${warning.correlation.toFixed(2)}`;
+
+const runMaster = async (job: MasterJob) => {
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  const progress = createProgressLine(job.quiet);
+
+  let master: MasteredAudio;
+  try {
+    progress.update({ stage: 'decode', fraction: 0 });
+    const source = await decodeFile(job.input, job.options.sampleRate ?? DEFAULT_OPTIONS.sampleRate!);
+    master = await masterAudio(source, job.options, { signal: controller.signal, onProgress: progress.update });
+    progress.update({ stage: 'encode', fraction: 0 });
+    const blob = encodeMaster(master.channels, master.sampleRate, job.options, job.metadata,
+      fraction => progress.update({ stage: 'encode', fraction }));
+    await writeFile(job.output, new Uint8Array(await blob.arrayBuffer()));
+    if (job.report) {
+      const record = createRenderRecord(master, path.basename(job.input), path.basename(job.output), job.options, job.metadata);
+      await writeFile(reportPath(job.output), await exportRenderReport(record).text());
+    }
+  } finally {
+    progress.clear();
+  }
+
+  if (!job.quiet) {
+    console.log(`Input:  ${describeLoudness(master.input)}`);
+    console.log(`Output: ${describeLoudness(master.output)}`);
+    console.log(`Mono:   ${describeMono(master.mono)}`);
+    master.mono.warnings.forEach(warning => console.log(`        ${describeMonoWarning(warning)}`));
+    console.log(`Wrote ${job.output}`);
+    if (job.report) console.log(`Wrote ${reportPath(job.output)}`);
+  }
+};
+
+const main = async (argv: string[]) => {
+  const [command, ...args] = argv;
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (command !== 'master') throw new UsageError(`Unknown command "${command}".`);
+  await runMaster(parseMasterArgs(args));
+  return 0;
+};
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  (err: unknown) => {
+    if (err instanceof Error && err.name === 'AbortError') {
+      process.stderr.write('Cancelled.\n');
+      process.exit(130);
+    }
+    process.stderr.write(`afrisuno: ${err instanceof Error ? err.message : String(err)}\n`);
+    if (err instanceof UsageError) process.stderr.write(`\n${USAGE}`);
+    process.exit(err instanceof UsageError ? 2 : 1);
+  }
+);
@@ -1,185 +1,362 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from './Button';
-import { UploadIcon, DownloadIcon, WaveformIcon, LoaderIcon, CheckIcon, SparklesIcon, MusicIcon, InfoIcon } from './Icons';
-import { processAudio } from '../services/audioEngine';
-import { AudioProcessOptions, MasteringPreset } from '../types';
+import { UploadIcon, DownloadIcon, WaveformIcon, LoaderIcon, CheckIcon, MusicIcon, InfoIcon } from './Icons';
+import { processAudio, processStems, processDeliveries, decodeAudioFile, releaseDecodes, renderAnalysisMix, toPcm } from '../services/audioEngine';
+import { resolveStereoWidth, resolveLimiterSettings, resolveChain, applyPreset, DEFAULT_OPTIONS, DEFAULT_LOUDNESS_TARGET, DEFAULT_DE_ESSER, DEFAULT_REFERENCE_MATCH, DEFAULT_MONO_BASS_HZ, DEFAULT_PHASE_GUARD, phaseGuardForBand } from '../services/processingChain';
+import { scanResonances } from '../services/resonance';
+import { scanSpectrum } from '../services/spectralMatch';
+import { scanQuality } from '../services/qualityCheck';
+import { scanTempo } from '../services/tempoKey';
+import { runScanInSlices } from '../services/dsp';
+import { resolveEdges, scanEdges } from '../services/edges';
+import { MultibandPanel } from './MultibandPanel';
+import { PreviewPlayer } from './PreviewPlayer';
+import { ChainPanel } from './ChainPanel';
+import { PresetManager } from './PresetManager';
+import { MetadataPanel } from './MetadataPanel';
+import { BatchQueue, createBatchItem } from './BatchQueue';
+import { ProcessProgressBar } from './ProcessProgressBar';
+import { SpectrumPlot } from './SpectrumPlot';
+import { ReferenceMatchPanel } from './ReferenceMatchPanel';
+import { QcReportPanel } from './QcReportPanel';
+import { MonoCompatibilityPanel } from './MonoCompatibilityPanel';
+import { RenderHistory } from './RenderHistory';
+import { EdgePanel } from './EdgePanel';
+import { CreativeFxPanel } from './CreativeFxPanel';
+import { WaveformEditor } from './WaveformEditor';
+import { StemMixer, createStemTrack } from './StemMixer';
+import { DeliveryPanel, DeliveryReport } from './DeliveryPanel';
+import { masterFileName } from '../services/batch';
+import { deliveryFileName, deliveryOptions, findDeliveryProfile } from '../services/delivery';
+import { createStemSettings, mixStems, stemMixName, stemSongName } from '../services/stems';
+import { createRenderRecord, exportRenderReport, loadRenderHistory, reportFileName, saveRenderRecord } from '../services/renderHistory';
+import { AudioProcessOptions, MasteringPreset, ProcessResult, LoudnessStats, LimiterSettings, DeEsserSettings, PhaseGuardSettings, MonoBandRange, ExportFormat, BitDepth, DitherMode, OutputSampleRate, TrackMetadata, BatchItem, ProcessProgress, ResonanceAnalysis, SpectrumProfile, QcReport, AudioRegion, RenderRecord, StemTrack, DeliveryProfileId, DeliveryResult, EdgePlan } from '../types';
 
-const WaveformPreview = ({ file }: { file: File }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-
-  useEffect(() => {
-    if (!file || !canvasRef.current) return;
-
-    const draw = async () => {
-      const canvas = canvasRef.current!;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const arrayBuffer = await file.arrayBuffer();
-      const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer);
-      const channelData = audioBuffer.getChannelData(0);
-
-      const width = canvas.width;
-      const height = canvas.height;
-      const step = Math.ceil(channelData.length / width);
-      const amp = height / 2;
-
-      ctx.clearRect(0, 0, width, height);
-      ctx.beginPath();
-      ctx.moveTo(0, amp);
-      ctx.strokeStyle = '#8b5cf6';
-      ctx.lineWidth = 2;
-
-      for (let i = 0; i < width; i++) {
-        let min = 1.0;
-        let max = -1.0;
-        for (let j = 0; j < step; j++) {
-          const datum = channelData[i * step + j];
-          if (datum < min) min = datum;
-          if (datum > max) max = datum;
-        }
-        ctx.lineTo(i, (1 + min) * amp);
-        ctx.lineTo(i, (1 + max) * amp);
-      }
-      ctx.stroke();
-    };
-
-    draw();
-  }, [file]);
+const LoudnessReport = ({ input, output }: { input: LoudnessStats; output: LoudnessStats }) => {
+  const rows: { label: string; key: keyof LoudnessStats; unit: string }[] = [
+    { label: 'Integrated', key: 'integrated', unit: 'LUFS' },
+    { label: 'Short-term max', key: 'shortTermMax', unit: 'LUFS' },
+    { label: 'Momentary max', key: 'momentaryMax', unit: 'LUFS' },
+    { label: 'Loudness range', key: 'range', unit: 'LU' },
+    { label: 'True peak', key: 'truePeak', unit: 'dBTP' },
+    { label: 'Sample peak', key: 'samplePeak', unit: 'dBFS' },
+    { label: 'RMS', key: 'rms', unit: 'dBFS' },
+    { label: 'Duration', key: 'duration', unit: 's' },
+  ];
 
   return (
-    <div className="w-full h-24 bg-black/40 rounded-xl overflow-hidden border border-gray-800/50 mb-4">
-      <canvas ref={canvasRef} width={800} height={100} className="w-full h-full opacity-60" />
+    <div className="bg-black/30 rounded-xl border border-gray-800 overflow-hidden text-left mb-6">
+      <div className="grid grid-cols-3 text-[10px] uppercase font-bold text-gray-500 px-4 py-2 border-b border-gray-800">
+        <span>Measurement</span>
+        <span className="text-right">Before</span>
+        <span className="text-right">After</span>
+      </div>
+      {rows.map(row => (
+        <div key={row.key} className="grid grid-cols-3 px-4 py-1.5 text-xs font-mono">
+          <span className="text-gray-400 font-sans">{row.label}</span>
+          <span className="text-right text-gray-500">{input[row.key].toFixed(1)} {row.unit}</span>
+          <span className="text-right text-white">{output[row.key].toFixed(1)} {row.unit}</span>
+        </div>
+      ))}
     </div>
   );
 };
 
+// Sliced analyses reject with an AbortError when their effect is cleaned up
+const reportAnalysisError = (err: unknown) => {
+  if (!(err instanceof Error && err.name === 'AbortError')) console.error("Source analysis failed", err);
+};
+
 export const AudioEnhancer = () => {
   const [file, setFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processingStep, setProcessingStep] = useState('');
-  const [processedBlob, setProcessedBlob] = useState<Blob | null>(null);
-  const [options, setOptions] = useState<AudioProcessOptions>({
-    intensity: 'medium',
-    stereoWidth: 'normal',
-    enableWarmth: true,
-    enableFades: true,
-    enableNaturalizer: true,
-    exportFormat: 'mp3',
-    preset: 'balanced',
-    creativeFx: {
-      chorus: 0,
-      phaser: 0,
-      flanger: 0
-    }
-  });
+  const [progress, setProgress] = useState<ProcessProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [result, setResult] = useState<ProcessResult | null>(null);
+  const [options, setOptions] = useState<AudioProcessOptions>(DEFAULT_OPTIONS);
+  const [metadata, setMetadata] = useState<TrackMetadata>({ title: '', artist: '' });
+  const [queue, setQueue] = useState<BatchItem[]>([]);
+  // Stem mode: several stems mixed down into one master instead of one file (or a batch)
+  const [stemMode, setStemMode] = useState(false);
+  const [stems, setStems] = useState<StemTrack[]>([]);
+  const stemName = stemMixName(stems.map(stem => stem.file.name));
+  // Name of what is being mastered: the file, or the stem mix
+  const sourceName = stemMode ? stemName : file?.name ?? '';
+  const [deliveryIds, setDeliveryIds] = useState<DeliveryProfileId[]>([]);
+  const [deliveries, setDeliveries] = useState<DeliveryResult[] | null>(null);
+  const [sourceChannels, setSourceChannels] = useState<{ channels: Float32Array[]; sampleRate: number } | null>(null);
+  const [resonances, setResonances] = useState<ResonanceAnalysis | null>(null);
+  const [spectrum, setSpectrum] = useState<SpectrumProfile | null>(null);
+  const [qcReport, setQcReport] = useState<QcReport | null>(null);
+  const [edgePlan, setEdgePlan] = useState<EdgePlan | null>(null);
+  const [region, setRegion] = useState<AudioRegion | null>(null);
+  const [loopRegion, setLoopRegion] = useState(false);
+  // History entry of the current result, with its file name and settings
+  const [resultRecord, setResultRecord] = useState<RenderRecord | null>(null);
+  const [history, setHistory] = useState<RenderRecord[]>([]);
+  // Audio of this session's renders; the history itself only persists reports
+  const [renderBlobs, setRenderBlobs] = useState<Record<string, Blob>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const steps = [
-    "Analyzing spectral fingerprint...",
-    "Applying modulation FX chain...",
-    "De-essing and smoothing sibilance...",
-    "Removing metallic AI resonances...",
-    "Injecting harmonic tube warmth...",
-    "Final brickwall limiting..."
-  ];
+  // For the analysis panels; the decode is cached and shared with the preview and the render
+  useEffect(() => {
+    setSourceChannels(null);
+    setRegion(null);
+    if (!file || stemMode) return;
+    let cancelled = false;
+    decodeAudioFile(file)
+      .then(buffer => {
+        const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+        if (!cancelled) setSourceChannels({ channels, sampleRate: buffer.sampleRate });
+      })
+      .catch(err => console.error("Source analysis failed", err));
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // In stem mode the panels analyse the stems summed at unity gain, centred
+  const stemKey = stems.map(stem => stem.id).join('|');
+  useEffect(() => {
+    if (!stemMode || stems.length === 0) return;
+    let cancelled = false;
+    Promise.all(stems.map(stem => decodeAudioFile(stem.file)))
+      .then(buffers => {
+        if (cancelled) return;
+        setSourceChannels(mixStems(buffers.map((buffer, i) => ({ ...toPcm(buffer), settings: createStemSettings(stems[i].file.name) }))));
+      })
+      .catch(err => console.error("Stem analysis failed", err));
+    return () => { cancelled = true; };
+  }, [stemMode, stemKey]);
+
+  // The whole-file analyses run a slice at a time, so a long file never freezes the page
+  useEffect(() => {
+    setResonances(null);
+    setQcReport(null);
+    if (!sourceChannels) return;
+    const { channels, sampleRate } = sourceChannels;
+    const controller = new AbortController();
+    runScanInSlices(scanResonances(channels, sampleRate), controller.signal)
+      .then(analysis => {
+        setResonances(analysis);
+        return sourceName ? runScanInSlices(scanQuality(channels, sampleRate, sourceName), controller.signal) : null;
+      })
+      .then(setQcReport)
+      .catch(reportAnalysisError);
+    return () => controller.abort();
+  }, [sourceChannels]);
+
+  const referenceMatch = options.referenceMatch ?? DEFAULT_REFERENCE_MATCH;
 
+  // Only measured once a reference is actually in use
+  const hasReference = !!referenceMatch.reference;
   useEffect(() => {
-    let interval: any;
-    if (isProcessing) {
-      let i = 0;
-      setProcessingStep(steps[0]);
-      interval = setInterval(() => {
-        i = (i + 1) % steps.length;
-        setProcessingStep(steps[i]);
-      }, 1500);
+    setSpectrum(null);
+    if (!sourceChannels || !hasReference) return;
+    const controller = new AbortController();
+    runScanInSlices(scanSpectrum(sourceChannels.channels, sourceChannels.sampleRate), controller.signal)
+      .then(setSpectrum)
+      .catch(reportAnalysisError);
+    return () => controller.abort();
+  }, [sourceChannels, hasReference]);
+
+  const edges = resolveEdges(options);
+  // The previous plan stays up while a new one is worked out
+  useEffect(() => {
+    if (!sourceChannels) {
+      setEdgePlan(null);
+      return;
     }
-    return () => clearInterval(interval);
-  }, [isProcessing]);
+    const controller = new AbortController();
+    runScanInSlices(scanEdges(sourceChannels.channels, sourceChannels.sampleRate, edges), controller.signal)
+      .then(setEdgePlan)
+      .catch(reportAnalysisError);
+    return () => controller.abort();
+  }, [sourceChannels, options.edges, options.enableFades]);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const selectedFile = e.target.files[0];
-      if (!selectedFile.type.startsWith('audio/')) {
-        alert("Please upload a valid audio file.");
-        return;
-      }
-      setFile(selectedFile);
-      setProcessedBlob(null);
+  const naturalizerStage = resolveChain(options).find(stage => stage.type === 'naturalizer');
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0) return;
+    const audioFiles = files.filter(f => f.type.startsWith('audio/'));
+    if (audioFiles.length === 0) {
+      alert("Please upload a valid audio file.");
+      return;
     }
+    const selectedFile = audioFiles[0];
+    // The previous upload's decodes are of no more use, however long they were
+    releaseDecodes();
+    setFile(selectedFile);
+    setResult(null);
+    setDeliveries(null);
+    if (stemMode) {
+      setStems(audioFiles.map(createStemTrack));
+      setMetadata(m => ({ ...m, title: m.title || stemSongName(audioFiles.map(f => f.name)) }));
+      return;
+    }
+    // More than one file switches to the batch queue; the first one drives the preview
+    setQueue(audioFiles.length > 1 ? audioFiles.map(createBatchItem) : []);
+    setMetadata(m => ({ ...m, title: m.title || selectedFile.name.replace(/\.[^/.]+$/, "") }));
   };
 
-  const handleProcess = async () => {
-    if (!file) return;
+  // The first stem stands in as `file` for everything keyed on the current upload
+  const updateStems = (next: StemTrack[]) => {
+    setStems(next);
+    if (next[0] && next[0].file !== file) setFile(next[0].file);
+  };
+
+  const clearUpload = () => {
+    releaseDecodes();
+    setFile(null);
+    setResult(null);
+    setDeliveries(null);
+    setQueue([]);
+    setStems([]);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(e.target.files);
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    handleFiles(e.dataTransfer.files);
+  };
+
+  // Shared by single and delivery renders: progress, cancelling and error reporting
+  const runRender = async (render: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
+    setProgress(null);
     try {
-      const blob = await processAudio(file, options);
-      setProcessedBlob(blob);
+      await render(controller.signal);
     } catch (error) {
-      console.error("Processing failed", error);
-      alert("Failed to process audio. Format might be incompatible.");
+      if (!(error instanceof Error && error.name === 'AbortError')) {
+        console.error("Processing failed", error);
+        alert("Failed to process audio. Format might be incompatible.");
+      }
     } finally {
+      abortRef.current = null;
       setIsProcessing(false);
     }
   };
 
-  const handleDownload = () => {
-    if (!processedBlob) return;
-    const url = URL.createObjectURL(processedBlob);
+  const keepRender = (record: RenderRecord, blob: Blob) => {
+    setRenderBlobs(blobs => ({ ...blobs, [record.id]: blob }));
+    updateHistory(saveRenderRecord(record));
+  };
+
+  // With a region, only that part is rendered; the region never becomes part of the saved options
+  const handleProcess = (exportRegion: AudioRegion | null = null) => {
+    if (!file) return;
+    return runRender(async signal => {
+      const renderOptions = exportRegion ? { ...options, region: exportRegion } : options;
+      const hooks = { metadata, signal, onProgress: setProgress };
+      const rendered = stemMode ? await processStems(stems, renderOptions, hooks) : await processAudio(file, renderOptions, hooks);
+      const record = createRenderRecord(
+        rendered, sourceName, masterFileName(sourceName, options.exportFormat, exportRegion), renderOptions, metadata
+      );
+      setResult(rendered);
+      setResultRecord(record);
+      keepRender(record, rendered.blob);
+    });
+  };
+
+  const handleDeliver = () => {
+    if (!file) return;
+    return runRender(async signal => {
+      const profiles = deliveryIds.map(findDeliveryProfile);
+      const done = await processDeliveries(stemMode ? stems : file, options, profiles, { metadata, signal, onProgress: setProgress });
+      setDeliveries(done);
+      for (const { profile, result: rendered } of done) {
+        const record = createRenderRecord(rendered, sourceName, deliveryFileName(sourceName, profile), deliveryOptions(options, profile), metadata);
+        keepRender(record, rendered.blob);
+      }
+    });
+  };
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    setHistory(loadRenderHistory());
+  }, []);
+
+  // Drops the audio of records that left the history
+  const updateHistory = (records: RenderRecord[]) => {
+    setHistory(records);
+    setRenderBlobs(blobs => Object.fromEntries(Object.entries(blobs).filter(([id]) => records.some(r => r.id === id))));
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    const ext = options.exportFormat;
-    a.download = `AfriSuno_Enhanced_${file?.name.replace(/\.[^/.]+$/, "")}.${ext}`;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const applyPreset = (preset: MasteringPreset) => {
-    const newOptions: AudioProcessOptions = { ...options, preset };
-    // Reset creative FX on preset change for safety
-    const resetCreative = { chorus: 0, phaser: 0, flanger: 0 };
-    
-    if (preset === 'pop') {
-      newOptions.intensity = 'high';
-      newOptions.stereoWidth = 'wide';
-      newOptions.enableWarmth = true;
-      newOptions.creativeFx = resetCreative;
-    } else if (preset === 'electronic') {
-      newOptions.intensity = 'high';
-      newOptions.stereoWidth = 'wide';
-      newOptions.enableWarmth = true;
-      newOptions.creativeFx = { ...resetCreative, chorus: 0.2 }; // Subtle width
-    } else if (preset === 'rock') {
-      newOptions.intensity = 'medium';
-      newOptions.stereoWidth = 'normal';
-      newOptions.enableWarmth = true;
-      newOptions.creativeFx = resetCreative;
-    } else if (preset === 'lofi') {
-      newOptions.intensity = 'low';
-      newOptions.stereoWidth = 'normal';
-      newOptions.enableWarmth = true;
-      newOptions.creativeFx = { ...resetCreative, flanger: 0.3 }; // Subtle wobble
-    } else {
-      newOptions.intensity = 'medium';
-      newOptions.stereoWidth = 'normal';
-      newOptions.enableWarmth = true;
-      newOptions.creativeFx = resetCreative;
-    }
-    setOptions(newOptions);
+  const handleDownload = () => {
+    if (!result || !resultRecord) return;
+    downloadBlob(result.blob, resultRecord.fileName);
   };
 
-  const updateCreativeFx = (type: 'chorus' | 'phaser' | 'flanger', val: number) => {
-    setOptions({
-      ...options,
-      creativeFx: {
-        ...options.creativeFx,
-        [type]: val
-      }
-    });
+  // JSON sidecar with the settings and measurements, to reproduce this master later
+  const handleDownloadReport = () => {
+    if (!resultRecord) return;
+    downloadBlob(exportRenderReport(resultRecord), reportFileName(resultRecord.fileName));
+  };
+
+  // MP3 is always 16-bit and FLAC has no float mode
+  const bitDepth: BitDepth = options.exportFormat === 'mp3' ? 16 : options.bitDepth ?? 16;
+
+  const setExportFormat = (exportFormat: ExportFormat) => {
+    const next = { ...options, exportFormat };
+    if (exportFormat === 'flac' && next.bitDepth === 32) next.bitDepth = 24;
+    setOptions(next);
+  };
+
+  const selectPreset = (preset: MasteringPreset) => setOptions(applyPreset(options, preset));
+
+  const updateLimiter = (patch: Partial<LimiterSettings>) => {
+    setOptions({ ...options, limiter: { ...resolveLimiterSettings({ ...options, loudnessTarget: null }), ...patch } });
+  };
+
+  const limiter = resolveLimiterSettings(options);
+
+  const deEsser = options.deEsser ?? DEFAULT_DE_ESSER;
+  const updateDeEsser = (patch: Partial<DeEsserSettings>) => {
+    setOptions({ ...options, deEsser: { ...deEsser, ...patch } });
+  };
+
+  const phaseGuard = options.phaseGuard ?? DEFAULT_PHASE_GUARD;
+  const updatePhaseGuard = (patch: Partial<PhaseGuardSettings>) => {
+    setOptions({ ...options, phaseGuard: { ...phaseGuard, ...patch } });
+  };
+
+  // A region render's settings apply to the whole track
+  const applyRender = ({ region, ...rendered }: AudioProcessOptions) => {
+    setOptions(rendered);
+    setResult(null);
+    setDeliveries(null);
+  };
+
+  // From the mono report: arm the guard, then back to the settings for another render
+  const guardBand = (band: MonoBandRange | null) => {
+    setOptions({ ...options, phaseGuard: band ? phaseGuardForBand(band, phaseGuard) : { ...phaseGuard, enabled: true } });
+    setResult(null);
+    setDeliveries(null);
+  };
+
+  // On the Cloner's 16 kHz mono mix, which is what the tempo estimate is tuned for
+  const detectBpm = async () => {
+    if (!sourceChannels) return null;
+    const mix = await renderAnalysisMix(sourceChannels);
+    return (await runScanInSlices(scanTempo(mix.getChannelData(0), mix.sampleRate)))?.bpm ?? null;
   };
 
   return (
@@ -194,17 +371,42 @@ export const AudioEnhancer = () => {
         </div>
       </div>
 
+      {!file && (
+        <div className="flex gap-2 mb-3">
+          {[false, true].map(mode => (
+            <button
+              key={String(mode)}
+              onClick={() => setStemMode(mode)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold border ${stemMode === mode ? 'border-suno-accent text-white bg-suno-accent/20' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+            >
+              {mode ? 'Stems' : 'Full Mix'}
+            </button>
+          ))}
+        </div>
+      )}
+
       {!file ? (
         <div 
           className="border-2 border-dashed border-gray-700 rounded-xl p-10 flex flex-col items-center justify-center text-center cursor-pointer hover:border-suno-accent hover:bg-suno-accent/5 transition-all group"
           onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDrop}
         >
-          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="audio/*" className="hidden" />
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="audio/*" multiple className="hidden" />
           <div className="w-16 h-16 bg-gray-800 rounded-full flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
              <UploadIcon className="w-8 h-8 text-gray-400 group-hover:text-white" />
           </div>
-          <p className="text-gray-300 font-medium">Drop your Suno track here</p>
-          <p className="text-xs text-gray-500 mt-2">Supports high-res WAV, AIFF, MP3</p>
+          {stemMode ? (
+            <>
+              <p className="text-gray-300 font-medium">Drop your Suno stems here</p>
+              <p className="text-xs text-gray-500 mt-2">Vocals, instrumental and any other stems are mixed down and mastered in one pass.</p>
+            </>
+          ) : (
+            <>
+              <p className="text-gray-300 font-medium">Drop your Suno track here</p>
+              <p className="text-xs text-gray-500 mt-2">Supports high-res WAV, AIFF, MP3. Drop several takes to batch master.</p>
+            </>
+          )}
         </div>
       ) : (
         <div className="space-y-6">
@@ -215,17 +417,52 @@ export const AudioEnhancer = () => {
                    <MusicIcon className="w-5 h-5 text-suno-accent" />
                  </div>
                  <div>
-                   <p className="text-white font-medium truncate max-w-[200px] sm:max-w-xs">{file.name}</p>
-                   <p className="text-xs text-gray-500">{(file.size / 1024 / 1024).toFixed(1)} MB • RAW INPUT</p>
+                   {stemMode ? (
+                     <>
+                       <p className="text-white font-medium truncate max-w-[200px] sm:max-w-xs">{stemName}</p>
+                       <p className="text-xs text-gray-500">{stems.length} stems • RAW INPUT</p>
+                     </>
+                   ) : (
+                     <>
+                       <p className="text-white font-medium truncate max-w-[200px] sm:max-w-xs">{file.name}</p>
+                       <p className="text-xs text-gray-500">{(file.size / 1024 / 1024).toFixed(1)} MB • RAW INPUT</p>
+                     </>
+                   )}
                  </div>
                </div>
-               <button onClick={() => { setFile(null); setProcessedBlob(null); }} className="text-xs text-red-400 hover:text-red-300 font-medium">Clear</button>
+               <button onClick={clearUpload} className="text-xs text-red-400 hover:text-red-300 font-medium">Clear</button>
              </div>
-             <WaveformPreview file={file} />
+             <WaveformEditor
+               source={sourceChannels}
+               region={region}
+               onRegionChange={setRegion}
+               loop={loopRegion}
+               onLoopChange={setLoopRegion}
+               onExportRegion={() => handleProcess(region)}
+               canExport={!isProcessing && !result && !deliveries && queue.length === 0}
+             />
           </div>
 
-          {!processedBlob ? (
+          {deliveries ? (
+            <DeliveryReport deliveries={deliveries} sourceName={sourceName} onDone={() => setDeliveries(null)} />
+          ) : !result ? (
             <div className="space-y-6">
+               <QcReportPanel report={qcReport} />
+
+               {stemMode ? (
+                 <>
+                   <StemMixer
+                     stems={stems}
+                     onChange={updateStems}
+                     vocalCleanup={!!options.vocalStemCleanup}
+                     onVocalCleanupChange={(vocalStemCleanup) => setOptions({ ...options, vocalStemCleanup })}
+                   />
+                   <PreviewPlayer source={stems} options={options} />
+                 </>
+               ) : (
+                 <PreviewPlayer source={file} options={options} loopRegion={loopRegion ? region : null} />
+               )}
+
                {/* Quick Presets */}
                <div className="space-y-2">
                  <label className="block text-xs font-semibold text-gray-400 uppercase tracking-widest">Mastering Target</label>
@@ -233,7 +470,7 @@ export const AudioEnhancer = () => {
                    {(['balanced', 'pop', 'electronic', 'rock', 'lofi'] as MasteringPreset[]).map(p => (
                      <button
                        key={p}
-                       onClick={() => applyPreset(p)}
+                       onClick={() => selectPreset(p)}
                        className={`py-2 rounded-lg text-xs font-bold border transition-all capitalize ${
                          options.preset === p ? 'bg-suno-accent border-suno-accent text-white' : 'bg-transparent border-gray-800 text-gray-500 hover:border-gray-600'
                        }`}
@@ -244,43 +481,186 @@ export const AudioEnhancer = () => {
                  </div>
                </div>
 
-               {/* Creative FX Rack (New) */}
-               <div className="bg-gradient-to-br from-purple-900/20 to-blue-900/20 p-4 rounded-xl border border-gray-700">
-                  <h4 className="text-xs font-bold text-gray-300 uppercase mb-4 flex items-center gap-2">
-                    <SparklesIcon className="w-4 h-4" /> Creative FX Chain
-                  </h4>
-                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+               <PresetManager options={options} onLoad={setOptions} />
+
+               <CreativeFxPanel
+                 settings={options.creativeFx}
+                 onChange={(creativeFx) => setOptions({ ...options, creativeFx })}
+                 onDetectBpm={detectBpm}
+               />
+
+               {/* Stereo Image */}
+               <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                     <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                       Stereo Width <span>{Math.round(resolveStereoWidth(options) * 100)}%</span>
+                     </label>
+                     <input
+                        type="range" min="0.5" max="2" step="0.05"
+                        value={resolveStereoWidth(options)}
+                        onChange={(e) => setOptions({ ...options, widthAmount: parseFloat(e.target.value) })}
+                        className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                     />
+                  </div>
+                  <div className="space-y-2">
+                     <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                       Mono Bass Below <span>{options.monoBassFrequency ?? DEFAULT_MONO_BASS_HZ} Hz</span>
+                     </label>
+                     <input
+                        type="range" min="60" max="250" step="10"
+                        value={options.monoBassFrequency ?? DEFAULT_MONO_BASS_HZ}
+                        onChange={(e) => setOptions({ ...options, monoBassFrequency: parseFloat(e.target.value) })}
+                        className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                     />
+                  </div>
+                  <p className="sm:col-span-2 text-[10px] text-gray-500">Mid/Side widening is capped automatically to stay mono-compatible.</p>
+                  <div className="sm:col-span-2 border-t border-gray-800 pt-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-xs font-bold text-white">Phase Guard</p>
+                        <p className="text-[10px] text-gray-500">Narrows the side of one range whenever its correlation drops below the floor.</p>
+                      </div>
+                      <button
+                        onClick={() => updatePhaseGuard({ enabled: !phaseGuard.enabled })}
+                        className={`w-10 h-5 rounded-full relative transition-colors ${phaseGuard.enabled ? 'bg-green-600' : 'bg-gray-700'}`}
+                      >
+                        <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${phaseGuard.enabled ? 'left-6' : 'left-1'}`} />
+                      </button>
+                    </div>
+                    {phaseGuard.enabled && (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="flex gap-2 sm:col-span-2">
+                          {(['low', 'band'] as const).map(mode => (
+                            <button
+                              key={mode}
+                              onClick={() => updatePhaseGuard({ mode })}
+                              className={`flex-1 py-1.5 rounded-lg text-[10px] font-bold uppercase border ${phaseGuard.mode === mode ? 'border-cyan-500 text-cyan-300 bg-cyan-900/20' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                            >
+                              {mode === 'low' ? 'Lows' : 'Band'}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="space-y-2">
+                          <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                            Correlation Floor <span>{phaseGuard.threshold.toFixed(2)}</span>
+                          </label>
+                          <input
+                             type="range" min="-0.5" max="0.8" step="0.05"
+                             value={phaseGuard.threshold}
+                             onChange={(e) => updatePhaseGuard({ threshold: parseFloat(e.target.value) })}
+                             className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                          />
+                        </div>
+                        {phaseGuard.mode === 'low' ? (
+                          <div className="space-y-2">
+                            <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                              Below <span>{phaseGuard.frequency} Hz</span>
+                            </label>
+                            <input
+                               type="range" min="60" max="600" step="10"
+                               value={phaseGuard.frequency}
+                               onChange={(e) => updatePhaseGuard({ frequency: parseFloat(e.target.value) })}
+                               className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                            />
+                          </div>
+                        ) : (
+                          <div className="grid grid-cols-2 gap-2">
+                            {(['low', 'high'] as const).map(edge => (
+                              <label key={edge} className="text-[10px] uppercase text-gray-500 font-bold space-y-1">
+                                <span>{edge === 'low' ? 'From' : 'To'} (Hz)</span>
+                                <input
+                                   type="number" min="20" max="20000" step="10"
+                                   value={phaseGuard.band[edge]}
+                                   onChange={(e) => updatePhaseGuard({ band: { ...phaseGuard.band, [edge]: parseFloat(e.target.value) || 0 } })}
+                                   className="w-full bg-black/30 border border-gray-800 rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-suno-accent"
+                                />
+                              </label>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+               </div>
+
+               {options.multiband && (
+                 <MultibandPanel settings={options.multiband} onChange={(multiband) => setOptions({ ...options, multiband })} />
+               )}
+
+               {/* Loudness Target */}
+               <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-xs font-bold text-white">Loudness & True-Peak Limiter</p>
+                      <p className="text-[10px] text-gray-400">Hit an integrated LUFS / true-peak target (BS.1770).</p>
+                    </div>
+                    <button
+                      onClick={() => setOptions({ ...options, loudnessTarget: options.loudnessTarget ? null : DEFAULT_LOUDNESS_TARGET })}
+                      className={`w-10 h-5 rounded-full relative transition-colors ${options.loudnessTarget ? 'bg-green-600' : 'bg-gray-700'}`}
+                    >
+                      <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${options.loudnessTarget ? 'left-6' : 'left-1'}`} />
+                    </button>
+                  </div>
+                  {options.loudnessTarget && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                         <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                           Target <span>{options.loudnessTarget.lufs} LUFS</span>
+                         </label>
+                         <input
+                            type="range" min="-23" max="-6" step="0.5"
+                            value={options.loudnessTarget.lufs}
+                            onChange={(e) => setOptions({ ...options, loudnessTarget: { ...options.loudnessTarget!, lufs: parseFloat(e.target.value) } })}
+                            className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                         />
+                      </div>
+                      <div className="space-y-2">
+                         <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                           Ceiling <span>{options.loudnessTarget.truePeak} dBTP</span>
+                         </label>
+                         <input
+                            type="range" min="-3" max="0" step="0.1"
+                            value={options.loudnessTarget.truePeak}
+                            onChange={(e) => setOptions({ ...options, loudnessTarget: { ...options.loudnessTarget!, truePeak: parseFloat(e.target.value) } })}
+                            className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                         />
+                      </div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 pt-2 border-t border-gray-800">
                     <div className="space-y-2">
                        <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
-                         Chorus <span>{Math.round(options.creativeFx.chorus * 100)}%</span>
+                         Limiter Ceiling <span>{limiter.ceiling} dBTP</span>
                        </label>
-                       <input 
-                          type="range" min="0" max="1" step="0.1" 
-                          value={options.creativeFx.chorus} 
-                          onChange={(e) => updateCreativeFx('chorus', parseFloat(e.target.value))}
-                          className="w-full accent-purple-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                       <input
+                          type="range" min="-3" max="0" step="0.1"
+                          value={limiter.ceiling}
+                          disabled={!!options.loudnessTarget}
+                          title={options.loudnessTarget ? 'Follows the loudness target ceiling' : undefined}
+                          onChange={(e) => updateLimiter({ ceiling: parseFloat(e.target.value) })}
+                          className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
                        />
                     </div>
                     <div className="space-y-2">
                        <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
-                         Phaser <span>{Math.round(options.creativeFx.phaser * 100)}%</span>
+                         Release <span>{limiter.release} ms</span>
                        </label>
-                       <input 
-                          type="range" min="0" max="1" step="0.1" 
-                          value={options.creativeFx.phaser} 
-                          onChange={(e) => updateCreativeFx('phaser', parseFloat(e.target.value))}
-                          className="w-full accent-blue-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                       <input
+                          type="range" min="10" max="500" step="10"
+                          value={limiter.release}
+                          onChange={(e) => updateLimiter({ release: parseFloat(e.target.value) })}
+                          className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
                        />
                     </div>
                     <div className="space-y-2">
                        <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
-                         Flanger <span>{Math.round(options.creativeFx.flanger * 100)}%</span>
+                         Lookahead <span>{limiter.lookahead} ms</span>
                        </label>
-                       <input 
-                          type="range" min="0" max="1" step="0.1" 
-                          value={options.creativeFx.flanger} 
-                          onChange={(e) => updateCreativeFx('flanger', parseFloat(e.target.value))}
-                          className="w-full accent-pink-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                       <input
+                          type="range" min="1" max="10" step="0.5"
+                          value={limiter.lookahead}
+                          onChange={(e) => updateLimiter({ lookahead: parseFloat(e.target.value) })}
+                          className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
                        />
                     </div>
                   </div>
@@ -305,10 +685,10 @@ export const AudioEnhancer = () => {
                  <div className="bg-gray-900/40 p-3 rounded-xl border border-gray-800 flex items-center justify-between">
                     <label className="text-xs font-bold text-gray-400">Format</label>
                     <div className="flex gap-1">
-                      {['mp3', 'wav'].map(f => (
+                      {(['mp3', 'wav', 'flac'] as ExportFormat[]).map(f => (
                         <button 
                           key={f} 
-                          onClick={() => setOptions({...options, exportFormat: f as any})} 
+                          onClick={() => setExportFormat(f)} 
                           className={`px-3 py-1 rounded text-[10px] font-bold uppercase ${options.exportFormat === f ? 'bg-white text-black' : 'text-gray-500 hover:text-white'}`}
                         >
                           {f}
@@ -318,18 +698,168 @@ export const AudioEnhancer = () => {
                  </div>
                </div>
 
+               {/* Reference Match */}
+               <ReferenceMatchPanel
+                 settings={referenceMatch}
+                 onChange={(next) => setOptions({ ...options, referenceMatch: next })}
+                 spectrum={spectrum}
+                 sampleRate={options.sampleRate ?? 48000}
+               />
+
+               {/* De-Esser */}
+               <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-xs font-bold text-white">De-Esser</p>
+                      <p className="text-[10px] text-gray-400">Turns down harsh 's' and 'g' fricatives above 4.5 kHz when the 5-9 kHz band jumps out.</p>
+                    </div>
+                    <button
+                      onClick={() => updateDeEsser({ enabled: !deEsser.enabled })}
+                      className={`w-10 h-5 rounded-full relative transition-colors shrink-0 ${deEsser.enabled ? 'bg-green-600' : 'bg-gray-700'}`}
+                    >
+                      <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${deEsser.enabled ? 'left-6' : 'left-1'}`} />
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                       <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                         Threshold <span>{deEsser.threshold} dB</span>
+                       </label>
+                       <input
+                          type="range" min="-30" max="0" step="1"
+                          value={deEsser.threshold}
+                          disabled={!deEsser.enabled}
+                          title="How loud the sibilant band may get relative to the whole mix"
+                          onChange={(e) => updateDeEsser({ threshold: parseFloat(e.target.value) })}
+                          className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+                       />
+                    </div>
+                    <div className="space-y-2">
+                       <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                         Range <span>{deEsser.range} dB</span>
+                       </label>
+                       <input
+                          type="range" min="1" max="12" step="0.5"
+                          value={deEsser.range}
+                          disabled={!deEsser.enabled}
+                          onChange={(e) => updateDeEsser({ range: parseFloat(e.target.value) })}
+                          className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+                       />
+                    </div>
+                  </div>
+               </div>
+
+               {/* Resonance Scan */}
+               {naturalizerStage?.type === 'naturalizer' && (
+                 <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-3">
+                   <div>
+                     <p className="text-xs font-bold text-white">Resonance Scan</p>
+                     <p className="text-[10px] text-gray-400">Long-term spectrum of this track. Red markers are the metallic peaks the Naturalizer will notch, purple is the result.</p>
+                   </div>
+                   <SpectrumPlot analysis={resonances} settings={naturalizerStage.params} active={!naturalizerStage.bypass} />
+                 </div>
+               )}
+
+               {/* Start & End */}
+               <EdgePanel
+                 settings={edges}
+                 onChange={(next) => setOptions({ ...options, edges: next, enableFades: next.fadeMode !== 'off' })}
+                 plan={edgePlan}
+                 duration={sourceChannels ? sourceChannels.channels[0].length / sourceChannels.sampleRate : 0}
+               />
+
+               {/* Export Resolution */}
+               <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-3">
+                  <div>
+                    <p className="text-xs font-bold text-white">Export Resolution</p>
+                    <p className="text-[10px] text-gray-400">
+                      {options.exportFormat === 'mp3' ? 'MP3 is always 320 kbps from a 16-bit source.' : 'Bit depth and rate of the lossless master.'}
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <label className="text-[10px] uppercase text-gray-500 font-bold">Bit Depth</label>
+                      <div className="flex gap-1">
+                        {([16, 24, 32] as BitDepth[]).map(depth => (
+                          <button
+                            key={depth}
+                            onClick={() => setOptions({ ...options, bitDepth: depth })}
+                            disabled={options.exportFormat === 'mp3' || (depth === 32 && options.exportFormat !== 'wav')}
+                            className={`px-2 py-1 rounded text-[10px] font-bold disabled:opacity-30 ${bitDepth === depth ? 'bg-white text-black' : 'text-gray-500 hover:text-white'}`}
+                          >
+                            {depth === 32 ? '32F' : depth}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-[10px] uppercase text-gray-500 font-bold">Sample Rate</label>
+                      <div className="flex gap-1">
+                        {([44100, 48000] as OutputSampleRate[]).map(rate => (
+                          <button
+                            key={rate}
+                            onClick={() => setOptions({ ...options, sampleRate: rate })}
+                            className={`px-2 py-1 rounded text-[10px] font-bold ${(options.sampleRate ?? 48000) === rate ? 'bg-white text-black' : 'text-gray-500 hover:text-white'}`}
+                          >
+                            {rate / 1000} kHz
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-[10px] uppercase text-gray-500 font-bold">Dither</label>
+                      <div className="flex gap-1">
+                        {(['none', 'tpdf', 'shaped'] as DitherMode[]).map(mode => (
+                          <button
+                            key={mode}
+                            onClick={() => setOptions({ ...options, dither: mode })}
+                            disabled={bitDepth === 32}
+                            className={`px-2 py-1 rounded text-[10px] font-bold uppercase disabled:opacity-30 ${(options.dither ?? 'tpdf') === mode ? 'bg-white text-black' : 'text-gray-500 hover:text-white'}`}
+                          >
+                            {mode}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+               </div>
+
+               <DeliveryPanel
+                 selected={deliveryIds}
+                 onChange={setDeliveryIds}
+                 onRender={handleDeliver}
+                 disabled={isProcessing || queue.length > 0}
+               />
+
+               <MetadataPanel metadata={metadata} onChange={setMetadata} />
+
+               <ChainPanel options={options} onChange={setOptions} />
+
+               {queue.length > 0 ? (
+                 <BatchQueue
+                   items={queue}
+                   setItems={setQueue}
+                   options={options}
+                   metadata={metadata}
+                   activeFile={file}
+                   onSelect={setFile}
+                 />
+               ) : isProcessing ? (
+                 <div className="bg-gray-900/40 p-4 rounded-xl border border-suno-accent/40 space-y-3">
+                   <div className="flex items-center justify-between">
+                     <p className="text-sm font-bold text-white">DSP Pipeline Active</p>
+                     <button onClick={() => abortRef.current?.abort()} className="text-xs text-red-400 hover:text-red-300 font-medium">Cancel</button>
+                   </div>
+                   <ProcessProgressBar progress={progress} format={options.exportFormat} />
+                 </div>
+               ) : (
                <Button 
-                 onClick={handleProcess} 
-                 isLoading={isProcessing} 
+                 onClick={() => handleProcess()} 
                  className="w-full h-14 text-lg font-bold tracking-tight shadow-2xl bg-gradient-to-r from-suno-accent to-purple-600 hover:from-purple-600 hover:to-suno-accent transition-all"
                >
-                 {isProcessing ? (
-                   <div className="flex flex-col items-center">
-                     <span className="text-sm">DSP Pipeline Active</span>
-                     <span className="text-[10px] font-mono opacity-60 mt-1">{processingStep}</span>
-                   </div>
-                 ) : 'Run Audio Engine'}
+                 Run Audio Engine
                </Button>
+               )}
             </div>
           ) : (
             <div className="bg-green-900/10 border border-green-900/30 rounded-xl p-8 text-center animate-in zoom-in-95 duration-500">
@@ -337,18 +867,33 @@ export const AudioEnhancer = () => {
                  <CheckIcon className="w-8 h-8 text-green-400" />
                </div>
                <h3 className="text-2xl font-black text-white mb-2 uppercase tracking-tighter">Audio Enhanced</h3>
-               <p className="text-gray-400 text-sm mb-6">Dynamics processed. FX applied. Artifacts removed.</p>
+               <p className="text-gray-400 text-sm mb-6">
+                 {resultRecord?.options.region
+                   ? `Region ${resultRecord.options.region.start.toFixed(1)}–${resultRecord.options.region.end.toFixed(1)} s rendered with crossfaded edges.`
+                   : 'Dynamics processed. FX applied. Artifacts removed.'}
+               </p>
+               <LoudnessReport input={result.input} output={result.output} />
+               <div className="mb-6">
+                 <MonoCompatibilityPanel report={result.mono} onGuard={guardBand} />
+               </div>
                <div className="flex gap-4 justify-center">
                  <Button onClick={handleDownload} className="bg-green-600 hover:bg-green-700 px-8">
                    <DownloadIcon className="w-5 h-5 mr-2" />
-                   Download {options.exportFormat.toUpperCase()}
+                   Download {resultRecord?.options.exportFormat.toUpperCase()}
                  </Button>
-                 <Button variant="secondary" onClick={() => setProcessedBlob(null)}>Enhance Another</Button>
+                 <Button variant="secondary" onClick={handleDownloadReport}>Report JSON</Button>
+                 <Button variant="secondary" onClick={() => setResult(null)}>Enhance Another</Button>
                </div>
             </div>
           )}
         </div>
       )}
+
+      {(file || history.length > 0) && (
+        <div className="mt-6">
+          <RenderHistory records={history} onChange={updateHistory} blobs={renderBlobs} onApply={applyRender} />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,201 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioProcessOptions, BatchItem, BatchStatus, ProcessProgress, TrackMetadata } from '../types';
+import { Button } from './Button';
+import { DownloadIcon, TrashIcon, CheckIcon, LoaderIcon, UploadIcon } from './Icons';
+import { processAudio } from '../services/audioEngine';
+import { createBatchArchive, masterFileName } from '../services/batch';
+import { ProcessProgressBar, describeProgress } from './ProcessProgressBar';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  setItems: React.Dispatch<React.SetStateAction<BatchItem[]>>;
+  options: AudioProcessOptions;
+  metadata: TrackMetadata;
+  activeFile: File | null;
+  onSelect: (file: File) => void;
+}
+
+export const createBatchItem = (file: File, index = 0): BatchItem => ({
+  id: `${Date.now()}-${index}-${file.name}`,
+  file,
+  status: 'queued',
+});
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  queued: 'text-gray-500',
+  processing: 'text-suno-accent',
+  done: 'text-green-400',
+  error: 'text-red-400',
+  cancelled: 'text-yellow-500',
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ items, setItems, options, metadata, activeFile, onSelect }) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [progress, setProgress] = useState<ProcessProgress | null>(null);
+  const active = useRef<{ id: string; controller: AbortController } | null>(null);
+  const addRef = useRef<HTMLInputElement>(null);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  // Sequential runner: whenever nothing is in flight, start the next queued item
+  useEffect(() => {
+    if (!isRunning || active.current) return;
+    const next = items.find(item => item.status === 'queued');
+    if (!next) {
+      setIsRunning(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    active.current = { id: next.id, controller };
+    updateItem(next.id, { status: 'processing', error: undefined });
+    setProgress(null);
+
+    const title = next.file.name.replace(/\.[^/.]+$/, "");
+    processAudio(next.file, next.options ?? options, {
+      metadata: { ...metadata, title },
+      signal: controller.signal,
+      onProgress: setProgress,
+    })
+      .then(result => updateItem(next.id, { status: 'done', result }))
+      .catch((err: unknown) => updateItem(next.id, err instanceof Error && err.name === 'AbortError'
+        ? { status: 'cancelled' }
+        : { status: 'error', error: err instanceof Error ? err.message : String(err) }))
+      .finally(() => {
+        active.current = null;
+        // Poke the runner even if the status update was a no-op
+        setItems(prev => [...prev]);
+      });
+  }, [items, isRunning]);
+
+  useEffect(() => () => active.current?.controller.abort(), []);
+
+  const cancelItem = (item: BatchItem) => {
+    if (item.status === 'processing') {
+      active.current?.controller.abort();
+    } else {
+      updateItem(item.id, { status: 'cancelled' });
+    }
+  };
+
+  const stopQueue = () => {
+    setIsRunning(false);
+    active.current?.controller.abort();
+  };
+
+  const addFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from<File>(e.target.files).filter(f => f.type.startsWith('audio/')) : [];
+    e.target.value = '';
+    setItems(prev => [...prev, ...files.map((f, i) => createBatchItem(f, prev.length + i))]);
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+      downloadBlob(await createBatchArchive(items, options), `AfriSuno_Batch_${new Date().toISOString().slice(0, 10)}.zip`);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const pendingCount = items.filter(item => item.status === 'queued').length;
+
+  return (
+    <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs font-bold text-white">Batch Queue</p>
+          <p className="text-[10px] text-gray-400">
+            {doneCount}/{items.length} mastered. Unpinned files use the settings above.
+          </p>
+        </div>
+        <button onClick={() => addRef.current?.click()} className="text-[10px] uppercase font-bold text-gray-500 hover:text-white flex items-center gap-1">
+          <UploadIcon className="w-3 h-3" /> Add Files
+        </button>
+        <input type="file" ref={addRef} onChange={addFiles} accept="audio/*" multiple className="hidden" />
+      </div>
+
+      <div className="space-y-1 max-h-72 overflow-y-auto">
+        {items.map(item => (
+          <div
+            key={item.id}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-xs ${item.file === activeFile ? 'border-suno-accent/50 bg-suno-accent/5' : 'border-gray-800 bg-black/30'}`}
+          >
+            <button onClick={() => onSelect(item.file)} className="flex-1 min-w-0 text-left" title="Preview this file">
+              <p className="text-gray-200 truncate">{item.file.name}</p>
+              <p className={`text-[10px] font-mono ${STATUS_STYLES[item.status]}`}>
+                {item.status === 'processing' && <LoaderIcon className="w-3 h-3 inline mr-1" />}
+                {item.status === 'done' && <CheckIcon className="w-3 h-3 inline mr-1" />}
+                {item.status === 'processing'
+                  ? `${describeProgress(progress, (item.options ?? options).exportFormat)} ${Math.round((progress?.fraction ?? 0) * 100)}%`
+                  : item.status.toUpperCase()}
+                {item.result && ` • ${item.result.output.integrated.toFixed(1)} LUFS`}
+                {item.error && ` • ${item.error}`}
+              </p>
+              {item.status === 'processing' && <ProcessProgressBar progress={progress} format={(item.options ?? options).exportFormat} compact />}
+            </button>
+
+            <button
+              onClick={() => updateItem(item.id, { options: item.options ? undefined : options })}
+              disabled={item.status === 'processing'}
+              className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase disabled:opacity-40 ${item.options ? 'border-suno-accent text-suno-accent' : 'border-gray-700 text-gray-500 hover:text-white'}`}
+              title={item.options ? 'Using pinned settings. Click to follow the shared settings again.' : 'Pin the current settings to this file'}
+            >
+              {item.options ? 'Pinned' : 'Pin'}
+            </button>
+
+            {(item.status === 'queued' || item.status === 'processing') && (
+              <button onClick={() => cancelItem(item)} className="text-[10px] uppercase font-bold text-gray-500 hover:text-yellow-400">Cancel</button>
+            )}
+            {(item.status === 'error' || item.status === 'cancelled' || item.status === 'done') && (
+              <button onClick={() => updateItem(item.id, { status: 'queued', result: undefined })} className="text-[10px] uppercase font-bold text-gray-500 hover:text-white">
+                {item.status === 'done' ? 'Redo' : 'Retry'}
+              </button>
+            )}
+            {item.result && (
+              <button
+                onClick={() => downloadBlob(item.result!.blob, masterFileName(item.file.name, (item.options ?? options).exportFormat))}
+                className="text-gray-500 hover:text-white"
+                title="Download"
+              >
+                <DownloadIcon className="w-3 h-3" />
+              </button>
+            )}
+            {item.status !== 'processing' && (
+              <button onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))} className="text-gray-600 hover:text-red-400" title="Remove">
+                <TrashIcon className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        {isRunning ? (
+          <Button variant="secondary" onClick={stopQueue} className="flex-1">Stop Queue</Button>
+        ) : (
+          <Button onClick={() => setIsRunning(true)} disabled={pendingCount === 0} className="flex-1 bg-gradient-to-r from-suno-accent to-purple-600">
+            Master {pendingCount} {pendingCount === 1 ? 'File' : 'Files'}
+          </Button>
+        )}
+        <Button onClick={handleDownloadAll} isLoading={isZipping} disabled={doneCount === 0 || isRunning} className="bg-green-600 hover:bg-green-700">
+          <DownloadIcon className="w-4 h-4 mr-2" /> ZIP
+        </Button>
+      </div>
+    </div>
+  );
+};
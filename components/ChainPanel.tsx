@@ -0,0 +1,47 @@
+import React from 'react';
+import { AudioProcessOptions } from '../types';
+import { resolveChain, setStageBypass } from '../services/processingChain';
+
+interface ChainPanelProps {
+  options: AudioProcessOptions;
+  onChange: (options: AudioProcessOptions) => void;
+}
+
+export const ChainPanel: React.FC<ChainPanelProps> = ({ options, onChange }) => {
+  const stages = resolveChain(options);
+
+  return (
+    <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs font-bold text-white">Processing Chain</p>
+          <p className="text-[10px] text-gray-400">Signal flows top to bottom. Click a stage to bypass it.</p>
+        </div>
+        {options.stageOverrides && (
+          <button
+            onClick={() => onChange({ ...options, stageOverrides: undefined })}
+            className="text-[10px] uppercase font-bold text-gray-500 hover:text-white"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {stages.map((stage, i) => (
+          <button
+            key={stage.id}
+            onClick={() => onChange(setStageBypass(options, stage.id, !stage.bypass))}
+            className={`px-2 py-1 rounded border text-[10px] font-mono transition-all ${
+              stage.bypass
+                ? 'border-gray-800 text-gray-600 line-through'
+                : 'border-suno-accent/40 bg-suno-accent/10 text-gray-200'
+            }`}
+            title={stage.bypass ? 'Bypassed' : 'Active'}
+          >
+            {i + 1}. {stage.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
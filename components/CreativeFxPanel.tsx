@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { LoaderIcon, SparklesIcon } from './Icons';
+import { BitcrusherSettings, CreativeFxSettings, DelayDivision, DelayModulationSettings, DelaySettings, ModulationSettings, PhaserSettings, ReverbSettings, ReverbType, TapeSettings } from '../types';
+import { DEFAULT_BITCRUSHER, DEFAULT_DELAY, DEFAULT_REVERB, DEFAULT_TAPE, DELAY_DIVISIONS, delayTimeSeconds } from '../services/processingChain';
+
+interface CreativeFxPanelProps {
+  settings: CreativeFxSettings;
+  onChange: (settings: CreativeFxSettings) => void;
+  // Tempo of the loaded track, for syncing the delay; null when it can't be told
+  onDetectBpm?: () => Promise<number | null>;
+}
+
+const REVERB_TYPES: { id: ReverbType; label: string }[] = [
+  { id: 'room', label: 'Room' },
+  { id: 'plate', label: 'Plate' },
+  { id: 'hall', label: 'Hall' },
+];
+
+const Slider = ({ label, value, display, min, max, step, onChange, disabled, accent = 'accent-purple-500' }: {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+  accent?: string;
+}) => (
+  <div className="space-y-2">
+    <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+      {label} <span>{display}</span>
+    </label>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className={`w-full ${accent} h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-40`}
+    />
+  </div>
+);
+
+const Toggle = ({ on, onClick }: { on: boolean; onClick: () => void }) => (
+  <button onClick={onClick} className={`w-10 h-5 rounded-full relative transition-colors shrink-0 ${on ? 'bg-green-600' : 'bg-gray-700'}`}>
+    <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${on ? 'left-6' : 'left-1'}`} />
+  </button>
+);
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const CreativeFxPanel: React.FC<CreativeFxPanelProps> = ({ settings, onChange, onDetectBpm }) => {
+  const reverb = settings.reverb ?? DEFAULT_REVERB;
+  const delay = settings.delay ?? DEFAULT_DELAY;
+  const tape = settings.tape ?? DEFAULT_TAPE;
+  const bitcrusher = settings.bitcrusher ?? DEFAULT_BITCRUSHER;
+  const [isDetecting, setIsDetecting] = useState(false);
+
+  const update = (patch: Partial<CreativeFxSettings>) => onChange({ ...settings, ...patch });
+  const updateReverb = (patch: Partial<ReverbSettings>) => update({ reverb: { ...reverb, ...patch } });
+  const updateDelay = (patch: Partial<DelaySettings>) => update({ delay: { ...delay, ...patch } });
+  const updateTape = (patch: Partial<TapeSettings>) => update({ tape: { ...tape, ...patch } });
+  const updateBitcrusher = (patch: Partial<BitcrusherSettings>) => update({ bitcrusher: { ...bitcrusher, ...patch } });
+  const updateChorus = (patch: Partial<DelayModulationSettings>) => update({ chorus: { ...settings.chorus, ...patch } });
+  const updatePhaser = (patch: Partial<PhaserSettings>) => update({ phaser: { ...settings.phaser, ...patch } });
+  const updateFlanger = (patch: Partial<DelayModulationSettings>) => update({ flanger: { ...settings.flanger, ...patch } });
+
+  const detectBpm = async () => {
+    if (!onDetectBpm) return;
+    setIsDetecting(true);
+    try {
+      const bpm = await onDetectBpm();
+      if (bpm) updateDelay({ bpm: Math.round(bpm) });
+      else alert("Couldn't find a steady beat in this track.");
+    } catch (err) {
+      console.error("Tempo detection failed", err);
+      alert("Could not analyse this track's tempo.");
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const card = (title: string, on: boolean, toggle: () => void, body: React.ReactNode) => (
+    <div className="bg-black/20 p-3 rounded-lg border border-gray-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-bold text-white">{title}</p>
+        <Toggle on={on} onClick={toggle} />
+      </div>
+      <div className={`space-y-3 ${on ? '' : 'opacity-50'}`}>{body}</div>
+    </div>
+  );
+
+  // Controls every modulation effect shares; `maxRate` differs between the slow sweeps and the chorus
+  const modulationControls = (fx: ModulationSettings, change: (patch: Partial<ModulationSettings>) => void, maxRate: number, accent: string) => (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <Slider label="Rate" value={fx.rate} display={`${fx.rate.toFixed(2)} Hz`} min={0.05} max={maxRate} step={0.05} onChange={rate => change({ rate })} accent={accent} />
+        <Slider label="Depth" value={fx.depth} display={percent(fx.depth)} min={0} max={1} step={0.05} onChange={depth => change({ depth })} accent={accent} />
+        <Slider label="Feedback" value={fx.feedback} display={percent(fx.feedback)} min={0} max={0.9} step={0.05} onChange={feedback => change({ feedback })} accent={accent} />
+        <Slider label="Mix" value={fx.mix} display={percent(fx.mix)} min={0} max={1} step={0.05} onChange={mix => change({ mix })} accent={accent} />
+      </div>
+      <Slider label="Stereo Phase" value={fx.stereoPhase} display={`${fx.stereoPhase}°`} min={0} max={180} step={15} onChange={stereoPhase => change({ stereoPhase })} accent={accent} />
+    </>
+  );
+
+  return (
+    <div className="bg-gradient-to-br from-purple-900/20 to-blue-900/20 p-4 rounded-xl border border-gray-700 space-y-4">
+      <h4 className="text-xs font-bold text-gray-300 uppercase flex items-center gap-2">
+        <SparklesIcon className="w-4 h-4" /> Creative FX Chain
+      </h4>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {card('Chorus', settings.chorus.enabled, () => updateChorus({ enabled: !settings.chorus.enabled }), (
+          <>
+            <Slider label="Delay" value={settings.chorus.delay} display={`${settings.chorus.delay} ms`} min={5} max={40} step={0.5} onChange={delay => updateChorus({ delay })} />
+            {modulationControls(settings.chorus, updateChorus, 5, 'accent-purple-500')}
+          </>
+        ))}
+
+        {card('Phaser', settings.phaser.enabled, () => updatePhaser({ enabled: !settings.phaser.enabled }), (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <Slider label="Centre" value={settings.phaser.frequency} display={`${settings.phaser.frequency} Hz`} min={200} max={4000} step={50} onChange={frequency => updatePhaser({ frequency })} accent="accent-blue-500" />
+              <Slider label="Stages" value={settings.phaser.stages} display={`${settings.phaser.stages}`} min={2} max={12} step={2} onChange={stages => updatePhaser({ stages })} accent="accent-blue-500" />
+            </div>
+            {modulationControls(settings.phaser, updatePhaser, 2, 'accent-blue-500')}
+          </>
+        ))}
+
+        {card('Flanger', settings.flanger.enabled, () => updateFlanger({ enabled: !settings.flanger.enabled }), (
+          <>
+            <Slider label="Delay" value={settings.flanger.delay} display={`${settings.flanger.delay} ms`} min={3} max={10} step={0.5} onChange={delay => updateFlanger({ delay })} accent="accent-pink-500" />
+            {modulationControls(settings.flanger, updateFlanger, 2, 'accent-pink-500')}
+          </>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {card('Tape', tape.enabled, () => updateTape({ enabled: !tape.enabled }), (
+          <>
+            <Slider label="Drive" value={tape.drive} display={`${tape.drive} dB`} min={0} max={18} step={0.5} onChange={drive => updateTape({ drive })} />
+            <div className="grid grid-cols-2 gap-3">
+              <Slider label="Wow" value={tape.wow} display={percent(tape.wow)} min={0} max={1} step={0.05} onChange={wow => updateTape({ wow })} />
+              <Slider label="Flutter" value={tape.flutter} display={percent(tape.flutter)} min={0} max={1} step={0.05} onChange={flutter => updateTape({ flutter })} />
+            </div>
+            <Slider label="Mix" value={tape.mix} display={percent(tape.mix)} min={0} max={1} step={0.05} onChange={mix => updateTape({ mix })} />
+          </>
+        ))}
+
+        {card('Bitcrusher', bitcrusher.enabled, () => updateBitcrusher({ enabled: !bitcrusher.enabled }), (
+          <>
+            <Slider label="Bit Depth" value={bitcrusher.bits} display={`${bitcrusher.bits} bit`} min={2} max={16} step={1} onChange={bits => updateBitcrusher({ bits })} />
+            <Slider label="Sample Rate" value={bitcrusher.rate} display={`${(bitcrusher.rate / 1000).toFixed(1)} kHz`} min={2000} max={44100} step={50} onChange={rate => updateBitcrusher({ rate })} />
+            <Slider label="Mix" value={bitcrusher.mix} display={percent(bitcrusher.mix)} min={0} max={1} step={0.05} onChange={mix => updateBitcrusher({ mix })} />
+          </>
+        ))}
+
+        {card('Delay', delay.enabled, () => updateDelay({ enabled: !delay.enabled }), (
+          <>
+            <div className="flex items-center gap-2">
+              <label className="text-[10px] uppercase text-gray-500 font-bold">BPM</label>
+              <input
+                type="number" min="40" max="240"
+                value={delay.bpm}
+                onChange={(e) => updateDelay({ bpm: Math.max(40, Math.min(240, parseFloat(e.target.value) || DEFAULT_DELAY.bpm)) })}
+                className="w-16 bg-black/30 border border-gray-800 rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-suno-accent"
+              />
+              {onDetectBpm && (
+                <button
+                  onClick={detectBpm}
+                  disabled={isDetecting}
+                  className="text-[10px] font-bold uppercase text-gray-400 hover:text-white disabled:opacity-50 flex items-center gap-1"
+                >
+                  {isDetecting && <LoaderIcon className="w-3 h-3 animate-spin" />}
+                  Detect
+                </button>
+              )}
+              <span className="ml-auto text-[10px] font-mono text-gray-500">{Math.round(delayTimeSeconds(delay.bpm, delay.division) * 1000)} ms</span>
+            </div>
+            <div className="flex gap-1">
+              {(Object.keys(DELAY_DIVISIONS) as DelayDivision[]).map(division => (
+                <button
+                  key={division}
+                  onClick={() => updateDelay({ division })}
+                  className={`flex-1 px-1 py-1 rounded text-[10px] font-bold ${delay.division === division ? 'bg-white text-black' : 'text-gray-500 hover:text-white'}`}
+                >
+                  {division}
+                </button>
+              ))}
+            </div>
+            <Slider label="Feedback" value={delay.feedback} display={percent(delay.feedback)} min={0} max={0.9} step={0.05} onChange={feedback => updateDelay({ feedback })} />
+            <div className="grid grid-cols-2 gap-3">
+              <Slider label="Low Cut" value={delay.lowCut} display={`${delay.lowCut} Hz`} min={20} max={1000} step={10} onChange={lowCut => updateDelay({ lowCut })} />
+              <Slider label="High Cut" value={delay.highCut} display={`${(delay.highCut / 1000).toFixed(1)} kHz`} min={1000} max={16000} step={100} onChange={highCut => updateDelay({ highCut })} />
+            </div>
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <Slider label="Mix" value={delay.mix} display={percent(delay.mix)} min={0} max={1} step={0.05} onChange={mix => updateDelay({ mix })} />
+              </div>
+              <label className="flex items-center gap-1 text-[10px] uppercase font-bold text-gray-500 cursor-pointer">
+                <input type="checkbox" checked={delay.pingPong} onChange={() => updateDelay({ pingPong: !delay.pingPong })} className="accent-suno-accent" />
+                Ping-pong
+              </label>
+            </div>
+          </>
+        ))}
+
+        {card('Reverb', reverb.enabled, () => updateReverb({ enabled: !reverb.enabled }), (
+          <>
+            <div className="flex gap-1">
+              {REVERB_TYPES.map(type => (
+                <button
+                  key={type.id}
+                  onClick={() => updateReverb({ type: type.id })}
+                  className={`flex-1 px-2 py-1 rounded text-[10px] font-bold uppercase ${reverb.type === type.id ? 'bg-white text-black' : 'text-gray-500 hover:text-white'}`}
+                >
+                  {type.label}
+                </button>
+              ))}
+            </div>
+            <Slider label="Decay" value={reverb.decay} display={`${reverb.decay.toFixed(1)} s`} min={0.2} max={8} step={0.1} onChange={decay => updateReverb({ decay })} />
+            <Slider label="Pre-Delay" value={reverb.preDelay} display={`${reverb.preDelay} ms`} min={0} max={200} step={5} onChange={preDelay => updateReverb({ preDelay })} />
+            <Slider label="Mix" value={reverb.mix} display={percent(reverb.mix)} min={0} max={1} step={0.05} onChange={mix => updateReverb({ mix })} />
+          </>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { DeliveryProfileId, DeliveryResult, QcStatus } from '../types';
+import { DownloadIcon } from './Icons';
+import { Button } from './Button';
+import { DELIVERY_PROFILES, createDeliveryArchive, deliveryFileName, describeProfile } from '../services/delivery';
+
+const STATUS_STYLES: Record<QcStatus, string> = {
+  pass: 'bg-green-900/40 text-green-400 border-green-800/60',
+  warn: 'bg-yellow-900/30 text-yellow-400 border-yellow-800/60',
+  fail: 'bg-red-900/30 text-red-400 border-red-800/60',
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const StatusBadge: React.FC<{ status: QcStatus }> = ({ status }) => (
+  <span className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${STATUS_STYLES[status]}`}>{status}</span>
+);
+
+interface DeliveryPanelProps {
+  selected: DeliveryProfileId[];
+  onChange: (selected: DeliveryProfileId[]) => void;
+  onRender: () => void;
+  disabled: boolean;
+}
+
+/** Platform profiles to render in one go, each with its own target and format. */
+export const DeliveryPanel: React.FC<DeliveryPanelProps> = ({ selected, onChange, onRender, disabled }) => {
+  const toggle = (id: DeliveryProfileId) =>
+    onChange(selected.includes(id) ? selected.filter(s => s !== id) : DELIVERY_PROFILES.map(p => p.id).filter(p => p === id || selected.includes(p)));
+
+  return (
+    <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-3">
+      <div>
+        <p className="text-xs font-bold text-white">Delivery Profiles</p>
+        <p className="text-[10px] text-gray-400">One master per platform, each gain-matched to its target and checked for compliance.</p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {DELIVERY_PROFILES.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => toggle(profile.id)}
+            className={`text-left p-2 rounded-lg border ${selected.includes(profile.id) ? 'border-suno-accent bg-suno-accent/10' : 'border-gray-800 hover:border-gray-600'}`}
+          >
+            <p className="text-xs font-bold text-gray-200">{profile.name}</p>
+            <p className="text-[10px] font-mono text-gray-500">{describeProfile(profile)}</p>
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={onRender}
+        disabled={disabled || selected.length === 0}
+        className="w-full py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-xs font-bold text-white disabled:opacity-40"
+      >
+        Render {selected.length || ''} Delivery Master{selected.length === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+};
+
+interface DeliveryReportProps {
+  deliveries: DeliveryResult[];
+  sourceName: string;
+  onDone: () => void;
+}
+
+/** Pass/fail per platform with each master's download, or all of them as one ZIP. */
+export const DeliveryReport: React.FC<DeliveryReportProps> = ({ deliveries, sourceName, onDone }) => {
+  const [isZipping, setIsZipping] = useState(false);
+  const failed = deliveries.filter(d => d.status === 'fail').length;
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+      const base = sourceName.replace(/\.[^/.]+$/, "");
+      downloadBlob(await createDeliveryArchive(deliveries, sourceName), `AfriSuno_Delivery_${base}.zip`);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-bold text-white">Delivery Compliance</p>
+          <p className="text-[10px] text-gray-400">
+            {failed === 0 ? 'Every master meets its platform profile.' : `${failed} of ${deliveries.length} masters miss their profile.`}
+          </p>
+        </div>
+        <StatusBadge status={failed === 0 ? 'pass' : 'fail'} />
+      </div>
+
+      <div className="divide-y divide-gray-800">
+        {deliveries.map(({ profile, result, status, checks }) => (
+          <div key={profile.id} className="py-3 space-y-2">
+            <div className="flex items-center gap-3">
+              <StatusBadge status={status} />
+              <p className="flex-1 text-xs font-bold text-gray-200">{profile.name}</p>
+              <button
+                onClick={() => downloadBlob(result.blob, deliveryFileName(sourceName, profile))}
+                className="flex items-center gap-1 text-[10px] font-bold uppercase text-gray-400 hover:text-white"
+              >
+                <DownloadIcon className="w-3 h-3" /> {profile.exportFormat}
+              </button>
+            </div>
+            <ul className="ml-12 space-y-0.5">
+              {checks.map(check => (
+                <li key={check.label} className={`text-[10px] font-mono ${check.status === 'fail' ? 'text-red-400' : 'text-gray-400'}`}>
+                  <span className="text-gray-200 font-sans">{check.label}</span> {check.detail}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-4 justify-center">
+        <Button onClick={handleDownloadAll} disabled={isZipping} className="bg-green-600 hover:bg-green-700 px-8">
+          <DownloadIcon className="w-5 h-5 mr-2" />
+          {isZipping ? 'Packing...' : 'Download All (ZIP)'}
+        </Button>
+        <Button variant="secondary" onClick={onDone}>Back to Settings</Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React from 'react';
+import { EdgePlan, EdgeSettings, FadeCurve, FadeMode } from '../types';
+
+interface EdgePanelProps {
+  settings: EdgeSettings;
+  onChange: (settings: EdgeSettings) => void;
+  // What the settings resolve to for the loaded file, once decoded
+  plan: EdgePlan | null;
+  duration: number;
+}
+
+const FADE_MODES: { id: FadeMode; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'auto', label: 'Auto' },
+  { id: 'always', label: 'Always' },
+];
+
+const CURVES: { id: FadeCurve; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'exponential', label: 'Exp' },
+  { id: 'equalPower', label: 'Eq. Power' },
+  { id: 'sCurve', label: 'S-Curve' },
+];
+
+// Tiny preview of a curve shape, rising left to right
+const CURVE_PATHS: Record<FadeCurve, string> = {
+  linear: 'M0 12 L20 0',
+  exponential: 'M0 12 C14 12 18 8 20 0',
+  equalPower: 'M0 12 C2 4 10 0 20 0',
+  sCurve: 'M0 12 C8 12 12 0 20 0',
+};
+
+export const EdgePanel: React.FC<EdgePanelProps> = ({ settings, onChange, plan, duration }) => {
+  const update = (patch: Partial<EdgeSettings>) => onChange({ ...settings, ...patch });
+  const fadesOn = settings.fadeMode !== 'off';
+
+  const describePlan = () => {
+    if (!plan) return 'Analysing start and end...';
+    const parts: string[] = [];
+    const head = plan.start;
+    const tail = duration - plan.end;
+    if (settings.trimSilence) parts.push(head + tail > 0.01 ? `Trims ${head.toFixed(2)} s lead-in, ${tail.toFixed(2)} s tail.` : 'No silence to trim.');
+    if (settings.fadeMode === 'auto') {
+      parts.push(plan.abruptEnd ? `Ending is abrupt; fades out over ${plan.fadeOut.toFixed(1)} s.` : 'Ending is natural; no fade-out.');
+      if (plan.abruptStart) parts.push(`Starts mid-sound; fades in over ${plan.fadeIn.toFixed(1)} s.`);
+    }
+    return parts.join(' ') || 'Start and end are left untouched.';
+  };
+
+  const curvePicker = (value: FadeCurve, onPick: (curve: FadeCurve) => void, mirror: boolean) => (
+    <div className="flex gap-1">
+      {CURVES.map(curve => (
+        <button
+          key={curve.id}
+          onClick={() => onPick(curve.id)}
+          disabled={!fadesOn}
+          title={curve.label}
+          className={`flex-1 flex flex-col items-center gap-1 px-1 py-1 rounded border text-[9px] font-bold disabled:opacity-30 ${value === curve.id ? 'border-suno-accent text-white bg-suno-accent/20' : 'border-gray-800 text-gray-500 hover:text-white'}`}
+        >
+          <svg viewBox="0 0 20 12" className="w-6 h-3" style={mirror ? { transform: 'scaleX(-1)' } : undefined}>
+            <path d={CURVE_PATHS[curve.id]} fill="none" stroke="currentColor" strokeWidth="1.5" />
+          </svg>
+          {curve.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-4">
+      <div>
+        <p className="text-xs font-bold text-white">Start &amp; End</p>
+        <p className="text-[10px] text-gray-400">{describePlan()}</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-[10px] uppercase font-bold text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.trimSilence}
+              onChange={() => update({ trimSilence: !settings.trimSilence })}
+              className="accent-suno-accent"
+            />
+            Trim leading/trailing silence
+          </label>
+          <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+            Silence Threshold <span>{settings.silenceThreshold} dBFS</span>
+          </label>
+          <input
+            type="range" min="-90" max="-30" step="1"
+            value={settings.silenceThreshold}
+            onChange={(e) => update({ silenceThreshold: parseFloat(e.target.value) })}
+            className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-[10px] uppercase text-gray-500 font-bold">Fades</label>
+          <div className="flex gap-1">
+            {FADE_MODES.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => update({ fadeMode: mode.id })}
+                className={`flex-1 px-2 py-1 rounded text-[10px] font-bold uppercase ${settings.fadeMode === mode.id ? 'bg-white text-black' : 'text-gray-500 hover:text-white'}`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-500">Auto only fades an ending that is cut off, or a file that starts mid-sound.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+            Fade In <span>{settings.fadeIn.toFixed(1)} s</span>
+          </label>
+          <input
+            type="range" min="0" max="5" step="0.1"
+            value={settings.fadeIn}
+            disabled={!fadesOn}
+            onChange={(e) => update({ fadeIn: parseFloat(e.target.value) })}
+            className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+          />
+          {curvePicker(settings.fadeInCurve, curve => update({ fadeInCurve: curve }), false)}
+        </div>
+        <div className="space-y-2">
+          <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+            Fade Out <span>{settings.fadeOut.toFixed(1)} s</span>
+          </label>
+          <input
+            type="range" min="0" max="10" step="0.1"
+            value={settings.fadeOut}
+            disabled={!fadesOn}
+            onChange={(e) => update({ fadeOut: parseFloat(e.target.value) })}
+            className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+          />
+          {curvePicker(settings.fadeOutCurve, curve => update({ fadeOutCurve: curve }), true)}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { SavedVibe, TrackMetadata } from '../types';
+
+interface MetadataPanelProps {
+  metadata: TrackMetadata;
+  onChange: (metadata: TrackMetadata) => void;
+}
+
+// Song ideas can be a paragraph; keep the first line as a working title
+const titleFromIdea = (idea: string) => idea.split('\n')[0].trim().slice(0, 60);
+
+export const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, onChange }) => {
+  const [vibes, setVibes] = useState<SavedVibe[]>([]);
+  const [vibeId, setVibeId] = useState('');
+
+  useEffect(() => {
+    const saved = localStorage.getItem('afriSunoVibes');
+    if (saved) {
+      try {
+        setVibes(JSON.parse(saved));
+      } catch (e) {
+        console.error("Failed to parse vibes", e);
+      }
+    }
+  }, []);
+
+  const handleVibeChange = (id: string) => {
+    setVibeId(id);
+    const vibe = vibes.find(v => v.id === id);
+    if (!vibe) {
+      onChange({ ...metadata, lyrics: undefined, stylePrompt: undefined });
+      return;
+    }
+    onChange({
+      ...metadata,
+      title: titleFromIdea(vibe.idea) || metadata.title,
+      lyrics: vibe.lyrics,
+      stylePrompt: vibe.stylePrompt,
+    });
+  };
+
+  const inputClass = "w-full bg-black/30 border border-gray-800 rounded-lg px-3 py-1.5 text-xs text-white placeholder-gray-600 focus:outline-none focus:border-suno-accent";
+
+  return (
+    <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-3">
+      <div>
+        <p className="text-xs font-bold text-white">Track Metadata</p>
+        <p className="text-[10px] text-gray-400">Written into the file: ID3 for MP3, INFO/iXML for WAV, Vorbis comments for FLAC.</p>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] uppercase text-gray-500 font-bold">Source Vibe</label>
+        <select value={vibeId} onChange={(e) => handleVibeChange(e.target.value)} className={inputClass}>
+          <option value="">{vibes.length ? 'None (no lyrics or prompt)' : 'No saved vibes in library'}</option>
+          {vibes.map(vibe => (
+            <option key={vibe.id} value={vibe.id}>{titleFromIdea(vibe.idea) || 'Untitled vibe'}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase text-gray-500 font-bold">Title</label>
+          <input
+            type="text"
+            value={metadata.title}
+            onChange={(e) => onChange({ ...metadata, title: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase text-gray-500 font-bold">Artist</label>
+          <input
+            type="text"
+            value={metadata.artist}
+            onChange={(e) => onChange({ ...metadata, artist: e.target.value })}
+            placeholder="Artist name"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {(metadata.lyrics || metadata.stylePrompt) && (
+        <div className="flex flex-wrap gap-3 text-[10px] font-mono text-gray-400">
+          {metadata.lyrics && <span>Lyrics: {metadata.lyrics.split('\n').filter(Boolean).length} lines</span>}
+          {metadata.stylePrompt && <span className="truncate max-w-full" title={metadata.stylePrompt}>Prompt: {metadata.stylePrompt}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { MonoBandRange, MonoReport, QcStatus } from '../types';
+import { formatQcTime } from '../services/qualityCheck';
+import { MONO_WARN_CORRELATION } from '../services/monoCompat';
+
+interface MonoCompatibilityPanelProps {
+  report: MonoReport;
+  // Turns the Phase Guard on for a band (or the lows when null)
+  onGuard: (band: MonoBandRange | null) => void;
+}
+
+const STATUS_STYLES: Record<QcStatus, string> = {
+  pass: 'bg-green-900/40 text-green-400 border-green-800/60',
+  warn: 'bg-yellow-900/30 text-yellow-400 border-yellow-800/60',
+  fail: 'bg-red-900/30 text-red-400 border-red-800/60',
+};
+
+// Red when out of phase, yellow around uncorrelated, green towards mono
+const correlationColor = (correlation: number) =>
+  correlation < MONO_WARN_CORRELATION ? 'bg-red-500'
+  : correlation < 0.3 ? 'bg-yellow-500'
+  : 'bg-green-500';
+
+const formatCorrelation = (correlation: number) => `${correlation >= 0 ? '+' : ''}${correlation.toFixed(2)}`;
+
+export const MonoCompatibilityPanel: React.FC<MonoCompatibilityPanelProps> = ({ report, onGuard }) => (
+  <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-3 text-left">
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <p className="text-xs font-bold text-white">Mono Compatibility</p>
+        <span className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${STATUS_STYLES[report.status]}`}>{report.status}</span>
+      </div>
+      <p className="text-[10px] font-mono text-gray-400">
+        Correlation <span className="text-gray-200">{formatCorrelation(report.correlation)}</span>
+        {' · '}Mono <span className="text-gray-200">{report.foldDown.toFixed(1)} dB</span>
+      </p>
+    </div>
+
+    {/* Correlation over time; grey where the track is too quiet to judge */}
+    <div className="flex h-3 rounded overflow-hidden bg-gray-800" title={`${report.hop} s per step`}>
+      {report.meter.map((value, i) => (
+        <div
+          key={i}
+          className={`flex-1 ${value === null ? 'bg-gray-700' : correlationColor(value)}`}
+          style={value === null ? undefined : { opacity: 0.35 + 0.65 * Math.abs(value) }}
+        />
+      ))}
+    </div>
+
+    <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+      {report.bands.map(band => (
+        <div key={band.label} className="bg-black/20 rounded p-2 text-center">
+          <p className="text-[9px] uppercase text-gray-500 font-bold">{band.label}</p>
+          <p className={`text-xs font-mono ${band.correlation < MONO_WARN_CORRELATION ? 'text-red-400' : 'text-gray-200'}`}>
+            {formatCorrelation(band.correlation)}
+          </p>
+        </div>
+      ))}
+    </div>
+
+    {report.warnings.length > 0 && (
+      <ul className="space-y-1">
+        {report.warnings.map((warning, i) => (
+          <li key={i} className="flex items-center gap-3 text-[10px] font-mono text-gray-400">
+            <span className="text-gray-200">{formatQcTime(warning.start)}–{formatQcTime(warning.end)}</span>
+            <span className="flex-1">
+              {warning.band ? warning.band.label : 'Full band'} at {formatCorrelation(warning.correlation)}, {warning.foldDown.toFixed(1)} dB in mono
+            </span>
+            <button
+              onClick={() => onGuard(warning.band)}
+              className="text-[10px] font-bold uppercase text-cyan-400 hover:text-cyan-300 font-sans"
+            >
+              Guard {warning.band ? 'band' : 'lows'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,71 @@
+import React from 'react';
+import { CompressorBand, MultibandSettings } from '../types';
+
+interface MultibandPanelProps {
+  settings: MultibandSettings;
+  onChange: (settings: MultibandSettings) => void;
+}
+
+const BAND_CONTROLS: { key: keyof CompressorBand; label: string; unit: string; min: number; max: number; step: number }[] = [
+  { key: 'threshold', label: 'Thresh', unit: 'dB', min: -50, max: -10, step: 1 },
+  { key: 'ratio', label: 'Ratio', unit: ':1', min: 1, max: 8, step: 0.1 },
+  { key: 'attack', label: 'Attack', unit: 'ms', min: 1, max: 100, step: 1 },
+  { key: 'release', label: 'Release', unit: 'ms', min: 20, max: 600, step: 10 },
+];
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)}k` : `${hz}`);
+
+export const MultibandPanel: React.FC<MultibandPanelProps> = ({ settings, onChange }) => {
+  const updateBand = (index: number, key: keyof CompressorBand, value: number) => {
+    onChange({
+      ...settings,
+      bands: settings.bands.map((band, i) => (i === index ? { ...band, [key]: value } : band))
+    });
+  };
+
+  const bandLabel = (index: number) => {
+    const low = index === 0 ? '20' : formatHz(settings.crossovers[index - 1]);
+    const high = index === settings.crossovers.length ? '20k' : formatHz(settings.crossovers[index]);
+    return `${low}–${high} Hz`;
+  };
+
+  return (
+    <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs font-bold text-white">Multiband Dynamics</p>
+          <p className="text-[10px] text-gray-400">Linkwitz-Riley split so the low end stops pumping the vocals.</p>
+        </div>
+        <button
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+          className={`w-10 h-5 rounded-full relative transition-colors ${settings.enabled ? 'bg-green-600' : 'bg-gray-700'}`}
+        >
+          <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${settings.enabled ? 'left-6' : 'left-1'}`} />
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <div className={`grid grid-cols-2 gap-3 ${settings.bands.length === 4 ? 'sm:grid-cols-4' : 'sm:grid-cols-3'}`}>
+          {settings.bands.map((band, i) => (
+            <div key={i} className="bg-black/30 p-3 rounded-lg border border-gray-800 space-y-2">
+              <p className="text-[10px] font-mono text-suno-accent">{bandLabel(i)}</p>
+              {BAND_CONTROLS.map(control => (
+                <div key={control.key} className="space-y-1">
+                  <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                    {control.label} <span>{band[control.key]}{control.unit}</span>
+                  </label>
+                  <input
+                    type="range" min={control.min} max={control.max} step={control.step}
+                    value={band[control.key]}
+                    onChange={(e) => updateBand(i, control.key, parseFloat(e.target.value))}
+                    className="w-full accent-orange-500 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioProcessOptions, UserPreset } from '../types';
+import { SaveIcon, TrashIcon, DownloadIcon, UploadIcon } from './Icons';
+import { loadUserPresets, saveUserPreset, deleteUserPreset, exportPresets, importPresets } from '../services/presetStore';
+
+interface PresetManagerProps {
+  options: AudioProcessOptions;
+  onLoad: (options: AudioProcessOptions) => void;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const PresetManager: React.FC<PresetManagerProps> = ({ options, onLoad }) => {
+  const [presets, setPresets] = useState<UserPreset[]>([]);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setPresets(loadUserPresets());
+  }, []);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    setPresets(saveUserPreset(name, options));
+    setName('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPresets(await importPresets(file));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-xs font-semibold text-gray-400 uppercase tracking-widest">My Presets</label>
+        <div className="flex gap-3">
+          <button onClick={() => importRef.current?.click()} className="text-[10px] uppercase font-bold text-gray-500 hover:text-white flex items-center gap-1">
+            <UploadIcon className="w-3 h-3" /> Import
+          </button>
+          {presets.length > 0 && (
+            <button onClick={() => downloadBlob(exportPresets(presets), 'AfriSuno_Presets.json')} className="text-[10px] uppercase font-bold text-gray-500 hover:text-white flex items-center gap-1">
+              <DownloadIcon className="w-3 h-3" /> Export All
+            </button>
+          )}
+          <input type="file" ref={importRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+        </div>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {presets.map(preset => (
+            <div key={preset.id} className="group flex items-center bg-gray-900/60 border border-gray-800 rounded-lg hover:border-suno-accent/50">
+              <button onClick={() => onLoad(preset.options)} className="px-3 py-1.5 text-xs font-bold text-gray-300 hover:text-white">
+                {preset.name}
+              </button>
+              <button
+                onClick={() => downloadBlob(exportPresets([preset]), `AfriSuno_Preset_${preset.name.replace(/\W+/g, '_')}.json`)}
+                className="px-1 text-gray-600 hover:text-white opacity-0 group-hover:opacity-100"
+                title="Export Preset"
+              >
+                <DownloadIcon className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => setPresets(deleteUserPreset(preset.id))}
+                className="pr-2 pl-1 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                title="Delete Preset"
+              >
+                <TrashIcon className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Name this setup..."
+          className="flex-1 bg-black/30 border border-gray-800 rounded-lg px-3 py-1.5 text-xs text-white placeholder-gray-600 focus:outline-none focus:border-suno-accent"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 text-xs font-bold text-white flex items-center gap-1 disabled:opacity-40"
+        >
+          <SaveIcon className="w-3 h-3" /> Save
+        </button>
+      </div>
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PlayIcon, PauseIcon, LoaderIcon } from './Icons';
+import { AudioProcessOptions, AudioRegion, StemTrack } from '../types';
+import { decodeAudioFile, mixBusOptions } from '../services/audioEngine';
+import { createPreviewSession, PreviewSession } from '../services/previewEngine';
+import { resolveChain } from '../services/processingChain';
+
+interface PreviewPlayerProps {
+  // One file, or stems to mix the way the render will
+  source: File | StemTrack[];
+  options: AudioProcessOptions;
+  // Region to repeat, from the waveform editor
+  loopRegion?: AudioRegion | null;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ source, options, loopRegion = null }) => {
+  const sessionRef = useRef<PreviewSession | null>(null);
+  const sourceRef = useRef(source);
+  const optionsRef = useRef(options);
+  const loopRef = useRef(loopRegion);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [bypass, setBypass] = useState(false);
+  const [loudnessMatch, setLoudnessMatch] = useState(true);
+  const [listenSidechain, setListenSidechain] = useState(false);
+
+  sourceRef.current = source;
+  optionsRef.current = options;
+  loopRef.current = loopRegion;
+
+  // A new session for another file or another set of stems; mix changes go to the running one
+  const stems = Array.isArray(source) ? source : null;
+  const sourceKey = stems ? stems.map(stem => stem.id).join('|') : source;
+  // The sidechain can only be monitored on the mix bus, not on vocal stems
+  const deEsserActive = resolveChain(stems ? mixBusOptions(stems, options) : options)
+    .some(stage => stage.type === 'deEsser' && !stage.bypass);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    const init = async () => {
+      const current = sourceRef.current;
+      const session = Array.isArray(current)
+        ? await createPreviewSession(
+            await Promise.all(current.map(async stem => ({ buffer: await decodeAudioFile(stem.file), settings: stem.settings }))),
+            optionsRef.current
+          )
+        : await createPreviewSession(await decodeAudioFile(current), optionsRef.current);
+      if (cancelled) {
+        session.dispose();
+        return;
+      }
+      sessionRef.current = session;
+      // Catch up with anything changed while decoding
+      session.setOptions(optionsRef.current);
+      if (Array.isArray(sourceRef.current)) session.setStemSettings(sourceRef.current.map(stem => stem.settings));
+      session.setLoop(loopRef.current);
+      setListenSidechain(false);
+      setDuration(session.duration);
+      setPosition(0);
+      setIsLoading(false);
+    };
+
+    init().catch(err => console.error("Preview init failed", err));
+
+    return () => {
+      cancelled = true;
+      sessionRef.current?.dispose();
+      sessionRef.current = null;
+      setIsPlaying(false);
+    };
+  }, [sourceKey]);
+
+  // Move the processed path whenever settings change, without stopping playback
+  useEffect(() => {
+    sessionRef.current?.setOptions(options);
+  }, [options]);
+
+  useEffect(() => {
+    if (stems) sessionRef.current?.setStemSettings(stems.map(stem => stem.settings));
+  }, [stems]);
+
+  useEffect(() => {
+    sessionRef.current?.setLoop(loopRegion);
+  }, [loopRegion?.start, loopRegion?.end]);
+
+  // Nothing to listen to once the de-esser is switched off
+  useEffect(() => {
+    if (!deEsserActive && listenSidechain) {
+      sessionRef.current?.setSidechainListen(false);
+      setListenSidechain(false);
+    }
+  }, [deEsserActive]);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const session = sessionRef.current;
+      if (!session) return;
+      setPosition(session.getPosition());
+      setIsPlaying(session.isPlaying());
+    }, 200);
+    return () => clearInterval(timer);
+  }, []);
+
+  const togglePlay = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    if (session.isPlaying()) session.pause();
+    else session.play();
+    setIsPlaying(session.isPlaying());
+  };
+
+  const toggleBypass = () => {
+    sessionRef.current?.setBypass(!bypass);
+    setBypass(!bypass);
+  };
+
+  const toggleLoudnessMatch = () => {
+    sessionRef.current?.setLoudnessMatch(!loudnessMatch);
+    setLoudnessMatch(!loudnessMatch);
+  };
+
+  const toggleSidechain = () => {
+    sessionRef.current?.setSidechainListen(!listenSidechain);
+    setListenSidechain(!listenSidechain);
+  };
+
+  return (
+    <div className="bg-black/30 p-4 rounded-xl border border-gray-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-bold text-gray-300 uppercase tracking-widest">Live Preview</p>
+        <div className="flex items-center gap-4">
+          {deEsserActive && (
+            <label className="flex items-center gap-2 text-[10px] uppercase font-bold text-gray-500 cursor-pointer">
+              <input type="checkbox" checked={listenSidechain} onChange={toggleSidechain} className="accent-suno-accent" />
+              Listen to sidechain
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-[10px] uppercase font-bold text-gray-500 cursor-pointer">
+            <input type="checkbox" checked={loudnessMatch} onChange={toggleLoudnessMatch} className="accent-suno-accent" />
+            Loudness-matched
+          </label>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlay}
+          disabled={isLoading}
+          className="w-10 h-10 rounded-full bg-suno-accent hover:bg-violet-600 flex items-center justify-center text-white disabled:opacity-50 shrink-0"
+        >
+          {isLoading ? <LoaderIcon className="w-4 h-4 animate-spin" /> : isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+        </button>
+        <span className="text-[10px] font-mono text-gray-400 w-10 text-right">{formatTime(position)}</span>
+        <input
+          type="range" min="0" max={duration || 0} step="0.1"
+          value={position}
+          disabled={isLoading}
+          onChange={(e) => {
+            const seconds = parseFloat(e.target.value);
+            sessionRef.current?.seek(seconds);
+            setPosition(seconds);
+          }}
+          className="flex-1 accent-suno-accent h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+        />
+        <span className="text-[10px] font-mono text-gray-400 w-10">{formatTime(duration)}</span>
+        <button
+          onClick={toggleBypass}
+          disabled={isLoading}
+          className="flex rounded-lg overflow-hidden border border-gray-700 text-[10px] font-bold shrink-0"
+        >
+          <span className={`px-2 py-1 ${bypass ? 'bg-white text-black' : 'text-gray-500'}`}>A</span>
+          <span className={`px-2 py-1 ${!bypass ? 'bg-suno-accent text-white' : 'text-gray-500'}`}>B</span>
+        </button>
+      </div>
+      <p className="text-[10px] text-gray-500">
+        {listenSidechain
+          ? 'B = the de-esser\'s 5-9 kHz detector band only. Untick to hear the master again.'
+          : loopRegion
+            ? `Looping ${formatTime(loopRegion.start)}–${formatTime(loopRegion.end)}. A = original, B = mastered.`
+            : 'A = original, B = mastered. Changes apply live; trimming and fades are only rendered on export.'}
+      </p>
+    </div>
+  );
+};
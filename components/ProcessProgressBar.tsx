@@ -0,0 +1,46 @@
+import React from 'react';
+import { ExportFormat, ProcessProgress } from '../types';
+
+interface ProcessProgressBarProps {
+  progress: ProcessProgress | null;
+  format: ExportFormat;
+  compact?: boolean;
+}
+
+const describeStage = (progress: ProcessProgress, format: ExportFormat) => {
+  switch (progress.stage) {
+    case 'decode':
+      return 'Decoding source...';
+    case 'render':
+      return progress.pass && progress.pass > 1
+        ? `Rendering master (loudness pass ${progress.pass})...`
+        : 'Rendering master...';
+    case 'encode':
+      return `Encoding ${(progress.delivery?.format ?? format).toUpperCase()}...`;
+  }
+};
+
+export const describeProgress = (progress: ProcessProgress | null, format: ExportFormat) => {
+  if (!progress) return 'Starting...';
+  const { delivery } = progress;
+  return delivery
+    ? `${delivery.profile} (${delivery.index + 1}/${delivery.count}): ${describeStage(progress, format)}`
+    : describeStage(progress, format);
+};
+
+export const ProcessProgressBar: React.FC<ProcessProgressBarProps> = ({ progress, format, compact }) => {
+  const percent = Math.round((progress?.fraction ?? 0) * 100);
+  return (
+    <div className="space-y-1">
+      {!compact && (
+        <div className="flex justify-between text-[10px] font-mono text-gray-400">
+          <span>{describeProgress(progress, format)}</span>
+          <span>{percent}%</span>
+        </div>
+      )}
+      <div className={`w-full bg-gray-800 rounded-full overflow-hidden ${compact ? 'h-1' : 'h-2'}`}>
+        <div className="h-full bg-suno-accent transition-all duration-200" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { QcReport, QcStatus } from '../types';
+import { exportQcReport, formatQcTime } from '../services/qualityCheck';
+import { DownloadIcon } from './Icons';
+
+interface QcReportPanelProps {
+  report: QcReport | null;
+}
+
+const STATUS_STYLES: Record<QcStatus, string> = {
+  pass: 'bg-green-900/40 text-green-400 border-green-800/60',
+  warn: 'bg-yellow-900/30 text-yellow-400 border-yellow-800/60',
+  fail: 'bg-red-900/30 text-red-400 border-red-800/60',
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const StatusBadge: React.FC<{ status: QcStatus }> = ({ status }) => (
+  <span className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${STATUS_STYLES[status]}`}>{status}</span>
+);
+
+export const QcReportPanel: React.FC<QcReportPanelProps> = ({ report }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (!report) {
+    return (
+      <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 text-[10px] text-gray-500 font-mono">
+        Running source health check...
+      </div>
+    );
+  }
+
+  const handleExport = () => {
+    const base = report.fileName.replace(/\.[^/.]+$/, "") || 'source';
+    downloadBlob(exportQcReport(report), `${base}.qc.json`);
+  };
+
+  return (
+    <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <p className="text-xs font-bold text-white">Source Health Check</p>
+          <StatusBadge status={report.status} />
+        </div>
+        <button
+          onClick={handleExport}
+          className="flex items-center gap-1 text-[10px] font-bold uppercase text-gray-400 hover:text-white"
+        >
+          <DownloadIcon className="w-3 h-3" /> JSON
+        </button>
+      </div>
+
+      <div className="divide-y divide-gray-800">
+        {report.checks.map(item => (
+          <div key={item.id} className="py-2">
+            <button
+              onClick={() => setExpanded(expanded === item.id ? null : item.id)}
+              disabled={item.events.length === 0}
+              className="w-full flex items-start gap-3 text-left"
+            >
+              <StatusBadge status={item.status} />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold text-gray-200">{item.label}</p>
+                <p className="text-[10px] text-gray-400">{item.summary}</p>
+              </div>
+              {item.events.length > 0 && (
+                <span className="text-[10px] font-mono text-gray-500 shrink-0">
+                  {item.events.length} {expanded === item.id ? '▲' : '▼'}
+                </span>
+              )}
+            </button>
+            {expanded === item.id && (
+              <ul className="mt-2 ml-12 space-y-1">
+                {item.events.map((event, i) => (
+                  <li key={i} className="text-[10px] font-mono text-gray-400">
+                    <span className="text-gray-200">{formatQcTime(event.start)}–{formatQcTime(event.end)}</span> {event.detail}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
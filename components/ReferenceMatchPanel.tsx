@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReferenceMatchSettings, ReferenceProfile, SpectrumProfile } from '../types';
+import { computeMatchCurve, designMatchEq, eqResponseDb } from '../services/spectralMatch';
+import { measureFileSpectrum } from '../services/audioEngine';
+import { deleteReferenceProfile, loadReferenceProfiles, saveReferenceProfile } from '../services/referenceStore';
+import { LoaderIcon } from './Icons';
+
+interface ReferenceMatchPanelProps {
+  settings: ReferenceMatchSettings;
+  onChange: (settings: ReferenceMatchSettings) => void;
+  // Long-term spectrum of the track being mastered, once measured
+  spectrum: SpectrumProfile | null;
+  sampleRate: number;
+}
+
+const MIN_HZ = 40;
+const MAX_HZ = 16000;
+const RANGE_DB = 12;
+const PLOT_POINTS = 200;
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(hz >= 10000 ? 0 : 1)}k` : `${Math.round(hz)}`);
+
+export const ReferenceMatchPanel: React.FC<ReferenceMatchPanelProps> = ({ settings, onChange, spectrum, sampleRate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [profiles, setProfiles] = useState<ReferenceProfile[]>([]);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+
+  useEffect(() => {
+    setProfiles(loadReferenceProfiles());
+  }, []);
+
+  const update = (patch: Partial<ReferenceMatchSettings>) => onChange({ ...settings, ...patch });
+
+  const selectProfile = (id: string) => {
+    const reference = profiles.find(p => p.id === id) ?? null;
+    update({ reference, enabled: settings.enabled || !!reference });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsMeasuring(true);
+    try {
+      const saved = saveReferenceProfile(file.name.replace(/\.[^/.]+$/, ""), await measureFileSpectrum(file));
+      setProfiles(saved);
+      update({ reference: saved[0], enabled: true });
+    } catch (err) {
+      console.error("Reference measurement failed", err);
+      alert("Could not read that reference track.");
+    } finally {
+      setIsMeasuring(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!settings.reference) return;
+    setProfiles(deleteReferenceProfile(settings.reference.id));
+    update({ reference: null, enabled: false });
+  };
+
+  const reference = settings.reference;
+  const curve = reference && spectrum ? computeMatchCurve(reference, spectrum, settings) : null;
+  const bands = curve && spectrum ? designMatchEq(spectrum.frequencies, curve, sampleRate) : [];
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    const width = canvas.width = canvas.offsetWidth;
+    const height = canvas.height = canvas.offsetHeight;
+    const x = (hz: number) => (Math.log(hz / MIN_HZ) / Math.log(MAX_HZ / MIN_HZ)) * width;
+    const y = (db: number) => height / 2 - (db / RANGE_DB) * (height / 2);
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.strokeStyle = '#1f2937';
+    ctx.fillStyle = '#4b5563';
+    ctx.font = '9px monospace';
+    for (let hz = 62.5; hz < MAX_HZ; hz *= 2) {
+      ctx.beginPath();
+      ctx.moveTo(x(hz), 0);
+      ctx.lineTo(x(hz), height);
+      ctx.stroke();
+      ctx.fillText(formatHz(hz), x(hz) + 2, height - 2);
+    }
+    ctx.strokeStyle = '#374151';
+    ctx.beginPath();
+    ctx.moveTo(0, y(0));
+    ctx.lineTo(width, y(0));
+    ctx.stroke();
+    ctx.fillText(`+${RANGE_DB}`, 2, 10);
+    ctx.fillText(`-${RANGE_DB}`, 2, height - 12);
+
+    if (!reference || !spectrum) return;
+
+    // Uncapped difference, for judging how far the caps hold the EQ back
+    const raw = computeMatchCurve(reference, spectrum, { amount: 1, maxBoost: RANGE_DB * 2, maxCut: RANGE_DB * 2 });
+    ctx.strokeStyle = '#6b7280';
+    ctx.setLineDash([2, 3]);
+    ctx.beginPath();
+    spectrum.frequencies.forEach((f, i) => (i === 0 ? ctx.moveTo(x(f), y(raw[i])) : ctx.lineTo(x(f), y(raw[i]))));
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = '#22c55e';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    for (let p = 0; p <= PLOT_POINTS; p++) {
+      const hz = MIN_HZ * Math.pow(MAX_HZ / MIN_HZ, p / PLOT_POINTS);
+      const db = eqResponseDb(bands, hz, sampleRate);
+      if (p === 0) ctx.moveTo(x(hz), y(db));
+      else ctx.lineTo(x(hz), y(db));
+    }
+    ctx.stroke();
+  }, [reference?.id, spectrum, bands.map(b => b.gain.toFixed(2)).join(), sampleRate]);
+
+  return (
+    <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs font-bold text-white">Match to Reference</p>
+          <p className="text-[10px] text-gray-400">Pushes the tonal balance toward a commercial release. Level differences are ignored; only the shape is matched.</p>
+        </div>
+        <button
+          onClick={() => update({ enabled: !settings.enabled })}
+          disabled={!reference}
+          className={`w-10 h-5 rounded-full relative transition-colors shrink-0 disabled:opacity-40 ${settings.enabled ? 'bg-green-600' : 'bg-gray-700'}`}
+        >
+          <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${settings.enabled ? 'left-6' : 'left-1'}`} />
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={reference?.id ?? ''}
+          onChange={(e) => selectProfile(e.target.value)}
+          className="flex-1 bg-black/30 border border-gray-800 rounded-lg px-3 py-1.5 text-xs text-white focus:outline-none focus:border-suno-accent"
+        >
+          <option value="">{profiles.length ? 'Choose a reference...' : 'No references yet'}</option>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <input type="file" ref={fileInputRef} onChange={handleFile} accept="audio/*" className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isMeasuring}
+          className="px-3 py-1.5 rounded-lg border border-gray-700 text-[10px] font-bold uppercase text-gray-300 hover:text-white disabled:opacity-50 flex items-center gap-1"
+        >
+          {isMeasuring && <LoaderIcon className="w-3 h-3 animate-spin" />}
+          Load track
+        </button>
+        {reference && (
+          <button onClick={handleDelete} className="px-2 text-[10px] text-red-400 hover:text-red-300">Delete</button>
+        )}
+      </div>
+
+      <div className="relative h-24 bg-black/40 rounded-lg overflow-hidden">
+        <canvas ref={canvasRef} className="w-full h-full" />
+        {reference && !spectrum && (
+          <div className="absolute inset-0 flex items-center justify-center text-[10px] text-gray-500 font-mono">Measuring this track...</div>
+        )}
+        {!reference && (
+          <div className="absolute inset-0 flex items-center justify-center text-[10px] text-gray-500 font-mono">Load a reference here or from the Vibe Cloner.</div>
+        )}
+      </div>
+      <p className="text-[10px] text-gray-500">Dotted: full difference to the reference. Green: the EQ that will be applied.</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+            Amount <span>{Math.round(settings.amount * 100)}%</span>
+          </label>
+          <input
+            type="range" min="0" max="1" step="0.05"
+            value={settings.amount}
+            onChange={(e) => update({ amount: parseFloat(e.target.value) })}
+            className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+            Max Boost <span>{settings.maxBoost} dB</span>
+          </label>
+          <input
+            type="range" min="0" max="9" step="0.5"
+            value={settings.maxBoost}
+            onChange={(e) => update({ maxBoost: parseFloat(e.target.value) })}
+            className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+            Max Cut <span>{settings.maxCut} dB</span>
+          </label>
+          <input
+            type="range" min="0" max="12" step="0.5"
+            value={settings.maxCut}
+            onChange={(e) => update({ maxCut: parseFloat(e.target.value) })}
+            className="w-full accent-green-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioProcessOptions, LoudnessStats, RenderRecord } from '../types';
+import { DownloadIcon, PauseIcon, PlayIcon, TrashIcon, UploadIcon } from './Icons';
+import { clearRenderHistory, deleteRenderRecord, diffOptions, exportRenderReport, importRenderReport, reportFileName, saveRenderRecord } from '../services/renderHistory';
+
+interface RenderHistoryProps {
+  records: RenderRecord[];
+  onChange: (records: RenderRecord[]) => void;
+  // Audio of this session's renders by record id; older records only have their report
+  blobs: Record<string, Blob>;
+  onApply: (options: AudioProcessOptions) => void;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const COMPARE_ROWS: { label: string; value: (r: RenderRecord) => number; unit: string }[] = [
+  { label: 'Integrated', value: r => r.output.integrated, unit: 'LUFS' },
+  { label: 'True peak', value: r => r.output.truePeak, unit: 'dBTP' },
+  { label: 'RMS', value: r => r.output.rms, unit: 'dBFS' },
+  { label: 'Loudness range', value: r => r.output.range, unit: 'LU' },
+  { label: 'Mono fold-down', value: r => r.mono.foldDown, unit: 'dB' },
+  { label: 'Duration', value: r => r.output.duration, unit: 's' },
+];
+
+// `monoBassFrequency` → `mono bass frequency`
+const settingLabel = (key: string) => key.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+const formatStats = (stats: LoudnessStats) =>
+  `${stats.integrated.toFixed(1)} LUFS · ${stats.truePeak.toFixed(1)} dBTP · RMS ${stats.rms.toFixed(1)} · ${stats.duration.toFixed(1)} s`;
+
+const CompareTable: React.FC<{ a: RenderRecord; b: RenderRecord }> = ({ a, b }) => {
+  const changed = diffOptions(a.options, b.options);
+  return (
+    <div className="bg-black/30 rounded-lg border border-gray-800 overflow-hidden">
+      <div className="grid grid-cols-4 text-[10px] uppercase font-bold text-gray-500 px-3 py-2 border-b border-gray-800">
+        <span>Output</span>
+        <span className="text-right">A</span>
+        <span className="text-right">B</span>
+        <span className="text-right">B − A</span>
+      </div>
+      {COMPARE_ROWS.map(row => {
+        const delta = row.value(b) - row.value(a);
+        return (
+          <div key={row.label} className="grid grid-cols-4 px-3 py-1 text-xs font-mono">
+            <span className="text-gray-400 font-sans">{row.label}</span>
+            <span className="text-right text-gray-300">{row.value(a).toFixed(1)}</span>
+            <span className="text-right text-gray-300">{row.value(b).toFixed(1)}</span>
+            <span className="text-right text-white">{delta >= 0 ? '+' : ''}{delta.toFixed(1)} {row.unit}</span>
+          </div>
+        );
+      })}
+      <p className="px-3 py-2 border-t border-gray-800 text-[10px] text-gray-400">
+        {changed.length > 0
+          ? <>Settings that differ: <span className="text-gray-200">{changed.map(settingLabel).join(', ')}</span></>
+          : 'Same settings.'}
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Past renders with their settings and measurements. Switching playback
+ * between two renders keeps the position, for quick A/B listening.
+ */
+export const RenderHistory: React.FC<RenderHistoryProps> = ({ records, onChange, blobs, onApply }) => {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [compare, setCompare] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const urlRef = useRef<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => () => {
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+  }, []);
+
+  const listen = (record: RenderRecord) => {
+    const audio = audioRef.current;
+    const blob = blobs[record.id];
+    if (!audio || !blob) return;
+    if (playingId === record.id) {
+      audio.pause();
+      setPlayingId(null);
+      return;
+    }
+    const position = playingId ? audio.currentTime : 0;
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    urlRef.current = URL.createObjectURL(blob);
+    audio.src = urlRef.current;
+    audio.currentTime = position;
+    audio.play();
+    setPlayingId(record.id);
+  };
+
+  // Two renders at most; a third replaces the older pick
+  const toggleCompare = (id: string) =>
+    setCompare(compare.includes(id) ? compare.filter(c => c !== id) : [...compare, id].slice(-2));
+
+  const remove = (id: string) => {
+    if (playingId === id) {
+      audioRef.current?.pause();
+      setPlayingId(null);
+    }
+    setCompare(compare.filter(c => c !== id));
+    onChange(deleteRenderRecord(id));
+  };
+
+  const clear = () => {
+    audioRef.current?.pause();
+    setPlayingId(null);
+    setCompare([]);
+    onChange(clearRenderHistory());
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(saveRenderRecord(await importRenderReport(file)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const [a, b] = compare.map(id => records.find(r => r.id === id)).filter((r): r is RenderRecord => !!r);
+
+  return (
+    <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-3">
+      <audio ref={audioRef} onEnded={() => setPlayingId(null)} className="hidden" />
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-bold text-white">Render History</p>
+        <div className="flex gap-3">
+          <button onClick={() => importRef.current?.click()} className="text-[10px] uppercase font-bold text-gray-500 hover:text-white flex items-center gap-1">
+            <UploadIcon className="w-3 h-3" /> Load Report
+          </button>
+          {records.length > 0 && (
+            <button onClick={clear} className="text-[10px] uppercase font-bold text-gray-500 hover:text-red-400">Clear</button>
+          )}
+          <input type="file" ref={importRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+        </div>
+      </div>
+
+      {records.length === 0 && (
+        <p className="text-[10px] text-gray-500">Every render is listed here with its settings and measurements.</p>
+      )}
+
+      <div className="divide-y divide-gray-800">
+        {records.map(record => {
+          const blob = blobs[record.id];
+          const slot = compare.indexOf(record.id);
+          return (
+            <div key={record.id} className="py-2 flex items-center gap-3">
+              <button
+                onClick={() => listen(record)}
+                disabled={!blob}
+                title={blob ? 'Listen' : 'Audio is only kept for this session'}
+                className="w-7 h-7 shrink-0 rounded-full bg-gray-800 hover:bg-gray-700 flex items-center justify-center text-white disabled:opacity-30"
+              >
+                {playingId === record.id ? <PauseIcon className="w-3 h-3" /> : <PlayIcon className="w-3 h-3" />}
+              </button>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold text-gray-200 truncate">
+                  {record.sourceName}{' '}
+                  <span className="text-gray-500 font-normal">{new Date(record.createdAt).toLocaleString()} · {record.options.exportFormat.toUpperCase()}</span>
+                </p>
+                <p className="text-[10px] font-mono text-gray-400">{formatStats(record.output)} · mono {record.mono.status}</p>
+              </div>
+              <button
+                onClick={() => toggleCompare(record.id)}
+                className={`w-6 h-6 shrink-0 rounded text-[10px] font-bold border ${slot >= 0 ? 'border-cyan-500 text-cyan-300 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:border-gray-500'}`}
+                title="Compare"
+              >
+                {slot >= 0 ? 'AB'[slot] : '+'}
+              </button>
+              <button onClick={() => onApply(record.options)} className="text-[10px] uppercase font-bold text-gray-400 hover:text-white shrink-0">Apply</button>
+              {blob && (
+                <button onClick={() => downloadBlob(blob, record.fileName)} className="text-gray-500 hover:text-white shrink-0" title="Download Audio">
+                  <DownloadIcon className="w-3 h-3" />
+                </button>
+              )}
+              <button
+                onClick={() => downloadBlob(exportRenderReport(record), reportFileName(record.fileName))}
+                className="text-[10px] uppercase font-bold text-gray-500 hover:text-white shrink-0"
+                title="Download Report"
+              >
+                JSON
+              </button>
+              <button onClick={() => remove(record.id)} className="text-gray-600 hover:text-red-400 shrink-0" title="Delete">
+                <TrashIcon className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {a && b && <CompareTable a={a} b={b} />}
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef } from 'react';
+import { NaturalizerSettings, ResonanceAnalysis } from '../types';
+import { selectNotches } from '../services/resonance';
+import { peakingResponseDb } from '../services/dsp';
+
+interface SpectrumPlotProps {
+  analysis: ResonanceAnalysis | null;
+  settings: NaturalizerSettings;
+  active: boolean;
+}
+
+const MIN_HZ = 40;
+const MAX_HZ = 20000;
+const RANGE_DB = 60;
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)}k` : `${Math.round(hz)}`);
+
+export const SpectrumPlot: React.FC<SpectrumPlotProps> = ({ analysis, settings, active }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const notches = analysis && active ? selectNotches(analysis, settings) : [];
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !analysis) return;
+    const ctx = canvas.getContext('2d')!;
+    const width = canvas.width = canvas.offsetWidth;
+    const height = canvas.height = canvas.offsetHeight;
+    const { frequencies, spectrum } = analysis;
+    const sampleRate = 2 * frequencies[frequencies.length - 1];
+
+    let top = -Infinity;
+    frequencies.forEach((f, k) => { if (f >= MIN_HZ && spectrum[k] > top) top = spectrum[k]; });
+    top = Math.ceil(top / 6) * 6 + 6;
+
+    const x = (hz: number) => (Math.log(hz / MIN_HZ) / Math.log(MAX_HZ / MIN_HZ)) * width;
+    const y = (db: number) => ((top - db) / RANGE_DB) * height;
+
+    ctx.clearRect(0, 0, width, height);
+
+    // Octave grid
+    ctx.strokeStyle = '#1f2937';
+    ctx.fillStyle = '#4b5563';
+    ctx.font = '9px monospace';
+    for (let hz = 62.5; hz < MAX_HZ; hz *= 2) {
+      ctx.beginPath();
+      ctx.moveTo(x(hz), 0);
+      ctx.lineTo(x(hz), height);
+      ctx.stroke();
+      ctx.fillText(formatHz(hz), x(hz) + 2, height - 2);
+    }
+
+    const drawCurve = (values: (k: number) => number, color: string) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      let started = false;
+      frequencies.forEach((f, k) => {
+        if (f < MIN_HZ) return;
+        if (started) ctx.lineTo(x(f), y(values(k)));
+        else ctx.moveTo(x(f), y(values(k)));
+        started = true;
+      });
+      ctx.stroke();
+    };
+
+    drawCurve(k => spectrum[k], '#6b7280');
+
+    if (notches.length > 0) {
+      drawCurve(k => notches.reduce(
+        (db, n) => db + peakingResponseDb(frequencies[k], n.frequency, n.Q, -n.depth, sampleRate),
+        spectrum[k]
+      ), '#8b5cf6');
+
+      ctx.strokeStyle = '#f87171';
+      ctx.setLineDash([2, 3]);
+      for (const notch of notches) {
+        ctx.beginPath();
+        ctx.moveTo(x(notch.frequency), 0);
+        ctx.lineTo(x(notch.frequency), height);
+        ctx.stroke();
+      }
+      ctx.setLineDash([]);
+    }
+  }, [analysis, notches.map(n => `${n.frequency}:${n.depth}`).join()]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative h-32 bg-black/40 rounded-lg overflow-hidden">
+        <canvas ref={canvasRef} className="w-full h-full" />
+        {!analysis && (
+          <div className="absolute inset-0 flex items-center justify-center text-[10px] text-gray-500 font-mono">Scanning for resonances...</div>
+        )}
+      </div>
+      {analysis && (
+        <div className="flex flex-wrap gap-2 text-[10px] font-mono">
+          {notches.length === 0 ? (
+            <span className="text-gray-500">{active ? 'No metallic resonances above threshold. Nothing will be cut.' : 'Naturalizer off.'}</span>
+          ) : notches.map(notch => (
+            <span key={notch.frequency} className="px-2 py-0.5 rounded border border-red-900/50 text-red-300">
+              {formatHz(notch.frequency)} Hz −{notch.depth.toFixed(1)} dB Q{notch.Q.toFixed(1)}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useRef } from 'react';
+import { StemEq, StemRole, StemSettings, StemTrack } from '../types';
+import { TrashIcon, UploadIcon } from './Icons';
+import { audibleStems, createStemSettings } from '../services/stems';
+
+interface StemMixerProps {
+  stems: StemTrack[];
+  onChange: (stems: StemTrack[]) => void;
+  // Naturalizer and de-esser on the vocal stems only, instead of the whole mix
+  vocalCleanup: boolean;
+  onVocalCleanupChange: (vocalCleanup: boolean) => void;
+}
+
+export const createStemTrack = (file: File, index = 0): StemTrack => ({
+  id: `${Date.now()}-${index}-${file.name}`,
+  file,
+  settings: createStemSettings(file.name),
+});
+
+const ROLES: { role: StemRole; label: string }[] = [
+  { role: 'vocals', label: 'Vocals' },
+  { role: 'instrumental', label: 'Instr.' },
+  { role: 'other', label: 'Other' },
+];
+
+const EQ_CONTROLS: { key: keyof StemEq; label: string }[] = [
+  { key: 'low', label: 'Low' },
+  { key: 'mid', label: 'Mid' },
+  { key: 'high', label: 'High' },
+];
+
+const formatPan = (pan: number) =>
+  Math.abs(pan) < 0.01 ? 'C' : `${Math.round(Math.abs(pan) * 100)}${pan < 0 ? 'L' : 'R'}`;
+
+const formatDb = (db: number) => `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+
+export const StemMixer: React.FC<StemMixerProps> = ({ stems, onChange, vocalCleanup, onVocalCleanupChange }) => {
+  const addRef = useRef<HTMLInputElement>(null);
+  const audible = new Set(audibleStems<StemTrack>(stems).map(stem => stem.id));
+  const hasVocals = stems.some(stem => stem.settings.role === 'vocals');
+
+  const updateStem = (id: string, patch: Partial<StemSettings>) =>
+    onChange(stems.map(stem => (stem.id === id ? { ...stem, settings: { ...stem.settings, ...patch } } : stem)));
+
+  const handleAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from<File>(e.target.files).filter(f => f.type.startsWith('audio/')) : [];
+    e.target.value = '';
+    onChange([...stems, ...files.map((file, i) => createStemTrack(file, stems.length + i))]);
+  };
+
+  return (
+    <div className="bg-gray-900/40 p-4 rounded-xl border border-gray-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs font-bold text-white">Stem Mixdown</p>
+          <p className="text-[10px] text-gray-400">Stems are summed inside the mastering render; the panels below analyse the plain sum.</p>
+        </div>
+        <button onClick={() => addRef.current?.click()} className="text-[10px] uppercase font-bold text-gray-500 hover:text-white flex items-center gap-1 shrink-0">
+          <UploadIcon className="w-3 h-3" /> Add Stems
+        </button>
+        <input type="file" ref={addRef} onChange={handleAdd} accept="audio/*" multiple className="hidden" />
+      </div>
+
+      <div className="space-y-3">
+        {stems.map(stem => (
+          <div
+            key={stem.id}
+            className={`bg-black/30 p-3 rounded-lg border border-gray-800 space-y-3 ${audible.has(stem.id) ? '' : 'opacity-50'}`}
+          >
+            <div className="flex items-center gap-2">
+              <p className="flex-1 min-w-0 text-xs font-bold text-gray-200 truncate">{stem.file.name}</p>
+              <div className="flex gap-1">
+                {ROLES.map(({ role, label }) => (
+                  <button
+                    key={role}
+                    onClick={() => updateStem(stem.id, { role })}
+                    className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border ${stem.settings.role === role ? 'border-suno-accent text-white bg-suno-accent/20' : 'border-gray-700 text-gray-500 hover:border-gray-500'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => updateStem(stem.id, { mute: !stem.settings.mute })}
+                className={`w-6 h-6 rounded text-[10px] font-bold border ${stem.settings.mute ? 'border-red-500 text-red-300 bg-red-900/30' : 'border-gray-700 text-gray-500 hover:border-gray-500'}`}
+                title="Mute"
+              >
+                M
+              </button>
+              <button
+                onClick={() => updateStem(stem.id, { solo: !stem.settings.solo })}
+                className={`w-6 h-6 rounded text-[10px] font-bold border ${stem.settings.solo ? 'border-yellow-500 text-yellow-300 bg-yellow-900/30' : 'border-gray-700 text-gray-500 hover:border-gray-500'}`}
+                title="Solo"
+              >
+                S
+              </button>
+              <button
+                onClick={() => onChange(stems.filter(s => s.id !== stem.id))}
+                disabled={stems.length === 1}
+                className="text-gray-600 hover:text-red-400 disabled:opacity-30"
+                title="Remove Stem"
+              >
+                <TrashIcon className="w-3 h-3" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              <div className="space-y-1">
+                <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                  Gain <span>{formatDb(stem.settings.gain)}</span>
+                </label>
+                <input
+                  type="range" min="-24" max="12" step="0.5"
+                  value={stem.settings.gain}
+                  onChange={(e) => updateStem(stem.id, { gain: parseFloat(e.target.value) })}
+                  className="w-full accent-suno-accent h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                  Pan <span>{formatPan(stem.settings.pan)}</span>
+                </label>
+                <input
+                  type="range" min="-1" max="1" step="0.05"
+                  value={stem.settings.pan}
+                  onChange={(e) => updateStem(stem.id, { pan: parseFloat(e.target.value) })}
+                  onDoubleClick={() => updateStem(stem.id, { pan: 0 })}
+                  className="w-full accent-suno-accent h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+              {EQ_CONTROLS.map(control => (
+                <div key={control.key} className="space-y-1">
+                  <label className="text-[10px] uppercase text-gray-500 font-bold flex justify-between">
+                    {control.label} <span>{formatDb(stem.settings.eq[control.key])}</span>
+                  </label>
+                  <input
+                    type="range" min="-12" max="12" step="0.5"
+                    value={stem.settings.eq[control.key]}
+                    onChange={(e) => updateStem(stem.id, { eq: { ...stem.settings.eq, [control.key]: parseFloat(e.target.value) } })}
+                    className="w-full accent-orange-500 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between border-t border-gray-800 pt-3">
+        <div>
+          <p className="text-xs font-bold text-white">Clean Vocal Stems Only</p>
+          <p className="text-[10px] text-gray-400">
+            {hasVocals
+              ? 'Naturalizer and de-esser act on the vocals instead of the whole mix.'
+              : 'Mark a stem as Vocals to use this.'}
+          </p>
+        </div>
+        <button
+          onClick={() => onVocalCleanupChange(!vocalCleanup)}
+          disabled={!hasVocals}
+          className={`w-10 h-5 rounded-full relative transition-colors shrink-0 disabled:opacity-40 ${vocalCleanup ? 'bg-green-600' : 'bg-gray-700'}`}
+        >
+          <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${vocalCleanup ? 'left-6' : 'left-1'}`} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -3,15 +3,55 @@ import React, { useState, useRef } from 'react';
 import { Button } from './Button';
 import { UploadIcon, DNAIcon, LoaderIcon } from './Icons';
 import { analyzeReferenceAudio } from '../services/gemini';
-import { AudioAnalysis } from '../types';
+import { measureFileSpectrum, renderAnalysisMix, toPcm } from '../services/audioEngine';
+import { saveReferenceProfile } from '../services/referenceStore';
+import { analyzeTempoAndKey, compareKey, compareTempo } from '../services/tempoKey';
+import { AudioAnalysis, KeyAgreement, LocalMusicAnalysis, TempoAgreement } from '../types';
 import { CopyBlock } from './CopyBlock';
 
+const AGREEMENT_NOTES: Record<TempoAgreement | KeyAgreement, { text: string; style: string }> = {
+  agree: { text: 'Matches', style: 'border-gray-800' },
+  half: { text: 'AI hears half-time', style: 'border-yellow-600/60' },
+  double: { text: 'AI hears double-time', style: 'border-yellow-600/60' },
+  relative: { text: 'Relative major/minor', style: 'border-yellow-600/60' },
+  differs: { text: 'Disagrees', style: 'border-red-600/70' },
+  unknown: { text: 'No local estimate', style: 'border-gray-800' },
+};
+
+// AI value with the on-device estimate underneath, outlined when the two disagree
+const CrossCheckStat = ({ label, aiValue, localValue, confidence, agreement }: {
+  label: string;
+  aiValue: string;
+  localValue: string | null;
+  confidence: number;
+  agreement: TempoAgreement | KeyAgreement;
+}) => (
+  <div className={`bg-gray-900/50 p-3 rounded-lg border text-center ${AGREEMENT_NOTES[agreement].style}`}>
+    <span className="block text-[10px] uppercase text-gray-500 font-bold">{label}</span>
+    <span className="text-lg font-mono text-pink-400">{aiValue}</span>
+    {localValue && (
+      <span className="block text-[10px] font-mono text-gray-400" title="On-device estimate and its confidence">
+        Local: {localValue} ({Math.round(confidence * 100)}%)
+      </span>
+    )}
+    {agreement !== 'agree' && (
+      <span className={`block text-[10px] font-bold ${agreement === 'differs' ? 'text-red-400' : agreement === 'unknown' ? 'text-gray-500' : 'text-yellow-400'}`}>
+        {AGREEMENT_NOTES[agreement].text}
+      </span>
+    )}
+  </div>
+);
+
 export const VibeCloner = () => {
   const [file, setFile] = useState<File | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [loadingStage, setLoadingStage] = useState<string>('');
   const [analysis, setAnalysis] = useState<AudioAnalysis | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [referenceState, setReferenceState] = useState<'idle' | 'measuring' | 'saved'>('idle');
+  const [localAnalysis, setLocalAnalysis] = useState<LocalMusicAnalysis | null>(null);
+  // Off by default so the AI's answer stays an independent second opinion
+  const [sendHints, setSendHints] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -28,7 +68,23 @@ export const VibeCloner = () => {
       }
       setFile(selectedFile);
       setAnalysis(null);
+      setLocalAnalysis(null);
       setError(null);
+      setReferenceState('idle');
+    }
+  };
+
+  // Stores the full-resolution long-term spectrum for the mastering view's "Match to Reference"
+  const handleUseAsReference = async () => {
+    if (!file) return;
+    setReferenceState('measuring');
+    try {
+      saveReferenceProfile(file.name.replace(/\.[^/.]+$/, ""), await measureFileSpectrum(file));
+      setReferenceState('saved');
+    } catch (e) {
+      console.error(e);
+      setError("Could not measure this track's spectrum.");
+      setReferenceState('idle');
     }
   };
 
@@ -38,26 +94,15 @@ export const VibeCloner = () => {
    * 2. Mixing to Mono
    * 3. Trimming to max 3 minutes
    * This drastically reduces payload size (e.g. 50MB -> ~2MB)
+   * The rendered buffer is returned too, for the local tempo/key estimate.
    */
-  const optimizeAudioForAnalysis = async (originalFile: File): Promise<string> => {
+  const optimizeAudioForAnalysis = async (originalFile: File): Promise<{ base64: string; buffer: AudioBuffer }> => {
     const audioContext = new (window.AudioContext || window.webkitAudioContext)();
     const arrayBuffer = await originalFile.arrayBuffer();
     const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
 
-    // Analysis Settings
-    const TARGET_SAMPLE_RATE = 16000;
-    const MAX_DURATION = 180; // 3 minutes max analysis
-    const duration = Math.min(audioBuffer.duration, MAX_DURATION);
-    const lengthInFrames = Math.floor(duration * TARGET_SAMPLE_RATE);
-
     // Render low-res version
-    const offlineCtx = new OfflineAudioContext(1, lengthInFrames, TARGET_SAMPLE_RATE);
-    const source = offlineCtx.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(offlineCtx.destination);
-    source.start();
-    
-    const renderedBuffer = await offlineCtx.startRendering();
+    const renderedBuffer = await renderAnalysisMix(toPcm(audioBuffer));
     
     // Convert to simplified WAV Blob
     const wavBlob = bufferToWavBlob(renderedBuffer);
@@ -68,7 +113,7 @@ export const VibeCloner = () => {
       reader.readAsDataURL(wavBlob);
       reader.onload = () => {
         if (typeof reader.result === 'string') {
-          resolve(reader.result.split(',')[1]);
+          resolve({ base64: reader.result.split(',')[1], buffer: renderedBuffer });
         } else {
           reject(new Error("Failed to encode optimized audio"));
         }
@@ -133,10 +178,15 @@ export const VibeCloner = () => {
       // Yield to UI
       await new Promise(resolve => setTimeout(resolve, 50));
       
-      const base64 = await optimizeAudioForAnalysis(file);
-      
+      const { base64, buffer } = await optimizeAudioForAnalysis(file);
+
+      setLoadingStage('Measuring Tempo & Key...');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const local = analyzeTempoAndKey(buffer.getChannelData(0), buffer.sampleRate);
+      setLocalAnalysis(local);
+
       setLoadingStage('Extracting Sonic DNA & Tone Flow...');
-      const result = await analyzeReferenceAudio(base64, 'audio/wav');
+      const result = await analyzeReferenceAudio(base64, 'audio/wav', sendHints ? local : null);
       setAnalysis(result);
     } catch (e: any) {
       console.error(e);
@@ -184,33 +234,68 @@ export const VibeCloner = () => {
               )}
            </div>
 
+           {/* Mastering reference hand-off */}
+           <div className="bg-black/20 p-3 rounded-xl border border-gray-800 flex items-center justify-between gap-3">
+              <p className="text-[10px] text-gray-400">
+                {referenceState === 'saved'
+                  ? 'Saved. Pick it under "Match to Reference" in the Audio Enhancer.'
+                  : 'Use this track\'s tonal balance as a mastering target for your Suno renders.'}
+              </p>
+              <button
+                onClick={handleUseAsReference}
+                disabled={referenceState !== 'idle'}
+                className="shrink-0 px-3 py-1.5 rounded-lg border border-pink-500/40 text-[10px] font-bold uppercase text-pink-300 hover:text-white disabled:opacity-50 flex items-center gap-1"
+              >
+                {referenceState === 'measuring' && <LoaderIcon className="w-3 h-3 animate-spin" />}
+                {referenceState === 'saved' ? 'Reference Saved' : 'Use as Mastering Reference'}
+              </button>
+           </div>
+
            {!analysis ? (
-             <Button 
-               onClick={handleAnalyze} 
-               isLoading={isAnalyzing} 
-               disabled={isAnalyzing}
-               className="w-full h-14 bg-pink-600 hover:bg-pink-700 shadow-pink-900/20"
-             >
-               {isAnalyzing ? (
-                 <div className="flex flex-col items-center">
-                   <span className="text-xs uppercase tracking-widest opacity-70 mb-1">AI Processing</span>
-                   <span className="font-bold">{loadingStage}</span>
-                 </div>
-               ) : "Analyze Vibe & Tone"}
-             </Button>
+             <div className="space-y-3">
+               <label className="flex items-center gap-2 text-[10px] text-gray-400 cursor-pointer">
+                 <input
+                   type="checkbox"
+                   checked={sendHints}
+                   onChange={() => setSendHints(!sendHints)}
+                   disabled={isAnalyzing}
+                   className="accent-pink-500"
+                 />
+                 Send the on-device tempo &amp; key to the AI as hints (leave off for an independent cross-check)
+               </label>
+               <Button 
+                 onClick={handleAnalyze} 
+                 isLoading={isAnalyzing} 
+                 disabled={isAnalyzing}
+                 className="w-full h-14 bg-pink-600 hover:bg-pink-700 shadow-pink-900/20"
+               >
+                 {isAnalyzing ? (
+                   <div className="flex flex-col items-center">
+                     <span className="text-xs uppercase tracking-widest opacity-70 mb-1">AI Processing</span>
+                     <span className="font-bold">{loadingStage}</span>
+                   </div>
+                 ) : "Analyze Vibe & Tone"}
+               </Button>
+             </div>
            ) : (
              <div className="animate-in slide-in-from-bottom-8 duration-700 space-y-6">
                 
                 {/* Stats Grid */}
                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-                   <div className="bg-gray-900/50 p-3 rounded-lg border border-gray-800 text-center">
-                      <span className="block text-[10px] uppercase text-gray-500 font-bold">BPM</span>
-                      <span className="text-lg font-mono text-pink-400">{analysis.bpm}</span>
-                   </div>
-                   <div className="bg-gray-900/50 p-3 rounded-lg border border-gray-800 text-center">
-                      <span className="block text-[10px] uppercase text-gray-500 font-bold">Key</span>
-                      <span className="text-lg font-mono text-pink-400">{analysis.key}</span>
-                   </div>
+                   <CrossCheckStat
+                      label="BPM"
+                      aiValue={analysis.bpm}
+                      localValue={localAnalysis?.tempo ? localAnalysis.tempo.bpm.toFixed(1) : null}
+                      confidence={localAnalysis?.tempo?.confidence ?? 0}
+                      agreement={compareTempo(analysis.bpm, localAnalysis?.tempo ?? null)}
+                   />
+                   <CrossCheckStat
+                      label="Key"
+                      aiValue={analysis.key}
+                      localValue={localAnalysis?.key?.label ?? null}
+                      confidence={localAnalysis?.key?.confidence ?? 0}
+                      agreement={compareKey(analysis.key, localAnalysis?.key ?? null)}
+                   />
                    <div className="bg-gray-900/50 p-3 rounded-lg border border-gray-800 text-center col-span-2">
                       <span className="block text-[10px] uppercase text-gray-500 font-bold">Signature</span>
                       <span className="text-sm font-medium text-white truncate">{analysis.genre_signature}</span>
@@ -259,7 +344,7 @@ export const VibeCloner = () => {
                   <CopyBlock label="Suno V5 Style Clone Prompt" content={analysis.suno_style_prompt} />
                 </div>
 
-                <Button variant="secondary" onClick={() => { setFile(null); setAnalysis(null); }} className="w-full">
+                <Button variant="secondary" onClick={() => { setFile(null); setAnalysis(null); setLocalAnalysis(null); }} className="w-full">
                    Analyze Another Track
                 </Button>
              </div>
@@ -0,0 +1,276 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AudioRegion } from '../types';
+
+interface WaveformEditorProps {
+  // Decoded source, null while decoding
+  source: { channels: Float32Array[]; sampleRate: number } | null;
+  region: AudioRegion | null;
+  onRegionChange: (region: AudioRegion | null) => void;
+  loop: boolean;
+  onLoopChange: (loop: boolean) => void;
+  onExportRegion: () => void;
+  // Export is unavailable while rendering or in batch mode
+  canExport: boolean;
+}
+
+// Min/max of every BUCKET frames, so redrawing a zoomed-out view never walks the raw samples
+const BUCKET = 256;
+const MIN_VIEW_SECONDS = 0.5;
+const ZOOM_STEP = 1.5;
+const HANDLE_HIT_PX = 6;
+const MIN_REGION_SECONDS = 0.1;
+const HOOK_SECONDS = 30;
+
+type Drag =
+  | { kind: 'start' | 'end' }
+  | { kind: 'move'; grabOffset: number }
+  | { kind: 'create'; anchor: number };
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1);
+  return `${m}:${s.padStart(4, '0')}`;
+};
+
+const buildPeaks = (channels: Float32Array[]) => {
+  const buckets = Math.ceil(channels[0].length / BUCKET);
+  const min = new Float32Array(buckets);
+  const max = new Float32Array(buckets);
+  for (let b = 0; b < buckets; b++) {
+    let lo = 0;
+    let hi = 0;
+    const end = Math.min(channels[0].length, (b + 1) * BUCKET);
+    for (const channel of channels) {
+      for (let i = b * BUCKET; i < end; i++) {
+        if (channel[i] < lo) lo = channel[i];
+        if (channel[i] > hi) hi = channel[i];
+      }
+    }
+    min[b] = lo;
+    max[b] = hi;
+  }
+  return { min, max };
+};
+
+/**
+ * Zoomable waveform of the source with a draggable region. Drag on empty
+ * space to mark a region, drag its edges or body to adjust it; the wheel
+ * zooms around the cursor and shift+wheel scrolls.
+ */
+export const WaveformEditor: React.FC<WaveformEditorProps> = ({ source, region, onRegionChange, loop, onLoopChange, onExportRegion, canExport }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [viewStart, setViewStart] = useState(0);
+  const [viewSeconds, setViewSeconds] = useState(0);
+  const [width, setWidth] = useState(0);
+
+  const duration = source ? source.channels[0].length / source.sampleRate : 0;
+  const peaks = useMemo(() => (source ? buildPeaks(source.channels) : null), [source]);
+
+  // Fit the whole file whenever a new one loads
+  useEffect(() => {
+    setViewStart(0);
+    setViewSeconds(duration);
+  }, [source]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => setWidth(canvas.offsetWidth));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const clampView = (start: number, seconds: number) => {
+    const visible = Math.max(Math.min(MIN_VIEW_SECONDS, duration), Math.min(duration, seconds));
+    setViewSeconds(visible);
+    setViewStart(Math.max(0, Math.min(duration - visible, start)));
+  };
+
+  const zoomAround = (factor: number, anchor: number) => {
+    const seconds = Math.max(MIN_VIEW_SECONDS, Math.min(duration, viewSeconds / factor));
+    clampView(anchor - ((anchor - viewStart) / viewSeconds) * seconds, seconds);
+  };
+
+  const timeAt = (clientX: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, viewStart + ((clientX - rect.left) / rect.width) * viewSeconds));
+  };
+
+  // React's wheel listener is passive, so the page would scroll along with the zoom
+  const wheelRef = useRef<(e: WheelEvent) => void>(() => {});
+  wheelRef.current = (e: WheelEvent) => {
+    if (!source || viewSeconds <= 0) return;
+    e.preventDefault();
+    if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+      const delta = e.shiftKey ? e.deltaY : e.deltaX;
+      clampView(viewStart + (delta / Math.max(1, width)) * viewSeconds, viewSeconds);
+    } else {
+      zoomAround(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, timeAt(e.clientX));
+    }
+  };
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => wheelRef.current(e);
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const ctx = canvas.getContext('2d')!;
+    const height = canvas.height = canvas.offsetHeight;
+    canvas.width = width;
+    ctx.clearRect(0, 0, width, height);
+    if (!source || !peaks || viewSeconds <= 0) return;
+
+    const x = (seconds: number) => ((seconds - viewStart) / viewSeconds) * width;
+    const amp = height / 2;
+
+    if (region) {
+      ctx.fillStyle = 'rgba(139, 92, 246, 0.15)';
+      ctx.fillRect(x(region.start), 0, x(region.end) - x(region.start), height);
+    }
+
+    ctx.strokeStyle = '#8b5cf6';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    const framesPerPixel = (viewSeconds * source.sampleRate) / width;
+    const firstFrame = viewStart * source.sampleRate;
+    for (let px = 0; px < width; px++) {
+      const from = Math.floor(firstFrame + px * framesPerPixel);
+      const to = Math.max(from + 1, Math.floor(firstFrame + (px + 1) * framesPerPixel));
+      let lo = 0;
+      let hi = 0;
+      if (framesPerPixel < BUCKET) {
+        // Zoomed in past the cache; few enough samples to read directly
+        for (const channel of source.channels) {
+          for (let i = from; i < Math.min(to, channel.length); i++) {
+            if (channel[i] < lo) lo = channel[i];
+            if (channel[i] > hi) hi = channel[i];
+          }
+        }
+      } else {
+        for (let b = Math.floor(from / BUCKET); b < Math.min(peaks.min.length, Math.ceil(to / BUCKET)); b++) {
+          if (peaks.min[b] < lo) lo = peaks.min[b];
+          if (peaks.max[b] > hi) hi = peaks.max[b];
+        }
+      }
+      ctx.moveTo(px + 0.5, (1 - hi) * amp);
+      ctx.lineTo(px + 0.5, (1 - lo) * amp + 1);
+    }
+    ctx.stroke();
+
+    if (region) {
+      ctx.fillStyle = '#c4b5fd';
+      for (const edge of [region.start, region.end]) ctx.fillRect(x(edge) - 1, 0, 2, height);
+    }
+  }, [source, peaks, region?.start, region?.end, viewStart, viewSeconds, width]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!source) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = timeAt(e.clientX);
+    const pxPerSecond = width / viewSeconds;
+    if (region && Math.abs(time - region.start) * pxPerSecond <= HANDLE_HIT_PX) dragRef.current = { kind: 'start' };
+    else if (region && Math.abs(time - region.end) * pxPerSecond <= HANDLE_HIT_PX) dragRef.current = { kind: 'end' };
+    else if (region && time > region.start && time < region.end) dragRef.current = { kind: 'move', grabOffset: time - region.start };
+    else {
+      dragRef.current = { kind: 'create', anchor: time };
+      onRegionChange(null);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const time = timeAt(e.clientX);
+    if (drag.kind === 'create') {
+      onRegionChange({ start: Math.min(drag.anchor, time), end: Math.max(drag.anchor, time) });
+    } else if (region && drag.kind === 'move') {
+      const length = region.end - region.start;
+      const start = Math.max(0, Math.min(duration - length, time - drag.grabOffset));
+      onRegionChange({ start, end: start + length });
+    } else if (region && drag.kind === 'start') {
+      onRegionChange({ start: Math.min(time, region.end - MIN_REGION_SECONDS), end: region.end });
+    } else if (region && drag.kind === 'end') {
+      onRegionChange({ start: region.start, end: Math.max(time, region.start + MIN_REGION_SECONDS) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    // Too short to be deliberate; treat it as a click that cleared the region
+    if (drag?.kind === 'create' && region && region.end - region.start < MIN_REGION_SECONDS) onRegionChange(null);
+  };
+
+  const markHook = () => {
+    const start = region ? region.start : viewStart;
+    const end = Math.min(duration, start + HOOK_SECONDS);
+    onRegionChange({ start: Math.max(0, end - HOOK_SECONDS), end });
+  };
+
+  const validRegion = !!region && region.end - region.start >= MIN_REGION_SECONDS;
+  const zoomed = viewSeconds < duration;
+
+  return (
+    <div className="space-y-2 mb-4">
+      <div className="relative w-full h-24 bg-black/40 rounded-xl overflow-hidden border border-gray-800/50">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          className="w-full h-full cursor-crosshair touch-none"
+        />
+        {!source && (
+          <div className="absolute inset-0 flex items-center justify-center text-[10px] text-gray-500 font-mono">Decoding...</div>
+        )}
+      </div>
+
+      {zoomed && (
+        <input
+          type="range" min="0" max={Math.max(0, duration - viewSeconds)} step="0.01"
+          value={viewStart}
+          onChange={(e) => clampView(parseFloat(e.target.value), viewSeconds)}
+          className="w-full accent-gray-500 h-1 bg-gray-800 rounded-lg appearance-none cursor-pointer"
+        />
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-[10px]">
+        <div className="flex rounded-lg overflow-hidden border border-gray-700 font-bold">
+          <button onClick={() => zoomAround(1 / ZOOM_STEP, viewStart + viewSeconds / 2)} disabled={!source || !zoomed} className="px-2 py-1 text-gray-400 hover:text-white disabled:opacity-30">−</button>
+          <button onClick={() => clampView(0, duration)} disabled={!source || !zoomed} className="px-2 py-1 text-gray-400 hover:text-white disabled:opacity-30 uppercase">Fit</button>
+          <button onClick={() => zoomAround(ZOOM_STEP, region ? (region.start + region.end) / 2 : viewStart + viewSeconds / 2)} disabled={!source || viewSeconds <= MIN_VIEW_SECONDS} className="px-2 py-1 text-gray-400 hover:text-white disabled:opacity-30">+</button>
+        </div>
+        <button onClick={markHook} disabled={!source || duration < MIN_REGION_SECONDS} className="px-2 py-1 rounded-lg border border-gray-700 font-bold uppercase text-gray-400 hover:text-white disabled:opacity-30">
+          {HOOK_SECONDS} s Hook
+        </button>
+        {validRegion ? (
+          <>
+            <span className="font-mono text-gray-300">
+              {formatTime(region!.start)}–{formatTime(region!.end)} <span className="text-gray-500">({(region!.end - region!.start).toFixed(1)} s)</span>
+            </span>
+            <label className="flex items-center gap-1 uppercase font-bold text-gray-500 cursor-pointer">
+              <input type="checkbox" checked={loop} onChange={() => onLoopChange(!loop)} className="accent-suno-accent" />
+              Loop
+            </label>
+            <button onClick={() => onRegionChange(null)} className="text-gray-500 hover:text-white">Clear</button>
+            <button
+              onClick={onExportRegion}
+              disabled={!canExport}
+              className="ml-auto px-3 py-1 rounded-lg bg-suno-accent hover:bg-violet-600 text-white font-bold uppercase disabled:opacity-40"
+            >
+              Export Region
+            </button>
+          </>
+        ) : (
+          <span className="text-gray-500">Drag across the waveform to select a region.</span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import { spawnSync } from 'node:child_process';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { AudioProcessOptions } from '../types';
+import { masterAudio } from './audioEngine';
+import { applyPreset, DEFAULT_DELAY, DEFAULT_OPTIONS, setStageBypass } from './processingChain';
+
+const SAMPLE_RATE = 48000;
+const SECONDS = 6;
+const BLOCK_SECONDS = 2;
+
+// The native Web Audio module is optional and needs Node 22 and ALSA; without it there is nothing to render
+const WEB_AUDIO_POLYFILL = 'node-web-audio-api/polyfill.js';
+const hasWebAudio = spawnSync(process.execPath, ['--input-type=module', '-e', `await import('${WEB_AUDIO_POLYFILL}')`]).status === 0;
+
+// Chords gated on and off every half second, so the dynamics keep moving and the effects keep ringing
+const bursts = (detune: number) => Float32Array.from({ length: SECONDS * SAMPLE_RATE }, (_, i) => {
+  const t = i / SAMPLE_RATE;
+  const gate = Math.floor(t * 2) % 2 === 0 ? 0.5 : 0.05;
+  return gate * (Math.sin(2 * Math.PI * 220 * detune * t) + 0.5 * Math.sin(2 * Math.PI * 331 * detune * t)) / 1.5;
+});
+
+// Tape wow and flutter, reverb and a feedback delay on top of the compressor: every stage carries state over a seam.
+// The limiter and bitcrusher worklets render far slower than real time under Node, so they sit this one out.
+const lofi = applyPreset(DEFAULT_OPTIONS, 'lofi');
+const OPTIONS: AudioProcessOptions = ['limiter', 'bitcrusher'].reduce(
+  (options, id) => setStageBypass(options, id, true),
+  { ...lofi, creativeFx: { ...lofi.creativeFx, delay: { ...DEFAULT_DELAY, enabled: true, feedback: 0.5 } } }
+);
+
+describe.skipIf(!hasWebAudio)('block rendering', () => {
+  beforeAll(async () => {
+    await import(WEB_AUDIO_POLYFILL);
+  });
+
+  it('gives the same master in blocks as in one render', async () => {
+    const source = { channels: [bursts(1), bursts(1.01)], sampleRate: SAMPLE_RATE };
+    const whole = await masterAudio(source, OPTIONS, { blockSeconds: Infinity });
+    const blocked = await masterAudio(source, OPTIONS, { blockSeconds: BLOCK_SECONDS });
+
+    expect(blocked.channels[0].length).toBe(whole.channels[0].length);
+    expect(whole.channels[0].length).toBeGreaterThan(2 * BLOCK_SECONDS * SAMPLE_RATE);
+    const seam = BLOCK_SECONDS * SAMPLE_RATE;
+    blocked.channels.forEach((channel, c) => {
+      const reference = whole.channels[c];
+      const errorIn = (from: number, to: number) =>
+        channel.subarray(from, to).reduce((max, sample, i) => Math.max(max, Math.abs(sample - reference[from + i])), 0);
+      const peak = reference.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+      // The first seam's pre-roll reaches back to the start, so nothing is lost there
+      expect(errorIn(seam - SAMPLE_RATE / 4, seam + SAMPLE_RATE / 4)).toBeLessThan(1e-6);
+      // Later seams forget only what the chain has all but finished with
+      expect(errorIn(0, channel.length)).toBeLessThan(peak / 100);
+    });
+    expect(blocked.output.integrated).toBeCloseTo(whole.output.integrated, 2);
+  }, 120_000);
+});
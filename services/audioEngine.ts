@@ -1,7 +1,18 @@
 
-import { AudioProcessOptions } from "../types";
-// @ts-ignore
-import { Mp3Encoder } from '@breezystack/lamejs';
+import { AudioProcessOptions, BitcrusherSettings, CompressorBand, DeEsserSettings, DelayModulationSettings, DelaySettings, DeliveryProfile, DeliveryResult, EdgePlan, EqBand, LimiterSettings, LoudnessStats, MasteredAudio, MasterStats, NaturalizerSettings, PcmAudio, PcmStem, PhaseGuardSettings, PhaserSettings, ProcessingStage, ProcessingStageType, ProcessProgress, ProcessResult, ReferenceMatchSettings, ResonanceAnalysis, ReverbSettings, SpectrumProfile, StemSettings, StemTrack, TapeSettings, TrackMetadata } from "../types";
+import { createLoudnessMeter, scanLoudness, LOUDNESS_FLOOR } from "./loudness";
+import { loadWorklets, limiterLatency } from "./worklets";
+import { delayTimeSeconds, resolveChain } from "./processingChain";
+import { generateImpulseResponse, impulseResponseDuration } from "./impulseResponse";
+import { scanResonances, selectNotches } from "./resonance";
+import { computeMatchCurve, designMatchEq, scanSpectrum } from "./spectralMatch";
+import { applyFades, applySourceFadeOut, planRegion, resolveEdges, scanEdges } from "./edges";
+import { runScanInSlices, Scan, SCAN_STRIDE } from "./dsp";
+import { createMonoMeter } from "./monoCompat";
+import { audibleStems, mixStems, stemEqBands } from "./stems";
+import { checkCompliance, deliveryOptions } from "./delivery";
+import { ExportSettings } from "./encoders";
+import type { EncodeRequest, EncodeResponse } from "./encoder.worker";
 
 declare global {
   interface Window {
@@ -30,352 +41,1764 @@ const makeSilkCurve = () => {
 
 // --- CREATIVE FX HELPERS ---
 
-const createChorus = (ctx: BaseAudioContext, input: AudioNode, intensity: number) => {
-  if (intensity <= 0) return input;
-  
+// Web Audio clamps a delay inside a feedback loop to one render quantum
+const RENDER_QUANTUM = 128;
+const MAX_MODULATION_DELAY = 0.1;
+// Share of the usable delay range a full-depth sweep covers
+const MODULATION_SWING = 0.9;
+const PHASER_SWEEP = 0.9; // Full depth sweeps the notches by ±90% of the centre frequency
+// Time constant live parameter changes glide with, so slider moves don't click (seconds)
+const PARAM_GLIDE = 0.02;
+
+// Moves a parameter of a running graph towards `value`
+const glide = (ctx: BaseAudioContext, param: AudioParam, value: number) =>
+  param.setTargetAtTime(value, ctx.currentTime, PARAM_GLIDE);
+
+/**
+ * Applies changed settings to a stage's existing nodes. Returns false when
+ * the change needs different nodes (another filter count, a new impulse
+ * response), in which case the stage has to be built again.
+ */
+type Updater<T> = (settings: T) => boolean;
+
+/**
+ * Equal-power blend of the untouched signal and an effect's output.
+ */
+const createWetDryMix = (ctx: BaseAudioContext, dry: AudioNode, wet: AudioNode, mix: number) => {
+  const output = ctx.createGain();
+  const dryGain = ctx.createGain();
+  const wetGain = ctx.createGain();
+  dryGain.gain.value = Math.cos((mix * Math.PI) / 2);
+  wetGain.gain.value = Math.sin((mix * Math.PI) / 2);
+  dry.connect(dryGain).connect(output);
+  wet.connect(wetGain).connect(output);
+  return {
+    output,
+    setMix: (next: number) => {
+      glide(ctx, dryGain.gain, Math.cos((next * Math.PI) / 2));
+      glide(ctx, wetGain.gain, Math.sin((next * Math.PI) / 2));
+    },
+  };
+};
+
+// Forces a true stereo pair, so a mono source doesn't leave the right channel silent after the splitter
+const toStereo = (ctx: BaseAudioContext, input: AudioNode) => {
+  const upmix = ctx.createGain();
+  upmix.channelCount = 2;
+  upmix.channelCountMode = 'explicit';
+  upmix.channelInterpretation = 'speakers';
+  input.connect(upmix);
+  return upmix;
+};
+
+/**
+ * Sine LFO at `phase` degrees at programme time 0, already `time` seconds
+ * into its cycle when the context starts. Oscillators can't be started at a
+ * phase, so the offset is built into a one-harmonic periodic wave:
+ * sin(ωt + φ) = sin φ · cos ωt + cos φ · sin ωt.
+ */
+const createLfo = (ctx: BaseAudioContext, rate: number, phase: number, time: number, lfos: OscillatorNode[]) => {
+  const radians = (((phase + 360 * rate * time) % 360) * Math.PI) / 180;
+  const wave = ctx.createPeriodicWave(
+    new Float32Array([0, Math.sin(radians)]),
+    new Float32Array([0, Math.cos(radians)]),
+    { disableNormalization: true }
+  );
+  const osc = ctx.createOscillator();
+  osc.setPeriodicWave(wave);
+  osc.frequency.value = rate;
+  osc.start();
+  lfos.push(osc);
+  return osc;
+};
+
+/**
+ * Chorus and flanger: one swept, fed-back delay line per channel, with the
+ * right channel's LFO offset by `stereoPhase`. They differ only in their
+ * delay range.
+ */
+const createModulatedDelay = (
+  ctx: BaseAudioContext,
+  input: AudioNode,
+  settings: Omit<DelayModulationSettings, 'enabled'>,
+  time: number,
+  lfos: OscillatorNode[]
+) => {
+  const floor = RENDER_QUANTUM / ctx.sampleRate;
+  const timing = ({ delay, depth }: Omit<DelayModulationSettings, 'enabled'>) => {
+    const base = Math.min(MAX_MODULATION_DELAY, delay / 1000);
+    return { delay: Math.max(base, floor), swing: depth * MODULATION_SWING * Math.max(0, base - floor) };
+  };
+  const { delay, swing } = timing(settings);
+  const stereo = toStereo(ctx, input);
   const splitter = ctx.createChannelSplitter(2);
   const merger = ctx.createChannelMerger(2);
-  input.connect(splitter);
+  stereo.connect(splitter);
 
-  const delayL = ctx.createDelay();
-  const delayR = ctx.createDelay();
-  delayL.delayTime.value = 0.02; // 20ms
-  delayR.delayTime.value = 0.025; // 25ms
+  const lines = [0, settings.stereoPhase].map((phase, c) => {
+    const line = ctx.createDelay(MAX_MODULATION_DELAY);
+    line.delayTime.value = delay;
+    const depth = ctx.createGain();
+    depth.gain.value = swing;
+    const lfo = createLfo(ctx, settings.rate, phase, time, lfos);
+    lfo.connect(depth).connect(line.delayTime);
+    const feedback = ctx.createGain();
+    feedback.gain.value = settings.feedback;
+    splitter.connect(line, c);
+    line.connect(feedback).connect(line);
+    line.connect(merger, 0, c);
+    return { line, depth, lfo, feedback };
+  });
 
-  const osc = ctx.createOscillator();
-  osc.type = 'sine';
-  osc.frequency.value = 1.5; // Hz
+  const mix = createWetDryMix(ctx, stereo, merger, settings.mix);
+  const update: Updater<Omit<DelayModulationSettings, 'enabled'>> = next => {
+    // The LFOs' phase offset is baked into their waves
+    if (next.stereoPhase !== settings.stereoPhase) return false;
+    const { delay, swing } = timing(next);
+    for (const { line, depth, lfo, feedback } of lines) {
+      glide(ctx, line.delayTime, delay);
+      glide(ctx, depth.gain, swing);
+      glide(ctx, lfo.frequency, next.rate);
+      glide(ctx, feedback.gain, next.feedback);
+    }
+    mix.setMix(next.mix);
+    return true;
+  };
+  return { output: mix.output, update };
+};
 
-  const gainL = ctx.createGain();
-  const gainR = ctx.createGain();
-  gainL.gain.value = 0.002 * intensity; // Depth
-  gainR.gain.value = -0.002 * intensity; // Invert phase for width
+/**
+ * Allpass cascade per channel with the notches swept around `frequency`.
+ * Web Audio mutes cycles that contain no delay, so the feedback path carries
+ * the shortest delay a loop may have.
+ */
+const createPhaser = (ctx: BaseAudioContext, input: AudioNode, settings: Omit<PhaserSettings, 'enabled'>, time: number, lfos: OscillatorNode[]) => {
+  const stereo = toStereo(ctx, input);
+  const splitter = ctx.createChannelSplitter(2);
+  const merger = ctx.createChannelMerger(2);
+  stereo.connect(splitter);
 
-  osc.connect(gainL).connect(delayL.delayTime);
-  osc.connect(gainR).connect(delayR.delayTime);
-  osc.start();
+  const channels = [0, settings.stereoPhase].map((phase, c) => {
+    const sweep = ctx.createGain();
+    sweep.gain.value = settings.depth * PHASER_SWEEP * settings.frequency;
+    const lfo = createLfo(ctx, settings.rate, phase, time, lfos);
+    lfo.connect(sweep);
 
-  splitter.connect(delayL, 0);
-  splitter.connect(delayR, 1);
-  delayL.connect(merger, 0, 0);
-  delayR.connect(merger, 0, 1);
+    const summing = ctx.createGain();
+    splitter.connect(summing, c);
+    let node: AudioNode = summing;
+    const allpasses: BiquadFilterNode[] = [];
+    for (let i = 0; i < settings.stages; i++) {
+      const allpass = ctx.createBiquadFilter();
+      allpass.type = 'allpass';
+      allpass.frequency.value = settings.frequency;
+      sweep.connect(allpass.frequency);
+      node.connect(allpass);
+      node = allpass;
+      allpasses.push(allpass);
+    }
 
-  // Blend dry/wet
-  const wetGain = ctx.createGain();
-  wetGain.gain.value = 0.5 * intensity;
-  merger.connect(wetGain);
-  input.connect(wetGain); // Parallel blend
+    const loop = ctx.createDelay(1);
+    loop.delayTime.value = RENDER_QUANTUM / ctx.sampleRate;
+    const feedback = ctx.createGain();
+    feedback.gain.value = settings.feedback;
+    node.connect(loop).connect(feedback).connect(summing);
+    node.connect(merger, 0, c);
+    return { sweep, lfo, allpasses, feedback };
+  });
+
+  const mix = createWetDryMix(ctx, stereo, merger, settings.mix);
+  const update: Updater<Omit<PhaserSettings, 'enabled'>> = next => {
+    if (next.stereoPhase !== settings.stereoPhase || next.stages !== settings.stages) return false;
+    for (const { sweep, lfo, allpasses, feedback } of channels) {
+      glide(ctx, sweep.gain, next.depth * PHASER_SWEEP * next.frequency);
+      glide(ctx, lfo.frequency, next.rate);
+      allpasses.forEach(allpass => glide(ctx, allpass.frequency, next.frequency));
+      glide(ctx, feedback.gain, next.feedback);
+    }
+    mix.setMix(next.mix);
+    return true;
+  };
+  return { output: mix.output, update };
+};
+
+// --- TIME & COLOUR FX ---
+
+// Longest repeat the delay line holds (a quarter note at 30 BPM)
+const MAX_DELAY_SECONDS = 2;
+// Fixed transport delay the tape's wow/flutter modulates around; reported as latency
+const TAPE_TRANSPORT_DELAY = 0.005;
+const TAPE_WOW = { rate: 0.5, depth: 0.0015 }; // Hz, seconds of delay swing at wow = 1
+const TAPE_FLUTTER = { rate: 6.5, depth: 0.00005 };
+const TAPE_HEAD_ROLLOFF = 15000;
+// The tape curve covers ±TAPE_RANGE of input, so hot drive settings saturate instead of hard-clipping
+const TAPE_RANGE = 4;
+const TAPE_BIAS = 0.1; // Asymmetry; adds the even harmonics tape is known for
+
+const createReverb = (ctx: BaseAudioContext, input: AudioNode, settings: Omit<ReverbSettings, 'enabled'>) => {
+  const impulse = generateImpulseResponse(settings.type, settings.decay, ctx.sampleRate);
+  const buffer = ctx.createBuffer(impulse.length, impulse[0].length, ctx.sampleRate);
+  impulse.forEach((channel, c) => buffer.copyToChannel(channel, c));
+
+  const preDelay = ctx.createDelay(1);
+  preDelay.delayTime.value = settings.preDelay / 1000;
+  const convolver = ctx.createConvolver();
+  convolver.normalize = false;
+  convolver.buffer = buffer;
+  input.connect(preDelay).connect(convolver);
+  const mix = createWetDryMix(ctx, input, convolver, settings.mix);
+  const update: Updater<Omit<ReverbSettings, 'enabled'>> = next => {
+    // A new room or decay is a new impulse response
+    if (next.type !== settings.type || next.decay !== settings.decay) return false;
+    glide(ctx, preDelay.delayTime, next.preDelay / 1000);
+    mix.setMix(next.mix);
+    return true;
+  };
+  return { output: mix.output, update };
+};
+
+/**
+ * Tempo-synced feedback delay. The band-pass sits inside the loop, so each
+ * repeat comes back darker and thinner than the last. Ping-pong feeds a mono
+ * sum into the left tap and bounces every repeat to the other side.
+ */
+const createTempoDelay = (ctx: BaseAudioContext, input: AudioNode, settings: Omit<DelaySettings, 'enabled'>) => {
+  const repeatTime = ({ bpm, division }: Omit<DelaySettings, 'enabled'>) => Math.min(MAX_DELAY_SECONDS, delayTimeSeconds(bpm, division));
+  const feedbackGain = (feedback: number) => Math.max(0, Math.min(0.9, feedback));
+  const feedback = ctx.createGain();
+  feedback.gain.value = feedbackGain(settings.feedback);
+
+  const lowCut = ctx.createBiquadFilter();
+  lowCut.type = 'highpass';
+  lowCut.frequency.value = settings.lowCut;
+  const highCut = ctx.createBiquadFilter();
+  highCut.type = 'lowpass';
+  highCut.frequency.value = settings.highCut;
+  lowCut.connect(highCut);
+
+  const lines: DelayNode[] = [];
+  const createLine = () => {
+    const line = ctx.createDelay(MAX_DELAY_SECONDS);
+    line.delayTime.value = repeatTime(settings);
+    lines.push(line);
+    return line;
+  };
+
+  let wet: AudioNode;
+  if (settings.pingPong) {
+    const mono = ctx.createGain();
+    mono.channelCount = 1;
+    mono.channelCountMode = 'explicit';
+    input.connect(mono).connect(lowCut);
+    const left = createLine();
+    const right = createLine();
+    highCut.connect(left).connect(right).connect(feedback).connect(lowCut);
+    const merger = ctx.createChannelMerger(2);
+    left.connect(merger, 0, 0);
+    right.connect(merger, 0, 1);
+    wet = merger;
+  } else {
+    const line = createLine();
+    input.connect(lowCut);
+    highCut.connect(line).connect(feedback).connect(lowCut);
+    wet = line;
+  }
+  const mix = createWetDryMix(ctx, input, wet, settings.mix);
+  const update: Updater<Omit<DelaySettings, 'enabled'>> = next => {
+    if (next.pingPong !== settings.pingPong) return false;
+    lines.forEach(line => glide(ctx, line.delayTime, repeatTime(next)));
+    glide(ctx, feedback.gain, feedbackGain(next.feedback));
+    glide(ctx, lowCut.frequency, next.lowCut);
+    glide(ctx, highCut.frequency, next.highCut);
+    mix.setMix(next.mix);
+    return true;
+  };
+  return { output: mix.output, update };
+};
+
+const makeTapeCurve = () => {
+  const n = 8192;
+  const curve = new Float32Array(n);
+  // Normalised so small signals pass at unity gain
+  const slope = 1 - Math.tanh(TAPE_BIAS) ** 2;
+  for (let i = 0; i < n; i++) {
+    const x = ((i * 2) / (n - 1) - 1) * TAPE_RANGE;
+    curve[i] = (Math.tanh(x + TAPE_BIAS) - Math.tanh(TAPE_BIAS)) / slope;
+  }
+  return curve;
+};
+
+/**
+ * Saturation into a head roll-off, then wow and flutter as two LFOs swinging
+ * a short delay line. The dry side gets the same fixed delay so the blend
+ * stays phase-aligned; the chain reports it as latency.
+ */
+const createTape = (ctx: BaseAudioContext, input: AudioNode, settings: Omit<TapeSettings, 'enabled'>, time: number, lfos: OscillatorNode[]) => {
+  const latency = Math.round(TAPE_TRANSPORT_DELAY * ctx.sampleRate);
+  const driveGain = dbToGain(settings.drive);
+
+  const drive = ctx.createGain();
+  drive.gain.value = driveGain / TAPE_RANGE;
+  const shaper = ctx.createWaveShaper();
+  shaper.curve = makeTapeCurve();
+  shaper.oversample = '2x';
+  const trim = ctx.createGain();
+  trim.gain.value = 1 / driveGain;
+  const head = ctx.createBiquadFilter();
+  head.type = 'lowpass';
+  head.frequency.value = TAPE_HEAD_ROLLOFF;
+  head.Q.value = Math.SQRT1_2;
+
+  const transport = ctx.createDelay(0.05);
+  transport.delayTime.value = latency / ctx.sampleRate;
+  const wobble = (tape: Omit<TapeSettings, 'enabled'>) => [[TAPE_WOW, tape.wow], [TAPE_FLUTTER, tape.flutter]] as const;
+  const depths: GainNode[] = [];
+  for (const [lfo, amount] of wobble(settings)) {
+    if (amount <= 0) continue;
+    const depth = ctx.createGain();
+    depth.gain.value = lfo.depth * amount;
+    createLfo(ctx, lfo.rate, 0, time, lfos).connect(depth).connect(transport.delayTime);
+    depths.push(depth);
+  }
+  input.connect(drive).connect(shaper).connect(trim).connect(head).connect(transport);
+
+  const dry = ctx.createDelay(0.05);
+  dry.delayTime.value = latency / ctx.sampleRate;
+  input.connect(dry);
+  const mix = createWetDryMix(ctx, dry, transport, settings.mix);
+  const update: Updater<Omit<TapeSettings, 'enabled'>> = next => {
+    // An LFO only exists while its amount is above zero
+    const amounts = wobble(next).filter(([, amount]) => amount > 0);
+    if (amounts.length !== depths.length || (settings.wow > 0) !== (next.wow > 0)) return false;
+    const nextGain = dbToGain(next.drive);
+    glide(ctx, drive.gain, nextGain / TAPE_RANGE);
+    glide(ctx, trim.gain, 1 / nextGain);
+    amounts.forEach(([lfo, amount], i) => glide(ctx, depths[i].gain, lfo.depth * amount));
+    mix.setMix(next.mix);
+    return true;
+  };
+  return { output: mix.output, latency, update };
+};
+
+const createBitcrusher = (ctx: BaseAudioContext, input: AudioNode, settings: Omit<BitcrusherSettings, 'enabled'>) => {
+  const node = new AudioWorkletNode(ctx, 'bitcrusher', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2],
+    channelCount: 2,
+    channelCountMode: 'explicit',
+  });
+  node.parameters.get('bits')!.value = settings.bits;
+  node.parameters.get('rate')!.value = settings.rate;
+  input.connect(node);
+  const mix = createWetDryMix(ctx, input, node, settings.mix);
+  const update: Updater<Omit<BitcrusherSettings, 'enabled'>> = next => {
+    node.parameters.get('bits')!.setValueAtTime(next.bits, ctx.currentTime);
+    node.parameters.get('rate')!.setValueAtTime(next.rate, ctx.currentTime);
+    mix.setMix(next.mix);
+    return true;
+  };
+  return { output: mix.output, update };
+};
+
+// --- STEREO IMAGE ---
+
+// Lowest L/R correlation the widener is allowed to push the mix towards
+const MIN_WIDENED_CORRELATION = 0.2;
+
+/**
+ * Mid/Side energy of the decoded source, used to predict how far the side
+ * channel can be pushed before the mix starts folding badly to mono.
+ */
+export const scanStereoBalance = function* (channels: Float32Array[]): Scan<ChainEnvironment['stereoBalance']> {
+  if (channels.length < 2) return { mid: 1, side: 0 };
+  const [left, right] = channels;
+  let mid = 0;
+  let side = 0;
+  for (let i = 0; i < left.length; i++) {
+    const m = (left[i] + right[i]) * 0.5;
+    const s = (left[i] - right[i]) * 0.5;
+    mid += m * m;
+    side += s * s;
+    if (i % SCAN_STRIDE === 0) yield;
+  }
+  return { mid, side };
+};
+
+/**
+ * Caps the side gain so the predicted correlation
+ * (M² - w²S²) / (M² + w²S²) never drops below MIN_WIDENED_CORRELATION.
+ * Narrowing is always allowed.
+ */
+const capWidthForMono = (requested: number, balance: { mid: number; side: number }) => {
+  if (requested <= 1 || balance.side <= 0) return requested;
+  const c = MIN_WIDENED_CORRELATION;
+  const maxWidth = Math.sqrt((balance.mid * (1 - c)) / (balance.side * (1 + c)));
+  return Math.max(1, Math.min(requested, maxWidth));
+};
+
+const createStereoWidener = (ctx: BaseAudioContext, input: AudioNode, width: number, monoBassHz: number) => {
+  // Force a true stereo pair so mono sources don't lose their right channel in the splitter
+  const upmix = ctx.createGain();
+  upmix.channelCount = 2;
+  upmix.channelCountMode = 'explicit';
+  upmix.channelInterpretation = 'speakers';
+  input.connect(upmix);
+
+  const splitter = ctx.createChannelSplitter(2);
+  upmix.connect(splitter);
+
+  // Encode: M = (L + R) / 2, S = (L - R) / 2
+  const mid = ctx.createGain();
+  mid.gain.value = 0.5;
+  splitter.connect(mid, 0);
+  splitter.connect(mid, 1);
+
+  const side = ctx.createGain();
+  side.gain.value = 0.5;
+  const rightInvert = ctx.createGain();
+  rightInvert.gain.value = -0.5;
+  splitter.connect(side, 0);
+  splitter.connect(rightInvert, 1);
+  rightInvert.connect(side);
+
+  // Linkwitz-Riley (2x Butterworth) high-pass on the side keeps the low end mono
+  let sideChain: AudioNode = side;
+  const highpasses: BiquadFilterNode[] = [];
+  for (let i = 0; i < 2; i++) {
+    const hp = ctx.createBiquadFilter();
+    hp.type = "highpass";
+    hp.frequency.value = monoBassHz;
+    hp.Q.value = 0.707;
+    sideChain.connect(hp);
+    sideChain = hp;
+    highpasses.push(hp);
+  }
+
+  const sideGain = ctx.createGain();
+  sideGain.gain.value = width;
+  sideChain.connect(sideGain);
 
-  return wetGain;
+  // Decode: L = M + S, R = M - S
+  const sideInvert = ctx.createGain();
+  sideInvert.gain.value = -1;
+  sideGain.connect(sideInvert);
+
+  const merger = ctx.createChannelMerger(2);
+  mid.connect(merger, 0, 0);
+  mid.connect(merger, 0, 1);
+  sideGain.connect(merger, 0, 0);
+  sideInvert.connect(merger, 0, 1);
+
+  return {
+    output: merger,
+    update: (nextWidth: number, nextMonoBassHz: number) => {
+      glide(ctx, sideGain.gain, nextWidth);
+      highpasses.forEach(hp => glide(ctx, hp.frequency, nextMonoBassHz));
+    },
+  };
 };
 
-const createPhaser = (ctx: BaseAudioContext, input: AudioNode, intensity: number) => {
-  if (intensity <= 0) return input;
+// --- MULTIBAND DYNAMICS ---
 
-  const filters = [];
-  const stages = 4;
-  
+// 4th-order Linkwitz-Riley = two cascaded Butterworth biquads
+const createLR4 = (ctx: BaseAudioContext, input: AudioNode, type: 'lowpass' | 'highpass', frequency: number) => {
   let node = input;
-  for (let i = 0; i < stages; i++) {
+  for (let i = 0; i < 2; i++) {
     const filter = ctx.createBiquadFilter();
-    filter.type = 'allpass';
-    filter.frequency.value = 1000;
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.Q.value = Math.SQRT1_2;
     node.connect(filter);
     node = filter;
-    filters.push(filter);
   }
+  return node;
+};
 
-  const lfo = ctx.createOscillator();
-  lfo.type = 'triangle';
-  lfo.frequency.value = 0.5;
-  
-  const lfoGain = ctx.createGain();
-  lfoGain.gain.value = 800 * intensity;
-  
-  lfo.connect(lfoGain);
-  filters.forEach(f => lfoGain.connect(f.frequency));
-  lfo.start();
-
-  const mix = ctx.createGain();
-  node.connect(mix);
-  input.connect(mix);
-  
-  // Feedback
-  const feedback = ctx.createGain();
-  feedback.gain.value = 0.4 * intensity;
-  node.connect(feedback);
-  feedback.connect(filters[0]);
+/**
+ * LR4 band split, one band more than there are crossovers. Lower bands get
+ * allpass stages at the higher crossovers so every band carries the same
+ * phase and the sum stays flat.
+ */
+const splitBands = (ctx: BaseAudioContext, input: AudioNode, crossovers: number[]): AudioNode[] => {
+  const bands: AudioNode[] = [];
+  let remainder: AudioNode = input;
+  crossovers.forEach((crossover, i) => {
+    let bandNode = createLR4(ctx, remainder, 'lowpass', crossover);
+    for (let j = i + 1; j < crossovers.length; j++) {
+      const allpass = ctx.createBiquadFilter();
+      allpass.type = "allpass";
+      allpass.frequency.value = crossovers[j];
+      allpass.Q.value = Math.SQRT1_2;
+      bandNode.connect(allpass);
+      bandNode = allpass;
+    }
+    bands.push(bandNode);
+    remainder = createLR4(ctx, remainder, 'highpass', crossover);
+  });
+  bands.push(remainder);
+  return bands;
+};
 
-  return mix;
+/**
+ * Per-band compressors on an LR4 split.
+ */
+const createMultibandCompressor = (
+  ctx: BaseAudioContext,
+  input: AudioNode,
+  settings: { crossovers: number[]; bands: CompressorBand[] }
+) => {
+  const sum = ctx.createGain();
+  const bandNodes = splitBands(ctx, input, settings.crossovers);
+
+  const comps = settings.bands.map((band, i) => {
+    const bandNode = bandNodes[i];
+    const comp = ctx.createDynamicsCompressor();
+    comp.threshold.value = band.threshold;
+    comp.knee.value = 12;
+    comp.ratio.value = band.ratio;
+    comp.attack.value = band.attack / 1000;
+    comp.release.value = band.release / 1000;
+    bandNode.connect(comp);
+    comp.connect(sum);
+    return comp;
+  });
+
+  const update: Updater<{ crossovers: number[]; bands: CompressorBand[] }> = next => {
+    if (next.crossovers.join() !== settings.crossovers.join() || next.bands.length !== comps.length) return false;
+    next.bands.forEach((band, i) => {
+      glide(ctx, comps[i].threshold, band.threshold);
+      glide(ctx, comps[i].ratio, band.ratio);
+      glide(ctx, comps[i].attack, band.attack / 1000);
+      glide(ctx, comps[i].release, band.release / 1000);
+    });
+    return true;
+  };
+  return { output: sum, update };
 };
 
-const createFlanger = (ctx: BaseAudioContext, input: AudioNode, intensity: number) => {
-  if (intensity <= 0) return input;
+// --- PHASE GUARD ---
 
-  const delay = ctx.createDelay();
-  delay.delayTime.value = 0.003; // 3ms
+const MIN_GUARD_HZ = 20;
 
-  const feedback = ctx.createGain();
-  feedback.gain.value = 0.5 * intensity;
-
-  const lfo = ctx.createOscillator();
-  lfo.frequency.value = 0.3;
-  const lfoGain = ctx.createGain();
-  lfoGain.gain.value = 0.002 * intensity;
-
-  lfo.connect(lfoGain).connect(delay.delayTime);
-  lfo.start();
-
-  input.connect(delay);
-  delay.connect(feedback);
-  feedback.connect(delay);
-
-  const wet = ctx.createGain();
-  wet.gain.value = 0.5;
-  delay.connect(wet);
-  input.connect(wet); // Mix
-
-  return wet;
-};
-
-const audioBufferToWav = (buffer: AudioBuffer): Blob => {
-  const numChannels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const format = 1; // PCM
-  const bitDepth = 16;
-  const bytesPerSample = bitDepth / 8;
-  const blockAlign = numChannels * bytesPerSample;
-  const data0 = buffer.getChannelData(0);
-  const dataLength = data0.length;
-  const bufferLength = 44 + dataLength * numChannels * bytesPerSample;
-  
-  const arrayBuffer = new ArrayBuffer(bufferLength);
-  const view = new DataView(arrayBuffer);
-
-  const writeString = (offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
+/**
+ * Mid and side are split into the same LR4 bands; the guarded band's side goes
+ * through the phase-guard worklet, which pulls it in only while that band's
+ * correlation is under the threshold. Mid and side keep matching phase, so
+ * with the guard idle the output is the input through an allpass.
+ */
+const createPhaseGuard = (ctx: BaseAudioContext, input: AudioNode, settings: Omit<PhaseGuardSettings, 'enabled'>) => {
+  const nyquist = ctx.sampleRate / 2;
+  const clampHz = (hz: number) => Math.max(MIN_GUARD_HZ, Math.min(nyquist * 0.9, hz));
+  const [low, high] = [clampHz(settings.band.low), clampHz(settings.band.high)].sort((a, b) => a - b);
+  const crossovers = settings.mode === 'low' ? [clampHz(settings.frequency)] : [low, high];
+  const guarded = settings.mode === 'low' ? 0 : 1;
+
+  const splitter = ctx.createChannelSplitter(2);
+  toStereo(ctx, input).connect(splitter);
+
+  // Encode: M = (L + R) / 2, S = (L - R) / 2
+  const mid = ctx.createGain();
+  mid.gain.value = 0.5;
+  splitter.connect(mid, 0);
+  splitter.connect(mid, 1);
+  const side = ctx.createGain();
+  side.gain.value = 0.5;
+  const rightInvert = ctx.createGain();
+  rightInvert.gain.value = -0.5;
+  splitter.connect(side, 0);
+  splitter.connect(rightInvert, 1);
+  rightInvert.connect(side);
+
+  const midBands = splitBands(ctx, mid, crossovers);
+  const sideBands = splitBands(ctx, side, crossovers);
+  const midSum = ctx.createGain();
+  const sideSum = ctx.createGain();
+  const guards: AudioWorkletNode[] = [];
+  midBands.forEach(band => band.connect(midSum));
+  sideBands.forEach((band, i) => {
+    if (i !== guarded) {
+      band.connect(sideSum);
+      return;
     }
+    const pair = ctx.createChannelMerger(2);
+    midBands[i].connect(pair, 0, 0);
+    band.connect(pair, 0, 1);
+    const guard = new AudioWorkletNode(ctx, 'phase-guard', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      channelCount: 2,
+      channelCountMode: 'explicit',
+    });
+    guard.parameters.get('threshold')!.value = settings.threshold;
+    pair.connect(guard).connect(sideSum);
+    guards.push(guard);
+  });
+
+  // Decode: L = M + S, R = M - S
+  const sideInvert = ctx.createGain();
+  sideInvert.gain.value = -1;
+  sideSum.connect(sideInvert);
+  const merger = ctx.createChannelMerger(2);
+  midSum.connect(merger, 0, 0);
+  midSum.connect(merger, 0, 1);
+  sideSum.connect(merger, 0, 0);
+  sideInvert.connect(merger, 0, 1);
+
+  const update: Updater<Omit<PhaseGuardSettings, 'enabled'>> = next => {
+    // The guarded band is fixed by the crossovers the mid and side were split at
+    if (
+      next.mode !== settings.mode || next.frequency !== settings.frequency
+      || next.band.low !== settings.band.low || next.band.high !== settings.band.high
+    ) return false;
+    guards.forEach(guard => glide(ctx, guard.parameters.get('threshold')!, next.threshold));
+    return true;
   };
+  return { output: merger, update };
+};
+
+// --- LOUDNESS ---
+
+const MAX_LOUDNESS_PASSES = 3;
+const LOUDNESS_TOLERANCE = 0.3; // LU
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+const getChannels = (buffer: AudioBuffer): Float32Array[] =>
+  Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+export const toPcm = (buffer: AudioBuffer): PcmAudio => ({ channels: getChannels(buffer), sampleRate: buffer.sampleRate });
+
+const applyGain = (channels: Float32Array[], gain: number) => {
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) channel[i] *= gain;
+  }
+};
 
-  writeString(0, 'RIFF');
-  view.setUint32(4, 36 + dataLength * numChannels * bytesPerSample, true);
-  writeString(8, 'WAVE');
-  writeString(12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, format, true);
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * blockAlign, true);
-  view.setUint16(32, blockAlign, true);
-  view.setUint16(34, bitDepth, true);
-  writeString(36, 'data');
-  view.setUint32(40, dataLength * numChannels * bytesPerSample, true);
-
-  let offset = 44;
-  for (let i = 0; i < dataLength; i++) {
-    for (let channel = 0; channel < numChannels; channel++) {
-        const sample = buffer.getChannelData(channel)[i];
-        let s = Math.max(-0.95, Math.min(0.95, sample));
-        s = s < 0 ? s * 0x8000 : s * 0x7FFF;
-        view.setInt16(offset, s, true);
-        offset += 2;
+// --- NATURALIZER ---
+
+// Only used when no resonance scan is available (the old fixed presence cuts)
+const FALLBACK_NOTCHES = [
+  { frequency: 2800, Q: 4.0, depth: 5.0 },
+  { frequency: 4500, Q: 5.0, depth: 5.5 },
+  { frequency: 6200, Q: 6.0, depth: 4.0 },
+];
+
+/**
+ * Peaking cuts at the detected resonances. Offline renders automate each
+ * cut with the resonance's activity over time, from programme time `time`
+ * on; realtime contexts can't line that timeline up with playback position,
+ * so they use the average depth.
+ */
+const createNaturalizer = (
+  ctx: BaseAudioContext,
+  input: AudioNode,
+  settings: NaturalizerSettings,
+  time: number,
+  analysis?: ResonanceAnalysis
+) => {
+  // Duck-typed so it holds for any Web Audio implementation, not just the page's globals
+  const dynamic = 'startRendering' in ctx;
+  const notches: { frequency: number; Q: number; depth: number; gains?: Float32Array }[] =
+    analysis ? selectNotches(analysis, settings) : FALLBACK_NOTCHES;
+
+  let node = input;
+  for (const notch of notches) {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'peaking';
+    filter.frequency.value = notch.frequency;
+    filter.Q.value = notch.Q;
+    filter.gain.value = -notch.depth;
+    if (dynamic && analysis && notch.gains && notch.gains.length > 1) {
+      // Points before the context's start are skipped; the curve can't begin in the past
+      const skip = Math.min(notch.gains.length - 1, Math.max(0, Math.ceil((time - analysis.offset) / analysis.hop)));
+      const gains = notch.gains.subarray(skip);
+      filter.gain.value = gains[0];
+      if (gains.length > 1) {
+        const start = Math.max(0, analysis.offset + skip * analysis.hop - time);
+        filter.gain.setValueCurveAtTime(gains, start, analysis.hop * (gains.length - 1));
+      }
+    }
+    node.connect(filter);
+    node = filter;
+  }
+  return node;
+};
+
+// --- EQ ---
+
+// Biquads in series, one per band
+const createEqBands = (ctx: BaseAudioContext, input: AudioNode, bands: EqBand[]) => {
+  let node = input;
+  const filters = bands.map(band => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = band.type;
+    filter.frequency.value = band.frequency;
+    filter.Q.value = band.Q;
+    filter.gain.value = band.gain;
+    node.connect(filter);
+    node = filter;
+    return filter;
+  });
+  const update: Updater<EqBand[]> = next => {
+    if (next.length !== filters.length || next.some((band, i) => band.type !== filters[i].type)) return false;
+    next.forEach((band, i) => {
+      glide(ctx, filters[i].frequency, band.frequency);
+      glide(ctx, filters[i].Q, band.Q);
+      glide(ctx, filters[i].gain, band.gain);
+    });
+    return true;
+  };
+  return { output: node, update };
+};
+
+// --- REFERENCE MATCH ---
+
+/**
+ * Peaking bank that moves the programme's long-term spectrum toward the
+ * reference. Passes through until both spectra are known.
+ */
+const createMatchEq = (
+  ctx: BaseAudioContext,
+  input: AudioNode,
+  settings: Omit<ReferenceMatchSettings, 'enabled'>,
+  spectrum?: SpectrumProfile
+) => {
+  if (!settings.reference || !spectrum) return input;
+  const curve = computeMatchCurve(settings.reference, spectrum, settings);
+  return createEqBands(ctx, input, designMatchEq(spectrum.frequencies, curve, ctx.sampleRate)).output;
+};
+
+// --- DE-ESSER ---
+
+/**
+ * Split-band de-esser worklet. With `listen` set it outputs its 5-9 kHz
+ * detector band instead of the programme.
+ */
+const createDeEsser = (
+  ctx: BaseAudioContext,
+  input: AudioNode,
+  settings: Omit<DeEsserSettings, 'enabled'>,
+  listen: boolean
+) => {
+  const node = new AudioWorkletNode(ctx, 'de-esser', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2],
+    channelCount: 2,
+    channelCountMode: 'explicit',
+    processorOptions: { listen },
+  });
+  node.parameters.get('threshold')!.value = settings.threshold;
+  node.parameters.get('range')!.value = settings.range;
+  input.connect(node);
+  const update: Updater<Omit<DeEsserSettings, 'enabled'>> = next => {
+    glide(ctx, node.parameters.get('threshold')!, next.threshold);
+    glide(ctx, node.parameters.get('range')!, next.range);
+    return true;
+  };
+  return { output: node, update };
+};
+
+// --- TRUE-PEAK LIMITER ---
+
+/**
+ * Lookahead brickwall limiter with an oversampled true-peak detector.
+ * The worklet module must already be loaded on the context.
+ */
+const createTruePeakLimiter = (ctx: BaseAudioContext, input: AudioNode, settings: LimiterSettings) => {
+  const lookaheadSamples = Math.round((settings.lookahead / 1000) * ctx.sampleRate);
+  const node = new AudioWorkletNode(ctx, 'true-peak-limiter', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2],
+    channelCount: 2,
+    channelCountMode: 'explicit',
+    processorOptions: { lookaheadSamples },
+  });
+  node.parameters.get('ceiling')!.value = settings.ceiling;
+  node.parameters.get('release')!.value = settings.release / 1000;
+  input.connect(node);
+  const update: Updater<LimiterSettings> = next => {
+    // The lookahead sizes the delay line and the latency
+    if (next.lookahead !== settings.lookahead) return false;
+    glide(ctx, node.parameters.get('ceiling')!, next.ceiling);
+    glide(ctx, node.parameters.get('release')!, next.release / 1000);
+    return true;
+  };
+  return { node, latency: limiterLatency(lookaheadSamples), update };
+};
+
+const DEFAULT_SAMPLE_RATE = 48000;
+
+export interface ChainEnvironment {
+  // Mid/side energy of the programme, for the widener's mono-compatibility cap
+  stereoBalance: { mid: number; side: number };
+  // Added to the makeup stage by loudness normalization
+  makeupOffsetDb?: number;
+  // FFT scan of the programme; drives the naturalizer's notches
+  resonances?: ResonanceAnalysis;
+  // Long-term spectrum of the programme; the reference match EQ is derived from it
+  spectrum?: SpectrumProfile;
+  // Preview only: end the chain at the de-esser and play its detector band
+  listenSidechain?: boolean;
+  // Programme time (seconds) at the context's time 0, where automation and LFOs pick up; 0 when unset
+  timeOffset?: number;
+}
+
+interface StageNode {
+  output: AudioNode;
+  latency: number;
+  // Moves the stage's nodes to a changed version of the stage; false when it has to be built again
+  update: (stage: ProcessingStage) => boolean;
+}
+
+// For stages whose nodes depend on an analysis or are fixed at build time
+const rebuild = () => false;
+
+// Creates the nodes for one stage between `input` and the returned output
+const createStageNode = (
+  ctx: BaseAudioContext,
+  input: AudioNode,
+  stage: ProcessingStage,
+  env: ChainEnvironment,
+  lfos: OscillatorNode[]
+): StageNode => {
+  const time = env.timeOffset ?? 0;
+  switch (stage.type) {
+    case 'gain': {
+      const gain = ctx.createGain();
+      const offset = stage.id === 'makeup' ? env.makeupOffsetDb ?? 0 : 0;
+      gain.gain.value = dbToGain(stage.params.gain + offset);
+      input.connect(gain);
+      const update = (next: ProcessingStage) => {
+        if (next.type !== 'gain') return false;
+        glide(ctx, gain.gain, dbToGain(next.params.gain + offset));
+        return true;
+      };
+      return { output: gain, latency: 0, update };
+    }
+    case 'eq': {
+      const eq = createEqBands(ctx, input, stage.params.bands);
+      return { output: eq.output, latency: 0, update: next => next.type === 'eq' && eq.update(next.params.bands) };
+    }
+    case 'naturalizer':
+      return { output: createNaturalizer(ctx, input, stage.params, time, env.resonances), latency: 0, update: rebuild };
+    case 'matchEq':
+      return { output: createMatchEq(ctx, input, stage.params, env.spectrum), latency: 0, update: rebuild };
+    case 'deEsser': {
+      const deEsser = createDeEsser(ctx, input, stage.params, !!env.listenSidechain);
+      return { output: deEsser.output, latency: 0, update: next => next.type === 'deEsser' && deEsser.update(next.params) };
+    }
+    case 'chorus':
+    case 'flanger': {
+      const modulation = createModulatedDelay(ctx, input, stage.params, time, lfos);
+      const update = (next: ProcessingStage) => next.type === stage.type && modulation.update(next.params as Omit<DelayModulationSettings, 'enabled'>);
+      return { output: modulation.output, latency: 0, update };
+    }
+    case 'phaser': {
+      const phaser = createPhaser(ctx, input, stage.params, time, lfos);
+      return { output: phaser.output, latency: 0, update: next => next.type === 'phaser' && phaser.update(next.params) };
+    }
+    case 'tape': {
+      const tape = createTape(ctx, input, stage.params, time, lfos);
+      return { output: tape.output, latency: tape.latency, update: next => next.type === 'tape' && tape.update(next.params) };
+    }
+    case 'bitcrusher': {
+      const crusher = createBitcrusher(ctx, input, stage.params);
+      return { output: crusher.output, latency: 0, update: next => next.type === 'bitcrusher' && crusher.update(next.params) };
+    }
+    case 'delay': {
+      const delay = createTempoDelay(ctx, input, stage.params);
+      return { output: delay.output, latency: 0, update: next => next.type === 'delay' && delay.update(next.params) };
+    }
+    case 'reverb': {
+      const reverb = createReverb(ctx, input, stage.params);
+      return { output: reverb.output, latency: 0, update: next => next.type === 'reverb' && reverb.update(next.params) };
+    }
+    case 'stereoImage': {
+      const width = capWidthForMono(stage.params.width, env.stereoBalance);
+      const widener = createStereoWidener(ctx, input, width, stage.params.monoBassFrequency);
+      const update = (next: ProcessingStage) => {
+        if (next.type !== 'stereoImage') return false;
+        widener.update(capWidthForMono(next.params.width, env.stereoBalance), next.params.monoBassFrequency);
+        return true;
+      };
+      return { output: widener.output, latency: 0, update };
+    }
+    case 'phaseGuard': {
+      const guard = createPhaseGuard(ctx, input, stage.params);
+      return { output: guard.output, latency: 0, update: next => next.type === 'phaseGuard' && guard.update(next.params) };
+    }
+    case 'compressor': {
+      const comp = ctx.createDynamicsCompressor();
+      comp.threshold.value = stage.params.threshold;
+      comp.knee.value = stage.params.knee;
+      comp.ratio.value = stage.params.ratio;
+      comp.attack.value = stage.params.attack / 1000;
+      comp.release.value = stage.params.release / 1000;
+      input.connect(comp);
+      const update = (next: ProcessingStage) => {
+        if (next.type !== 'compressor') return false;
+        glide(ctx, comp.threshold, next.params.threshold);
+        glide(ctx, comp.knee, next.params.knee);
+        glide(ctx, comp.ratio, next.params.ratio);
+        glide(ctx, comp.attack, next.params.attack / 1000);
+        glide(ctx, comp.release, next.params.release / 1000);
+        return true;
+      };
+      return { output: comp, latency: 0, update };
+    }
+    case 'multiband': {
+      const multiband = createMultibandCompressor(ctx, input, stage.params);
+      return { output: multiband.output, latency: 0, update: next => next.type === 'multiband' && multiband.update(next.params) };
+    }
+    case 'saturation': {
+      const clipper = ctx.createWaveShaper();
+      clipper.curve = makeSilkCurve();
+      input.connect(clipper);
+      return { output: clipper, latency: 0, update: rebuild };
+    }
+    case 'limiter': {
+      const limiter = createTruePeakLimiter(ctx, input, stage.params);
+      return { output: limiter.node, latency: limiter.latency, update: next => next.type === 'limiter' && limiter.update(next.params) };
     }
   }
+};
+
+/**
+ * Frames of delay the chain adds (limiter lookahead, tape transport), known
+ * before building it.
+ */
+const chainLatency = (stages: ProcessingStage[], sampleRate: number) =>
+  stages.reduce((total, stage) => {
+    if (stage.bypass) return total;
+    if (stage.type === 'limiter') return total + limiterLatency(Math.round((stage.params.lookahead / 1000) * sampleRate));
+    if (stage.type === 'tape') return total + Math.round(TAPE_TRANSPORT_DELAY * sampleRate);
+    return total;
+  }, 0);
+
+export interface MasteringChain {
+  output: AudioNode;
+  latency: number;
+  /**
+   * Moves a running chain to new options in place. Returns false, leaving
+   * the chain half-updated, when stages were switched on or off or a stage
+   * needs new nodes; the caller then builds a new chain.
+   */
+  update: (options: AudioProcessOptions, env: ChainEnvironment) => boolean;
+  dispose: () => void;
+}
 
-  return new Blob([arrayBuffer], { type: "audio/wav" });
+// The stages that get nodes: bypassed ones are skipped, and monitoring the sidechain ends the chain at the de-esser
+const activeStages = (options: AudioProcessOptions, env: ChainEnvironment) => {
+  const stages: ProcessingStage[] = [];
+  for (const stage of resolveChain(options)) {
+    if (stage.bypass) continue;
+    stages.push(stage);
+    // Nothing after the detector band should colour what is being monitored
+    if (env.listenSidechain && stage.type === 'deEsser') break;
+  }
+  return stages;
 };
 
-const audioBufferToMp3 = (buffer: AudioBuffer): Blob => {
-  const channels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const kbps = 320; 
+// Everything a chain reads from its environment when it is built
+const sameEnvironment = (a: ChainEnvironment, b: ChainEnvironment) =>
+  a.stereoBalance === b.stereoBalance && a.makeupOffsetDb === b.makeupOffsetDb && a.resonances === b.resonances
+  && a.spectrum === b.spectrum && !!a.listenSidechain === !!b.listenSidechain && a.timeOffset === b.timeOffset;
 
-  const mp3encoder = new Mp3Encoder(channels, sampleRate, kbps);
-  const samplesLeft = buffer.getChannelData(0);
-  const samplesRight = channels > 1 ? buffer.getChannelData(1) : samplesLeft;
-  
-  const length = samplesLeft.length;
-  const leftInt16 = new Int16Array(length);
-  const rightInt16 = new Int16Array(length);
+/**
+ * Wires the mastering chain between `input` and the returned output node.
+ * Works on realtime and offline contexts; worklets must already be loaded.
+ */
+export const buildMasteringChain = (
+  ctx: BaseAudioContext,
+  input: AudioNode,
+  options: AudioProcessOptions,
+  env: ChainEnvironment
+): MasteringChain => {
+  const lfos: OscillatorNode[] = [];
+  let output = input;
+  let latency = 0;
 
-  for (let i = 0; i < length; i++) {
-    const l = Math.max(-0.95, Math.min(0.95, samplesLeft[i]));
-    leftInt16[i] = l < 0 ? l * 32768 : l * 32767;
+  const built = activeStages(options, env).map(stage => {
+    const node = createStageNode(ctx, output, stage, env, lfos);
+    output = node.output;
+    latency += node.latency;
+    return { stage, node };
+  });
 
-    if (channels > 1) {
-      const r = Math.max(-0.95, Math.min(0.95, samplesRight[i]));
-      rightInt16[i] = r < 0 ? r * 32768 : r * 32767;
+  const update = (nextOptions: AudioProcessOptions, nextEnv: ChainEnvironment) => {
+    const next = activeStages(nextOptions, nextEnv);
+    if (!sameEnvironment(env, nextEnv) || next.length !== built.length) return false;
+    if (next.some((stage, i) => stage.id !== built[i].stage.id)) return false;
+    return next.every((stage, i) => {
+      const current = built[i];
+      if (JSON.stringify(stage) === JSON.stringify(current.stage)) return true;
+      if (!current.node.update(stage)) return false;
+      current.stage = stage;
+      return true;
+    });
+  };
+
+  return {
+    output,
+    latency,
+    update,
+    dispose: () => lfos.forEach(lfo => lfo.stop()),
+  };
+};
+
+// --- BLOCK RENDERING ---
+
+// Every render goes block by block, so its memory use doesn't grow with the length of the file
+const BLOCK_SECONDS = 60;
+// Lets the compressors, limiter and detectors settle before a block's first kept frame
+const SETTLE_SECONDS = 2;
+// Long delay times near full feedback ring on for longer; their oldest repeats are lost at block seams
+const MAX_PREROLL_SECONDS = 30;
+// Longest ring-out rendered past the end of the source
+const MAX_TAIL_SECONDS = 30;
+
+// Repeats until a feedback loop has died away by 60 dB
+const echoCount = (feedback: number) => (feedback > 0 ? Math.ceil(Math.log(0.001) / Math.log(Math.min(0.9, feedback))) : 1);
+
+// How long the chain rings on after its input stops: reverb tails and delay repeats
+const effectTail = (stages: ProcessingStage[]) =>
+  stages.reduce((total, stage) => {
+    if (stage.bypass) return total;
+    switch (stage.type) {
+      case 'reverb':
+        return total + impulseResponseDuration(stage.params.decay) + stage.params.preDelay / 1000;
+      case 'delay':
+        return total + Math.min(MAX_DELAY_SECONDS, delayTimeSeconds(stage.params.bpm, stage.params.division)) * echoCount(stage.params.feedback);
+      case 'chorus':
+      case 'flanger':
+        return total + Math.min(MAX_MODULATION_DELAY, stage.params.delay / 1000) * echoCount(stage.params.feedback);
+      default:
+        return total;
     }
+  }, 0);
+
+/**
+ * How far back the chain's output still depends on its input: the effect
+ * tails, plus time for the dynamics to settle.
+ */
+const chainMemory = (stages: ProcessingStage[]) => Math.min(MAX_PREROLL_SECONDS, SETTLE_SECONDS + effectTail(stages));
+
+interface RenderBlock {
+  first: number; // First kept frame, counted from the start of the render
+  frames: number;
+  preroll: number; // Frames rendered ahead of `first` and thrown away
+}
+
+/**
+ * Splits a render into blocks. Every block after the first starts early by
+ * the chain's memory, so by its first kept frame each stage is where a
+ * continuous render would have it. A short file, no longer than one block
+ * and its pre-roll, is a single block: splitting it would only render more.
+ */
+const planBlocks = (duration: number, sampleRate: number, stages: ProcessingStage[], blockSeconds = BLOCK_SECONDS): RenderBlock[] => {
+  const total = Math.ceil(duration * sampleRate);
+  const size = Math.round(blockSeconds * sampleRate);
+  const preroll = Math.round(chainMemory(stages) * sampleRate);
+  if (total <= size + preroll) return [{ first: 0, frames: total, preroll: 0 }];
+  const blocks: RenderBlock[] = [];
+  for (let first = 0; first < total; first += size) {
+    blocks.push({ first, frames: Math.min(size, total - first), preroll: Math.min(first, preroll) });
   }
+  return blocks;
+};
+
+// The stretch of the source one block plays, in seconds
+interface PlayWindow {
+  offset: number;
+  duration: number;
+  // Edges whose fade-out goes on the source, ahead of the chain
+  sourceFade?: EdgePlan;
+}
+
+/**
+ * Player for one window of `audio`, starting at the context's time 0. Only
+ * that stretch (and a frame either side for the resampler) is copied into
+ * the context; a window past the end of the audio plays silence.
+ */
+const createWindowPlayer = (ctx: BaseAudioContext, { channels, sampleRate }: PcmAudio, { offset, duration, sourceFade }: PlayWindow) => {
+  const length = channels[0].length;
+  const first = Math.max(0, Math.min(length, Math.floor(offset * sampleRate) - 1));
+  const last = Math.min(length, Math.ceil((offset + duration) * sampleRate) + 1);
+  const buffer = ctx.createBuffer(channels.length, Math.max(1, last - first), sampleRate);
+  channels.forEach((channel, c) => buffer.copyToChannel(channel.subarray(first, last), c));
+  if (sourceFade) applySourceFadeOut(getChannels(buffer), sourceFade, first, sampleRate);
+  const player = ctx.createBufferSource();
+  player.buffer = buffer;
+  return { player, start: () => player.start(0, offset - first / sampleRate, duration) };
+};
+
+// Receives each finished block of a master, in order
+type BlockSink = (channels: Float32Array[]) => void | Promise<void>;
+
+// One set of channels from consecutive blocks
+const joinBlocks = (blocks: Float32Array[][]): Float32Array[] => {
+  if (blocks.length === 1) return blocks[0];
+  const length = blocks.reduce((sum, block) => sum + block[0].length, 0);
+  return blocks[0].map((_, c) => {
+    const channel = new Float32Array(length);
+    let offset = 0;
+    for (const block of blocks) {
+      channel.set(block[c], offset);
+      offset += block[c].length;
+    }
+    return channel;
+  });
+};
+
+// --- STEM MIXDOWN ---
+
+// What a render plays: one programme, or stems mixed inside the same graph
+interface RenderSource {
+  // Measured and analysed; played directly when there are no stems
+  programme: PcmAudio;
+  stems?: PcmStem[];
+}
+
+// Chain stages that move onto the vocal stems with `vocalStemCleanup`
+const VOCAL_STAGES: ProcessingStageType[] = ['naturalizer', 'deEsser'];
+
+// Without an audible vocal stem the stages stay on the mix
+export const vocalCleanupActive = (stems: { settings: StemSettings }[] | undefined, options: AudioProcessOptions) =>
+  !!options.vocalStemCleanup && !!stems && audibleStems(stems).some(stem => stem.settings.role === 'vocals');
+
+const withoutVocalStages = (options: AudioProcessOptions): AudioProcessOptions => ({
+  ...options,
+  stageOverrides: {
+    ...options.stageOverrides,
+    ...Object.fromEntries(
+      resolveChain(options).filter(stage => VOCAL_STAGES.includes(stage.type)).map(stage => [stage.id, { bypass: true }])
+    ),
+  },
+});
 
-  const mp3Data: Int8Array[] = [];
-  const sampleBlockSize = 1152; 
+/** The options the mix bus runs with: the vocal stages leave it when they move onto the vocal stems. */
+export const mixBusOptions = (stems: { settings: StemSettings }[] | undefined, options: AudioProcessOptions) =>
+  vocalCleanupActive(stems, options) ? withoutVocalStages(options) : options;
 
-  for (let i = 0; i < length; i += sampleBlockSize) {
-    const leftChunk = leftInt16.subarray(i, i + sampleBlockSize);
-    const rightChunk = channels > 1 ? rightInt16.subarray(i, i + sampleBlockSize) : undefined;
-    const mp3buf = mp3encoder.encodeBuffer(leftChunk, rightChunk);
-    if (mp3buf.length > 0) mp3Data.push(mp3buf);
+export interface StemStrip {
+  input: AudioNode;
+  output: AudioNode;
+  /**
+   * Applies new mix settings in place. Returns false when the stem's vocal
+   * stages come or go, or one of them needs new nodes; the strip is then
+   * built again.
+   */
+  update: (settings: StemSettings, options: AudioProcessOptions, audible: boolean) => boolean;
+}
+
+/**
+ * One stem's EQ, pan, vocal stages and gain. The panner comes before the
+ * vocal stages so mono stems pan like in `mixStems`. An inaudible strip sits
+ * at zero gain, so the preview can mute and solo without rebuilding.
+ */
+export const createStemStrip = (
+  ctx: BaseAudioContext,
+  settings: StemSettings,
+  options: AudioProcessOptions,
+  env: ChainEnvironment,
+  vocalCleanup: boolean,
+  audible = true
+): StemStrip => {
+  const vocalStages = (stemSettings: StemSettings, stemOptions: AudioProcessOptions) =>
+    vocalCleanup && stemSettings.role === 'vocals'
+      ? resolveChain(stemOptions).filter(stage => VOCAL_STAGES.includes(stage.type) && !stage.bypass)
+      : [];
+
+  const input = ctx.createGain();
+  const eq = createEqBands(ctx, input, stemEqBands(settings.eq));
+  const panner = ctx.createStereoPanner();
+  panner.pan.value = settings.pan;
+  eq.output.connect(panner);
+  let node: AudioNode = panner;
+  const stages = vocalStages(settings, options).map(stage => {
+    const stageNode = createStageNode(ctx, node, stage, env, []);
+    node = stageNode.output;
+    return { stage, node: stageNode };
+  });
+  const gain = ctx.createGain();
+  gain.gain.value = audible ? dbToGain(settings.gain) : 0;
+  node.connect(gain);
+
+  const update = (next: StemSettings, nextOptions: AudioProcessOptions, nextAudible: boolean) => {
+    const nextStages = vocalStages(next, nextOptions);
+    if (nextStages.length !== stages.length || nextStages.some((stage, i) => stage.id !== stages[i].stage.id)) return false;
+    const stagesMoved = nextStages.every((stage, i) => {
+      if (JSON.stringify(stage) === JSON.stringify(stages[i].stage)) return true;
+      if (!stages[i].node.update(stage)) return false;
+      stages[i].stage = stage;
+      return true;
+    });
+    if (!stagesMoved || !eq.update(stemEqBands(next.eq))) return false;
+    glide(ctx, panner.pan, next.pan);
+    glide(ctx, gain.gain, nextAudible ? dbToGain(next.gain) : 0);
+    return true;
+  };
+  return { input, output: gain, update };
+};
+
+// Every audible stem's window through its strip into one bus
+const createStemMix = (
+  ctx: BaseAudioContext,
+  stems: PcmStem[],
+  options: AudioProcessOptions,
+  env: ChainEnvironment,
+  vocalCleanup: boolean,
+  window: PlayWindow
+) => {
+  const bus = ctx.createGain();
+  const players = audibleStems(stems).map(stem => {
+    const { player, start } = createWindowPlayer(ctx, stem, window);
+    const strip = createStemStrip(ctx, stem.settings, options, env, vocalCleanup);
+    player.connect(strip.input);
+    strip.output.connect(bus);
+    return start;
+  });
+  return {
+    output: bus,
+    start: () => players.forEach(start => start()),
+  };
+};
+
+/**
+ * Chain analysis on the stem sum. With vocal cleanup the naturalizer's
+ * resonance scan looks at the vocals alone, since that is all it will cut.
+ */
+const scanStems = function* (programme: PcmAudio, stems: PcmStem[], options: AudioProcessOptions): Scan<ChainEnvironment> {
+  if (!vocalCleanupActive(stems, options)) return yield* scanForChain(programme, options);
+  const naturalizing = resolveChain(options).some(stage => stage.type === 'naturalizer' && !stage.bypass);
+  const vocals = naturalizing ? mixStems(audibleStems(stems).filter(stem => stem.settings.role === 'vocals')) : null;
+  return yield* scanForChain(programme, options, {
+    stereoBalance: yield* scanStereoBalance(programme.channels),
+    resonances: vocals ? yield* scanResonances(vocals.channels, vocals.sampleRate) : undefined,
+  });
+};
+
+// --- RENDER PROGRESS ---
+
+const PROGRESS_STEPS = 20;
+
+const abortError = () => new DOMException('Processing was cancelled.', 'AbortError');
+
+/**
+ * Rejects as soon as the signal aborts, without waiting for `promise`.
+ */
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Renders with suspend points spread over the timeline so progress can be
+ * reported. An aborted render stays suspended and is dropped.
+ */
+const renderWithProgress = (
+  ctx: OfflineAudioContext,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<AudioBuffer> => {
+  let lastFrame = 0;
+  for (let i = 1; i < PROGRESS_STEPS; i++) {
+    // Suspend times are quantised to render quanta and must be unique
+    const frame = Math.floor((ctx.length * i) / PROGRESS_STEPS / RENDER_QUANTUM) * RENDER_QUANTUM;
+    if (frame <= lastFrame) continue;
+    lastFrame = frame;
+    ctx.suspend(frame / ctx.sampleRate).then(() => {
+      if (signal?.aborted) return;
+      onProgress?.(frame / ctx.length);
+      ctx.resume();
+    });
   }
+  return abortable(ctx.startRendering(), signal);
+};
+
+/**
+ * Renders the master one block at a time, each in its own offline context,
+ * and hands every block to `onBlock` (pre-roll and latency cut off, fades
+ * applied) before starting the next. Only the played window of the source
+ * is copied into each context. The blocks cover `tail` seconds past the end
+ * of the source, where the effects ring out after the source has faded.
+ */
+const renderMaster = async (
+  { programme, stems }: RenderSource,
+  options: AudioProcessOptions,
+  env: ChainEnvironment,
+  edges: EdgePlan,
+  tail: number,
+  blocks: RenderBlock[],
+  makeupOffsetDb: number,
+  onBlock: BlockSink,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  const vocalCleanup = vocalCleanupActive(stems, options);
+  const chainOptions = mixBusOptions(stems, options);
+  const latency = chainLatency(resolveChain(chainOptions), sampleRate);
+  const total = blocks.reduce((sum, block) => sum + block.frames, 0);
+
+  for (const block of blocks) {
+    // The limiter's lookahead delay is rendered as extra frames that are cut off afterwards
+    const length = block.preroll + block.frames + latency;
+    const offlineCtx = new OfflineAudioContext(2, length, sampleRate);
+    await loadWorklets(offlineCtx);
+
+    // Source time at the context's time 0; the source plays on through the latency frames unless the region ends first
+    const offset = edges.start + (block.first - block.preroll) / sampleRate;
+    const window: PlayWindow = {
+      offset,
+      duration: Math.max(0, Math.min(edges.end - offset, length / sampleRate)),
+      sourceFade: tail > 0 ? edges : undefined,
+    };
+    const blockEnv: ChainEnvironment = { ...env, makeupOffsetDb, timeOffset: offset };
+
+    let input: AudioNode;
+    let start: () => void;
+    if (stems) {
+      ({ output: input, start } = createStemMix(offlineCtx, stems, options, blockEnv, vocalCleanup, window));
+    } else {
+      const player = createWindowPlayer(offlineCtx, programme, window);
+      input = player.player;
+      start = player.start;
+    }
 
-  const mp3buf = mp3encoder.flush();
-  if (mp3buf.length > 0) mp3Data.push(mp3buf);
+    buildMasteringChain(offlineCtx, input, chainOptions, blockEnv).output.connect(offlineCtx.destination);
+    start();
+    const rendered = await renderWithProgress(
+      offlineCtx,
+      fraction => onProgress?.((block.first + fraction * block.frames) / total),
+      signal
+    );
 
-  return new Blob(mp3Data, { type: "audio/mp3" });
+    const skip = block.preroll + latency;
+    const channels = getChannels(rendered).map(channel => channel.slice(skip, skip + block.frames));
+    applyFades(channels, edges, block.first, sampleRate, tail);
+    await onBlock(channels);
+  }
 };
 
-export const processAudio = async (
-  file: File,
-  options: AudioProcessOptions
-): Promise<Blob> => {
-  const audioContext = new (window.AudioContext || window.webkitAudioContext)();
-  const arrayBuffer = await file.arrayBuffer();
-  const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-  const TARGET_SAMPLE_RATE = 48000;
-
-  const config = {
-    safetyHeadroom: -20.0,
-    compThreshold: options.intensity === 'high' ? -28 : -24,
-    compRatio: options.intensity === 'high' ? 2.5 : 1.5,
-    finalGain: options.intensity === 'high' ? 15.0 : 13.0,
+// --- EXPORT ---
+
+// Blocks the encoder worker may have queued before rendering waits for it
+const MAX_QUEUED_BLOCKS = 2;
+
+/**
+ * Streams a master into an encoder Web Worker while it renders, so long
+ * files neither freeze the tab nor sit in memory a second time. Each block's
+ * buffers are transferred, not copied, and `write` holds back while the
+ * worker is behind. Aborting (or `close`) terminates the worker.
+ */
+const createWorkerEncoder = (
+  sampleRate: number,
+  settings: ExportSettings,
+  metadata?: TrackMetadata,
+  signal?: AbortSignal
+) => {
+  const worker = new Worker(new URL('./encoder.worker.ts', import.meta.url), { type: 'module' });
+  const waiting: (() => void)[] = [];
+  let queued = 0;
+  let sent = 0;
+  let written = 0;
+  let blob: Blob | null = null;
+  let failure: Error | null = null;
+  let onWritten: ((fraction: number) => void) | undefined;
+
+  const wake = () => waiting.splice(0).forEach(resolve => resolve());
+  const waitUntil = async (ready: () => boolean) => {
+    while (!failure && !ready()) await new Promise<void>(resolve => waiting.push(resolve));
+    if (failure) throw failure;
+  };
+
+  const close = () => {
+    worker.terminate();
+    signal?.removeEventListener('abort', onAbort);
+  };
+  const fail = (error: Error) => {
+    failure ??= error;
+    close();
+    wake();
   };
+  const onAbort = () => fail(abortError());
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) onAbort();
 
-  const lengthInFrames = Math.ceil(audioBuffer.duration * TARGET_SAMPLE_RATE);
-  const offlineCtx = new OfflineAudioContext(2, lengthInFrames, TARGET_SAMPLE_RATE);
+  worker.onmessage = (e: MessageEvent<EncodeResponse>) => {
+    const message = e.data;
+    if (message.type === 'written') {
+      queued--;
+      written += message.frames;
+      onWritten?.(written / sent);
+    } else if (message.type === 'done') {
+      blob = message.blob;
+    } else {
+      fail(new Error(message.message));
+    }
+    wake();
+  };
+  worker.onerror = (e) => fail(new Error(e.message || 'Encoder worker failed'));
 
-  const source = offlineCtx.createBufferSource();
-  source.buffer = audioBuffer;
-
-  // --- CHAIN START ---
-  const inputNode = offlineCtx.createGain();
-  inputNode.gain.value = Math.pow(10, config.safetyHeadroom / 20);
-  source.connect(inputNode);
-  let chain: AudioNode = inputNode;
-
-  const hpf = offlineCtx.createBiquadFilter();
-  hpf.type = "highpass";
-  hpf.frequency.value = 85; 
-  hpf.Q.value = 0.707;
-  chain.connect(hpf);
-  chain = hpf;
-
-  // 1. CREATIVE FX LAYER (Pre-Dynamics)
-  if (options.creativeFx.chorus > 0) {
-    // We break the chain here to insert chorus in parallel/series hybrid
-    // The helper returns a mixed node
-    // For simplicity in offline context, we treat it as an insert
-    // Note: helpers create nodes in the offlineCtx
-    // IMPORTANT: createChorus helper needs to be adapted to return the node 
-    // but standard Web Audio connect returns destination. 
-    // The helpers above attach to 'input' and return the output node.
-    chain = createChorus(offlineCtx, chain, options.creativeFx.chorus);
+  const post = (request: EncodeRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+  post({
+    type: 'start',
+    sampleRate,
+    settings: { exportFormat: settings.exportFormat, bitDepth: settings.bitDepth, dither: settings.dither },
+    metadata,
+  });
+
+  return {
+    write: async (channels: Float32Array[]) => {
+      await waitUntil(() => queued < MAX_QUEUED_BLOCKS);
+      queued++;
+      sent += channels[0].length;
+      post({ type: 'write', channels }, channels.map(channel => channel.buffer));
+    },
+    // Resolves with the file once the worker has caught up, reporting its progress through the queue
+    finish: async (onProgress?: (fraction: number) => void): Promise<Blob> => {
+      onWritten = onProgress;
+      post({ type: 'finish' });
+      await waitUntil(() => blob !== null);
+      return blob!;
+    },
+    close,
+  };
+};
+
+// --- DECODE CACHE ---
+
+// Decodes past this much audio in total are dropped, least recently used first. The newest
+// always stays, so after a long set nothing else is kept.
+const DECODE_CACHE_SECONDS = 20 * 60;
+
+interface CachedDecode {
+  buffer: Promise<AudioBuffer>;
+  seconds: number; // 0 until decoded
+}
+
+// Least recently used first
+const decodeCache = new Map<File, CachedDecode>();
+
+const trimDecodeCache = () => {
+  let seconds = 0;
+  [...decodeCache].reverse().forEach(([file, entry], i) => {
+    seconds += entry.seconds;
+    if (i > 0 && seconds > DECODE_CACHE_SECONDS) decodeCache.delete(file);
+  });
+};
+
+/**
+ * Forgets every cached decode, for when the page moves on to a new upload.
+ * Renders already running keep their own reference to their source.
+ */
+export const releaseDecodes = () => decodeCache.clear();
+
+const decodeUncached = async (file: File): Promise<AudioBuffer> => {
+  const audioContext = new (window.AudioContext || window.webkitAudioContext)();
+  try {
+    return await audioContext.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    audioContext.close();
   }
-  if (options.creativeFx.phaser > 0) {
-    chain = createPhaser(offlineCtx, chain, options.creativeFx.phaser);
+};
+
+/**
+ * Decodes each file once: the analysis panels, the preview, the render and
+ * every delivery master share one AudioBuffer, so it must be treated as
+ * read-only. A failed decode isn't cached.
+ */
+export const decodeAudioFile = (file: File): Promise<AudioBuffer> => {
+  const cached = decodeCache.get(file);
+  if (cached) {
+    decodeCache.delete(file);
+    decodeCache.set(file, cached);
+    return cached.buffer;
   }
-  if (options.creativeFx.flanger > 0) {
-    chain = createFlanger(offlineCtx, chain, options.creativeFx.flanger);
+
+  const entry: CachedDecode = { buffer: decodeUncached(file), seconds: 0 };
+  decodeCache.set(file, entry);
+  entry.buffer.then(
+    buffer => {
+      entry.seconds = buffer.duration;
+      trimDecodeCache();
+    },
+    () => {
+      if (decodeCache.get(file) === entry) decodeCache.delete(file);
+    }
+  );
+  return entry.buffer;
+};
+
+/**
+ * Long-term spectrum of a whole file, for use as a matching reference.
+ */
+export const measureFileSpectrum = async (file: File): Promise<SpectrumProfile> => {
+  const buffer = await decodeAudioFile(file);
+  return runScanInSlices(scanSpectrum(getChannels(buffer), buffer.sampleRate));
+};
+
+// --- ANALYSIS MIX ---
+
+const ANALYSIS_SAMPLE_RATE = 16000;
+const MAX_ANALYSIS_SECONDS = 180;
+
+/**
+ * Mono 16 kHz render of the first three minutes: what the Cloner sends to
+ * the model, and the rate the tempo and key estimates are tuned for.
+ */
+export const renderAnalysisMix = ({ channels, sampleRate }: PcmAudio): Promise<AudioBuffer> => {
+  const length = Math.max(1, Math.min(channels[0].length, MAX_ANALYSIS_SECONDS * sampleRate));
+  const offlineCtx = new OfflineAudioContext(1, Math.max(1, Math.floor((length / sampleRate) * ANALYSIS_SAMPLE_RATE)), ANALYSIS_SAMPLE_RATE);
+  const buffer = offlineCtx.createBuffer(channels.length, length, sampleRate);
+  channels.forEach((channel, c) => buffer.copyToChannel(channel.subarray(0, length), c));
+  const source = offlineCtx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offlineCtx.destination);
+  source.start();
+  return offlineCtx.startRendering();
+};
+
+/**
+ * Measurements of the source the chain adapts to. The resonance scan and the
+ * long-term spectrum only run when a stage needs them; anything in
+ * `previous` is reused.
+ */
+export const scanForChain = function* (
+  { channels, sampleRate }: PcmAudio,
+  options: AudioProcessOptions,
+  previous?: ChainEnvironment
+): Scan<ChainEnvironment> {
+  const active = (type: ProcessingStageType) =>
+    resolveChain(options).some(stage => stage.type === type && !stage.bypass);
+  return {
+    stereoBalance: previous?.stereoBalance ?? (yield* scanStereoBalance(channels)),
+    resonances: previous?.resonances
+      ?? (active('naturalizer') ? yield* scanResonances(channels, sampleRate) : undefined),
+    spectrum: previous?.spectrum
+      ?? (active('matchEq') ? yield* scanSpectrum(channels, sampleRate) : undefined),
+  };
+};
+
+export interface RenderHooks {
+  signal?: AbortSignal;
+  onProgress?: (progress: ProcessProgress) => void;
+  // Length of each render block, in seconds (default one minute)
+  blockSeconds?: number;
+}
+
+export interface ProcessHooks extends RenderHooks {
+  metadata?: TrackMetadata;
+}
+
+/**
+ * Render, loudness passes and the final measurements, for either kind of
+ * source. Loudness passes only measure; the delivered pass is measured as
+ * it streams to `sink`. A pass that fits in one block is kept and replayed
+ * instead of rendering it again, while longer renders re-render so that no
+ * full-length copy of the output is ever held.
+ */
+const masterSource = async (
+  source: RenderSource,
+  options: AudioProcessOptions,
+  env: ChainEnvironment,
+  { signal, onProgress, blockSeconds }: RenderHooks,
+  sink: BlockSink
+): Promise<MasterStats> => {
+  const { programme } = source;
+  const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  const input = await runScanInSlices(scanLoudness(programme.channels, programme.sampleRate), signal);
+  const edges = options.region
+    ? planRegion(programme.channels, programme.sampleRate, options.region)
+    : await runScanInSlices(scanEdges(programme.channels, programme.sampleRate, resolveEdges(options)), signal);
+  const stages = resolveChain(options);
+  const tail = Math.min(MAX_TAIL_SECONDS, effectTail(stages));
+  const blocks = planBlocks(edges.end - edges.start + tail, sampleRate, stages, blockSeconds);
+
+  let pass = 1;
+  let makeupOffset = 0;
+  const render = (onBlock: BlockSink) => {
+    onProgress?.({ stage: 'render', fraction: 0, pass });
+    return renderMaster(
+      source, options, env, edges, tail, blocks, makeupOffset, onBlock,
+      fraction => onProgress?.({ stage: 'render', fraction, pass }),
+      signal
+    );
+  };
+
+  let kept: Float32Array[][] | null = null;
+  let measured: LoudnessStats | null = null;
+  let gain = 1;
+  const target = options.loudnessTarget;
+  if (target) {
+    // Re-render with corrected makeup gain so the limiter sees the real drive level
+    for (;;) {
+      const meter = createLoudnessMeter(sampleRate);
+      const rendered: Float32Array[][] = [];
+      await render(block => {
+        meter.push(block);
+        if (blocks.length === 1) rendered.push(block);
+      });
+      kept = blocks.length === 1 ? rendered : null;
+      measured = meter.result();
+      const error = target.lufs - measured.integrated;
+      if (measured.integrated <= LOUDNESS_FLOOR || Math.abs(error) <= LOUDNESS_TOLERANCE || pass >= MAX_LOUDNESS_PASSES) break;
+      makeupOffset += error;
+      pass++;
+    }
+    // Safety net only: the true-peak limiter should already sit on the ceiling
+    if (measured.integrated > LOUDNESS_FLOOR && measured.truePeak > target.truePeak) {
+      gain = dbToGain(target.truePeak - measured.truePeak);
+    }
+  }
+
+  // A replayed pass only needs measuring again if the safety net changed it
+  const outputMeter = kept && gain === 1 ? null : createLoudnessMeter(sampleRate);
+  const monoMeter = createMonoMeter(sampleRate);
+  const deliver = async (block: Float32Array[]) => {
+    if (gain !== 1) applyGain(block, gain);
+    outputMeter?.push(block);
+    monoMeter.push(block);
+    await sink(block);
+  };
+  if (kept) {
+    for (const block of kept) await deliver(block);
+  } else {
+    if (target) pass++;
+    await render(deliver);
   }
 
-  // 2. SURGICAL NATURALIZER
-  if (options.enableNaturalizer) {
-    const notch1 = offlineCtx.createBiquadFilter();
-    notch1.type = "peaking";
-    notch1.frequency.value = 2800;
-    notch1.Q.value = 4.0;
-    notch1.gain.value = -5.0;
-
-    const notch2 = offlineCtx.createBiquadFilter();
-    notch2.type = "peaking";
-    notch2.frequency.value = 4500;
-    notch2.Q.value = 5.0;
-    notch2.gain.value = -5.5;
-
-    const notch3 = offlineCtx.createBiquadFilter();
-    notch3.type = "peaking";
-    notch3.frequency.value = 6200;
-    notch3.Q.value = 6.0;
-    notch3.gain.value = -4.0;
-
-    const silkTilt = offlineCtx.createBiquadFilter();
-    silkTilt.type = "highshelf";
-    silkTilt.frequency.value = 8500;
-    silkTilt.gain.value = -5.0;
-
-    chain.connect(notch1);
-    notch1.connect(notch2);
-    notch2.connect(notch3);
-    notch3.connect(silkTilt);
-    chain = silkTilt;
+  return { sampleRate, input, output: outputMeter?.result() ?? measured!, mono: monoMeter.result() };
+};
+
+// The render source and chain analysis for a programme or a set of stems
+const prepareSource = async (
+  decoded: PcmAudio | PcmStem[],
+  options: AudioProcessOptions,
+  signal?: AbortSignal
+): Promise<{ source: RenderSource; env: ChainEnvironment }> => {
+  if (!Array.isArray(decoded)) {
+    return { source: { programme: decoded }, env: await runScanInSlices(scanForChain(decoded, options), signal) };
   }
+  if (audibleStems(decoded).length === 0) throw new Error("Every stem is muted.");
+  const programme = mixStems(decoded);
+  return { source: { programme, stems: decoded }, env: await runScanInSlices(scanStems(programme, decoded, options), signal) };
+};
+
+// Masters into memory, for callers that want the channels
+const collectMaster = async (decoded: PcmAudio | PcmStem[], options: AudioProcessOptions, hooks: RenderHooks): Promise<MasteredAudio> => {
+  const { source, env } = await prepareSource(decoded, options, hooks.signal);
+  const blocks: Float32Array[][] = [];
+  const stats = await masterSource(source, options, env, hooks, block => { blocks.push(block); });
+  return { ...stats, channels: joinBlocks(blocks) };
+};
+
+/**
+ * The mastering render on plain channel data (re-rendering for loudness
+ * targets). Needs an OfflineAudioContext with AudioWorklet support, so it runs
+ * in the page and, through a Web Audio implementation for Node, in the CLI.
+ */
+export const masterAudio = (source: PcmAudio, options: AudioProcessOptions, hooks: RenderHooks = {}): Promise<MasteredAudio> =>
+  collectMaster(source, options, hooks);
+
+/**
+ * Mixes the stems and masters the sum in the same render. The input
+ * measurements are of the stem sum (gain, pan and mute/solo applied).
+ */
+export const masterStems = (stems: PcmStem[], options: AudioProcessOptions, hooks: RenderHooks = {}): Promise<MasteredAudio> =>
+  collectMaster(stems, options, hooks);
 
-  // 3. TONAL SHAPING
-  const lowShelf = offlineCtx.createBiquadFilter();
-  lowShelf.type = "lowshelf";
-  lowShelf.frequency.value = 180;
-  lowShelf.gain.value = options.preset === 'electronic' ? 1.5 : 0.5;
-
-  const highShelf = offlineCtx.createBiquadFilter();
-  highShelf.type = "highshelf";
-  highShelf.frequency.value = 11000;
-  highShelf.gain.value = options.preset === 'pop' ? 1.5 : 0.5;
-
-  chain.connect(lowShelf);
-  lowShelf.connect(highShelf);
-  chain = highShelf;
-
-  // 4. SOFT ENVELOPE (Compressor)
-  const comp = offlineCtx.createDynamicsCompressor();
-  comp.threshold.value = config.compThreshold;
-  comp.knee.value = 35;
-  comp.ratio.value = config.compRatio;
-  comp.attack.value = 0.040;
-  comp.release.value = 0.250;
-  chain.connect(comp);
-  chain = comp;
-
-  // 5. GAIN SMOOTHING
-  if (options.enableWarmth) {
-    const clipper = offlineCtx.createWaveShaper();
-    clipper.curve = makeSilkCurve();
-    chain.connect(clipper);
-    chain = clipper;
+/**
+ * Masters straight into the encoder worker, block by block, so memory use
+ * doesn't grow with the length of the output.
+ */
+const streamMaster = async (
+  decoded: PcmAudio | PcmStem[],
+  options: AudioProcessOptions,
+  { metadata, signal, onProgress, blockSeconds }: ProcessHooks
+): Promise<{ stats: MasterStats; result: ProcessResult }> => {
+  const { source, env } = await prepareSource(decoded, options, signal);
+  const encoder = createWorkerEncoder(options.sampleRate ?? DEFAULT_SAMPLE_RATE, options, metadata, signal);
+  try {
+    const stats = await masterSource(source, options, env, { signal, onProgress, blockSeconds }, encoder.write);
+    onProgress?.({ stage: 'encode', fraction: 0 });
+    const blob = await encoder.finish(fraction => onProgress?.({ stage: 'encode', fraction }));
+    onProgress?.({ stage: 'encode', fraction: 1 });
+    return { stats, result: { blob, input: stats.input, output: stats.output, mono: stats.mono } };
+  } finally {
+    encoder.close();
   }
+};
+
+/**
+ * Decode, render and encode one file. Aborting rejects with an AbortError.
+ */
+export const processAudio = async (
+  file: File,
+  options: AudioProcessOptions,
+  hooks: ProcessHooks = {}
+): Promise<ProcessResult> => {
+  hooks.onProgress?.({ stage: 'decode', fraction: 0 });
+  const audioBuffer = await abortable(decodeAudioFile(file), hooks.signal);
+  return (await streamMaster(toPcm(audioBuffer), options, hooks)).result;
+};
 
-  // 6. FINAL LEVELING
-  const makeup = offlineCtx.createGain();
-  makeup.gain.value = Math.pow(10, config.finalGain / 20);
-  chain.connect(makeup);
-
-  const limiter = offlineCtx.createDynamicsCompressor();
-  limiter.threshold.value = -2.0;
-  limiter.knee.value = 0;
-  limiter.ratio.value = 20;
-  limiter.attack.value = 0.001;
-  limiter.release.value = 0.15;
-  makeup.connect(limiter);
-  chain = limiter;
-
-  // 7. FADES
-  if (options.enableFades) {
-    const fader = offlineCtx.createGain();
-    fader.gain.setValueAtTime(0, 0);
-    fader.gain.linearRampToValueAtTime(1, 0.8);
-    const fadeOutStart = Math.max(0, audioBuffer.duration - 3.0);
-    fader.gain.setValueAtTime(1, fadeOutStart);
-    fader.gain.linearRampToValueAtTime(0, audioBuffer.duration);
-    chain.connect(fader);
-    chain = fader;
+const decodeStems = async (tracks: StemTrack[], { signal, onProgress }: RenderHooks): Promise<PcmStem[]> => {
+  const stems: PcmStem[] = [];
+  for (const track of tracks) {
+    onProgress?.({ stage: 'decode', fraction: stems.length / tracks.length });
+    const audioBuffer = await abortable(decodeAudioFile(track.file), signal);
+    stems.push({ ...toPcm(audioBuffer), settings: track.settings });
   }
+  return stems;
+};
 
-  chain.connect(offlineCtx.destination);
-  source.start();
-  const renderedBuffer = await offlineCtx.startRendering();
-  
-  if (options.exportFormat === 'wav') {
-    return audioBufferToWav(renderedBuffer);
+/**
+ * Decode every stem, mix them down inside the mastering render and encode
+ * the result. Aborting rejects with an AbortError.
+ */
+export const processStems = async (
+  tracks: StemTrack[],
+  options: AudioProcessOptions,
+  hooks: ProcessHooks = {}
+): Promise<ProcessResult> => {
+  const stems = await decodeStems(tracks, hooks);
+  return (await streamMaster(stems, options, hooks)).result;
+};
+
+/**
+ * One master per delivery profile from a single decode of the file (or
+ * stems), each checked against its profile. Profiles render one after
+ * another; aborting rejects with an AbortError.
+ */
+export const processDeliveries = async (
+  source: File | StemTrack[],
+  options: AudioProcessOptions,
+  profiles: DeliveryProfile[],
+  hooks: ProcessHooks = {}
+): Promise<DeliveryResult[]> => {
+  const { signal, onProgress } = hooks;
+  onProgress?.({ stage: 'decode', fraction: 0 });
+  const decoded = Array.isArray(source)
+    ? await decodeStems(source, hooks)
+    : toPcm(await abortable(decodeAudioFile(source), signal));
+
+  const deliveries: DeliveryResult[] = [];
+  for (const [index, profile] of profiles.entries()) {
+    const delivery = { profile: profile.name, format: profile.exportFormat, index, count: profiles.length };
+    const profileHooks = { ...hooks, onProgress: (progress: ProcessProgress) => onProgress?.({ ...progress, delivery }) };
+    const { stats, result } = await streamMaster(decoded, deliveryOptions(options, profile), profileHooks);
+    deliveries.push({ profile, result, ...checkCompliance(profile, stats) });
   }
-  
-  return audioBufferToMp3(renderedBuffer);
+  return deliveries;
 };
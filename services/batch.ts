@@ -0,0 +1,57 @@
+import { AudioProcessOptions, AudioRegion, BatchItem, ExportFormat } from "../types";
+import { createZip, ZipEntry } from "./zip";
+
+export const masterFileName = (sourceName: string, format: ExportFormat, region?: AudioRegion | null) =>
+  `AfriSuno_Enhanced_${sourceName.replace(/\.[^/.]+$/, "")}`
+  + (region ? `_${region.start.toFixed(1)}s-${region.end.toFixed(1)}s` : '')
+  + `.${format}`;
+
+// Two takes can share a file name; suffix the later ones instead of overwriting
+const uniqueName = (name: string, taken: Set<string>) => {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = name.replace(/(\.[^.]+)$/, `_${n}$1`);
+  }
+  taken.add(candidate);
+  return candidate;
+};
+
+/**
+ * Packs every finished master into one ZIP together with `summary.json`,
+ * which lists all items (including failed and cancelled ones), the settings
+ * each was rendered with and its before/after loudness.
+ */
+export const createBatchArchive = async (items: BatchItem[], sharedOptions: AudioProcessOptions): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const taken = new Set<string>(['summary.json']);
+
+  const summary = [];
+  for (const item of items) {
+    const options = item.options ?? sharedOptions;
+    let output: string | undefined;
+    if (item.status === 'done' && item.result) {
+      output = uniqueName(masterFileName(item.file.name, options.exportFormat), taken);
+      entries.push({ name: output, data: new Uint8Array(await item.result.blob.arrayBuffer()) });
+    }
+    summary.push({
+      source: item.file.name,
+      output,
+      status: item.status,
+      error: item.error,
+      settings: {
+        pinned: !!item.options,
+        preset: options.preset,
+        intensity: options.intensity,
+        format: options.exportFormat,
+        bitDepth: options.exportFormat === 'mp3' ? 16 : options.bitDepth ?? 16,
+        sampleRate: options.sampleRate ?? 48000,
+        loudnessTarget: options.loudnessTarget ?? null,
+      },
+      loudness: item.result && { input: item.result.input, output: item.result.output },
+    });
+  }
+
+  const report = { createdAt: new Date().toISOString(), items: summary };
+  entries.unshift({ name: 'summary.json', data: new TextEncoder().encode(JSON.stringify(report, null, 2)) });
+  return createZip(entries);
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { LoudnessStats, MasterStats, MonoReport } from '../types';
+import { checkCompliance, deliveryFileName, deliveryOptions, findDeliveryProfile } from './delivery';
+import { DEFAULT_OPTIONS } from './processingChain';
+
+const loudness = (integrated: number, truePeak: number): LoudnessStats => ({
+  integrated, truePeak, shortTermMax: integrated + 2, momentaryMax: integrated + 4, range: 6, samplePeak: truePeak - 0.3, rms: integrated, duration: 180,
+});
+
+const MONO: MonoReport = { status: 'pass', correlation: 0.8, foldDown: 1.5, hop: 0.4, meter: [], bands: [], warnings: [] };
+
+const master = (integrated: number, truePeak: number, sampleRate: number): MasterStats =>
+  ({ sampleRate, input: loudness(-20, -3), output: loudness(integrated, truePeak), mono: MONO });
+
+const statuses = (stats: MasterStats, id: Parameters<typeof findDeliveryProfile>[0]) =>
+  checkCompliance(findDeliveryProfile(id), stats);
+
+describe('checkCompliance', () => {
+  it('passes a master on target within the tolerance', () => {
+    const { status, checks } = statuses(master(-14.9, -1, 44100), 'spotify');
+    expect(status).toBe('pass');
+    expect(checks.map(check => check.status)).toEqual(['pass', 'pass', 'pass']);
+    expect(checks[0].detail).toBe('-14.9 LUFS (target -14 ±1 LU)');
+  });
+
+  it('holds broadcast to its tighter tolerance', () => {
+    expect(statuses(master(-22.6, -2, 48000), 'saRadio').status).toBe('pass');
+    const { status, checks } = statuses(master(-22.4, -2, 48000), 'saRadio');
+    expect(status).toBe('fail');
+    expect(checks.find(check => check.status === 'fail')?.label).toBe('Loudness');
+  });
+
+  it('fails a peak over the ceiling and a sample rate the profile does not take', () => {
+    const { status, checks } = statuses(master(-16, -0.8, 44100), 'appleMusic');
+    expect(status).toBe('fail');
+    expect(checks.map(check => check.status)).toEqual(['pass', 'fail', 'fail']);
+  });
+});
+
+describe('delivery options', () => {
+  it('pins the target, ceiling and format and keeps the rest of the settings', () => {
+    const options = deliveryOptions({ ...DEFAULT_OPTIONS, enableWarmth: false }, findDeliveryProfile('appleMusic'));
+    expect(options).toMatchObject({
+      loudnessTarget: { lufs: -16, truePeak: -1 },
+      sampleRate: 48000,
+      bitDepth: 24,
+      exportFormat: 'wav',
+      enableWarmth: false,
+    });
+  });
+
+  it('names each file after its profile', () => {
+    expect(deliveryFileName('take.mp3', findDeliveryProfile('spotify'))).toBe('AfriSuno_Enhanced_take_spotify.wav');
+    expect(deliveryFileName('take.mp3', findDeliveryProfile('youtube'), { start: 1, end: 2.25 }))
+      .toBe('AfriSuno_Enhanced_take_1.0s-2.3s_youtube.wav');
+  });
+});
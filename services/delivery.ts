@@ -0,0 +1,84 @@
+import { AudioProcessOptions, AudioRegion, ComplianceCheck, DeliveryProfile, DeliveryProfileId, DeliveryResult, MasterStats, QcStatus } from "../types";
+import { masterFileName } from "./batch";
+import { createZip, ZipEntry } from "./zip";
+
+/**
+ * Per-platform delivery: each profile pins the loudness target, true-peak
+ * ceiling and file format, and every render is checked against its profile.
+ */
+
+export const DELIVERY_PROFILES: DeliveryProfile[] = [
+  { id: 'spotify', name: 'Spotify', lufs: -14, tolerance: 1, truePeak: -1, sampleRate: 44100, bitDepth: 16, exportFormat: 'wav' },
+  // Sound Check plays back around −16 LUFS
+  { id: 'appleMusic', name: 'Apple Music', lufs: -16, tolerance: 1, truePeak: -1, sampleRate: 48000, bitDepth: 24, exportFormat: 'wav' },
+  { id: 'youtube', name: 'YouTube', lufs: -14, tolerance: 1, truePeak: -1, sampleRate: 48000, bitDepth: 24, exportFormat: 'wav' },
+  // Broadcast playout follows EBU R128, which allows ±0.5 LU for file-based delivery
+  { id: 'saRadio', name: 'SA Radio (EBU R128)', lufs: -23, tolerance: 0.5, truePeak: -1, sampleRate: 48000, bitDepth: 24, exportFormat: 'wav' },
+];
+
+export const findDeliveryProfile = (id: DeliveryProfileId) => DELIVERY_PROFILES.find(profile => profile.id === id)!;
+
+/** The mastering options with the profile's target (and so its limiter ceiling) and format applied. */
+export const deliveryOptions = (options: AudioProcessOptions, profile: DeliveryProfile): AudioProcessOptions => ({
+  ...options,
+  loudnessTarget: { lufs: profile.lufs, truePeak: profile.truePeak },
+  sampleRate: profile.sampleRate,
+  bitDepth: profile.bitDepth,
+  exportFormat: profile.exportFormat,
+});
+
+const formatSpec = (profile: DeliveryProfile) =>
+  `${profile.exportFormat.toUpperCase()} · ${profile.bitDepth}-bit · ${profile.sampleRate / 1000} kHz`;
+
+export const describeProfile = (profile: DeliveryProfile) =>
+  `${profile.lufs} LUFS · ${profile.truePeak} dBTP · ${formatSpec(profile)}`;
+
+/**
+ * Loudness, true peak and sample rate of a master against its profile.
+ * Measured on the render before encoding; lossless formats keep the peaks,
+ * MP3 can add a few tenths of a dB.
+ */
+export const checkCompliance = (profile: DeliveryProfile, master: MasterStats): { status: QcStatus; checks: ComplianceCheck[] } => {
+  const { integrated, truePeak } = master.output;
+  const loudnessOff = integrated - profile.lufs;
+  const checks: ComplianceCheck[] = [
+    {
+      label: 'Loudness',
+      status: Math.abs(loudnessOff) <= profile.tolerance ? 'pass' : 'fail',
+      detail: `${integrated.toFixed(1)} LUFS (target ${profile.lufs} ±${profile.tolerance} LU)`,
+    },
+    {
+      label: 'True peak',
+      status: truePeak <= profile.truePeak ? 'pass' : 'fail',
+      detail: `${truePeak.toFixed(1)} dBTP (ceiling ${profile.truePeak} dBTP)`,
+    },
+    {
+      label: 'Format',
+      status: master.sampleRate === profile.sampleRate ? 'pass' : 'fail',
+      detail: formatSpec(profile),
+    },
+  ];
+  return { status: checks.some(check => check.status === 'fail') ? 'fail' : 'pass', checks };
+};
+
+/** `AfriSuno_Enhanced_take_spotify.wav` */
+export const deliveryFileName = (sourceName: string, profile: DeliveryProfile, region?: AudioRegion | null) =>
+  masterFileName(sourceName, profile.exportFormat, region).replace(/(\.[^.]+)$/, `_${profile.id}$1`);
+
+/**
+ * Every profile's master in one ZIP, with `compliance.json` listing each
+ * profile's targets, measurements and check results.
+ */
+export const createDeliveryArchive = async (deliveries: DeliveryResult[], sourceName: string, region?: AudioRegion | null): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const profiles = [];
+  for (const { profile, result, status, checks } of deliveries) {
+    const file = deliveryFileName(sourceName, profile, region);
+    entries.push({ name: file, data: new Uint8Array(await result.blob.arrayBuffer()) });
+    profiles.push({ profile, file, status, checks, loudness: result.output, mono: result.mono.status });
+  }
+
+  const report = { createdAt: new Date().toISOString(), source: sourceName, profiles };
+  entries.unshift({ name: 'compliance.json', data: new TextEncoder().encode(JSON.stringify(report, null, 2)) });
+  return createZip(entries);
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { runScan, runScanInSlices, Scan } from './dsp';
+
+// Sums 0..count-1, spinning long enough per step that a run needs several slices
+const slowSum = function* (count: number): Scan<number> {
+  let sum = 0;
+  for (let i = 0; i < count; i++) {
+    const until = performance.now() + 1;
+    while (performance.now() < until);
+    sum += i;
+    yield;
+  }
+  return sum;
+};
+
+describe('sliced scans', () => {
+  it('give the same result as running straight through', async () => {
+    expect(await runScanInSlices(slowSum(40))).toBe(runScan(slowSum(40)));
+  });
+
+  it('let other work run between slices', async () => {
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 0);
+    await runScanInSlices(slowSum(40));
+    clearInterval(timer);
+    expect(ticks).toBeGreaterThan(0);
+  });
+
+  it('stop with an AbortError once aborted', async () => {
+    const controller = new AbortController();
+    const run = runScanInSlices(slowSum(1000), controller.signal);
+    controller.abort();
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
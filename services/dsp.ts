@@ -0,0 +1,179 @@
+/**
+ * Small DSP helpers shared by the offline analysers.
+ */
+
+/**
+ * In-place iterative radix-2 FFT. `re.length` must be a power of two.
+ */
+export const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (-2 * Math.PI) / size;
+    const wr = Math.cos(step);
+    const wi = Math.sin(step);
+    for (let start = 0; start < n; start += size) {
+      let cr = 1;
+      let ci = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+        const nr = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = nr;
+      }
+    }
+  }
+};
+
+export const hannWindow = (size: number) => {
+  const w = new Float64Array(size);
+  for (let i = 0; i < size; i++) w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  return w;
+};
+
+/**
+ * Average of all channels, for analyses that don't care about stereo.
+ */
+export const mixToMono = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+};
+
+/**
+ * Average of all channels over `out.length` frames from `offset`, silence
+ * past the end. Frame-by-frame analyses use it instead of a full-length
+ * mono copy.
+ */
+export const mixFrameToMono = (channels: Float32Array[], offset: number, out: Float32Array) => {
+  out.fill(0);
+  const end = Math.min(channels[0].length, offset + out.length);
+  for (const channel of channels) {
+    for (let i = offset; i < end; i++) out[i - offset] += channel[i] / channels.length;
+  }
+  return out;
+};
+
+/**
+ * Windowed power spectrum of `signal[offset .. offset + size)`, linear
+ * (size / 2 + 1 bins). Samples past the end are treated as silence.
+ * The real input is packed into a half-size complex FFT.
+ */
+export const createPowerSpectrum = (size: number) => {
+  const half = size / 2;
+  const window = hannWindow(size);
+  // Hann coherent gain is 0.5, so a full-scale sine reads 1.0 (0 dB)
+  const norm = Math.pow(2 / (size * 0.5), 2);
+  const re = new Float64Array(half);
+  const im = new Float64Array(half);
+  const cos = Float64Array.from({ length: half + 1 }, (_, k) => Math.cos((2 * Math.PI * k) / size));
+  const sin = Float64Array.from({ length: half + 1 }, (_, k) => Math.sin((2 * Math.PI * k) / size));
+
+  return (signal: Float32Array, offset: number, out: Float64Array) => {
+    for (let i = 0; i < half; i++) {
+      const a = offset + 2 * i;
+      re[i] = a < signal.length ? signal[a] * window[2 * i] : 0;
+      im[i] = a + 1 < signal.length ? signal[a + 1] * window[2 * i + 1] : 0;
+    }
+    fft(re, im);
+    for (let k = 0; k <= half; k++) {
+      // Split the packed result into the even/odd sample spectra and recombine
+      const zr = re[k % half], zi = im[k % half];
+      const cr = re[(half - k) % half], ci = -im[(half - k) % half];
+      const er = (zr + cr) / 2, ei = (zi + ci) / 2;
+      const or = (zi - ci) / 2, oi = -(zr - cr) / 2;
+      const xr = er + cos[k] * or + sin[k] * oi;
+      const xi = ei + cos[k] * oi - sin[k] * or;
+      out[k] = (xr * xr + xi * xi) * norm;
+    }
+    return out;
+  };
+};
+
+export const powerToDb = (power: number) => 10 * Math.log10(power + 1e-20);
+
+/**
+ * Magnitude (dB) of an RBJ peaking biquad at `frequency`; the same design
+ * BiquadFilterNode uses, so plots match what the chain does.
+ */
+export const peakingResponseDb = (frequency: number, centre: number, Q: number, gainDb: number, sampleRate: number) => {
+  const A = Math.pow(10, gainDb / 40);
+  const w0 = (2 * Math.PI * centre) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * Q);
+  const cosw0 = Math.cos(w0);
+  const b0 = 1 + alpha * A, b1 = -2 * cosw0, b2 = 1 - alpha * A;
+  const a0 = 1 + alpha / A, a1 = -2 * cosw0, a2 = 1 - alpha / A;
+
+  const w = (2 * Math.PI * frequency) / sampleRate;
+  const c1 = Math.cos(w), s1 = Math.sin(w), c2 = Math.cos(2 * w), s2 = Math.sin(2 * w);
+  const numRe = b0 + b1 * c1 + b2 * c2, numIm = -(b1 * s1 + b2 * s2);
+  const denRe = a0 + a1 * c1 + a2 * c2, denIm = -(a1 * s1 + a2 * s2);
+  return 10 * Math.log10((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+};
+
+// --- SLICED SCANS ---
+
+/**
+ * A whole-file analysis written as a generator that yields every so often,
+ * so it can run straight through or a slice at a time.
+ */
+export type Scan<T> = Generator<void, T, undefined>;
+
+// Samples between yields in sample-by-sample loops
+export const SCAN_STRIDE = 65536;
+
+// Longest a slice holds the page before handing it back
+const SLICE_MS = 10;
+
+export const runScan = <T>(scan: Scan<T>): T => {
+  for (;;) {
+    const step = scan.next();
+    if (step.done) return step.value;
+  }
+};
+
+/**
+ * Runs a scan a slice at a time between other work, so analysing a long
+ * file never freezes the page. Aborting stops it at the next slice and
+ * rejects with an AbortError.
+ */
+export const runScanInSlices = <T>(scan: Scan<T>, signal?: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const slice = () => {
+      if (signal?.aborted) return reject(new DOMException('Analysis was cancelled.', 'AbortError'));
+      try {
+        const until = performance.now() + SLICE_MS;
+        for (;;) {
+          const step = scan.next();
+          if (step.done) return resolve(step.value);
+          if (performance.now() >= until) break;
+        }
+      } catch (error) {
+        return reject(error);
+      }
+      setTimeout(slice, 0);
+    };
+    slice();
+  });
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { EdgePlan } from '../types';
+import { applyFades, applySourceFadeOut } from './edges';
+
+const SAMPLE_RATE = 1000;
+
+const plan: EdgePlan = {
+  start: 1,
+  end: 5,
+  fadeIn: 0,
+  fadeOut: 1,
+  fadeInCurve: 'linear',
+  fadeOutCurve: 'linear',
+  abruptStart: false,
+  abruptEnd: false,
+};
+
+describe('fades with an effect tail', () => {
+  it('fade the source out by the region end', () => {
+    const source = new Float32Array(6 * SAMPLE_RATE).fill(1);
+    applySourceFadeOut([source], plan, 0, SAMPLE_RATE);
+    expect(source[4 * SAMPLE_RATE]).toBe(1);
+    expect(source[4.5 * SAMPLE_RATE]).toBeCloseTo(0.5, 6);
+    expect(source[5 * SAMPLE_RATE]).toBe(0);
+  });
+
+  it('leave the render alone until the tail ends in a fade of its own', () => {
+    const render = new Float32Array(7 * SAMPLE_RATE).fill(1);
+    applyFades([render], plan, 0, SAMPLE_RATE, 3);
+    expect(render[4.5 * SAMPLE_RATE]).toBe(1);
+    expect(render[6 * SAMPLE_RATE]).toBe(1);
+    expect(render[6.5 * SAMPLE_RATE]).toBeCloseTo(0.5, 6);
+    expect(render[7 * SAMPLE_RATE - 1]).toBeCloseTo(0.001, 6);
+  });
+
+  it('fade blocks exactly like the whole render', () => {
+    const whole = new Float32Array(7 * SAMPLE_RATE).fill(1);
+    applyFades([whole], plan, 0, SAMPLE_RATE, 3);
+    const blocks = [0, 2500, 5000].map(first => {
+      const block = new Float32Array(Math.min(2500, whole.length - first)).fill(1);
+      applyFades([block], plan, first, SAMPLE_RATE, 3);
+      return block;
+    });
+    expect(Array.from(blocks.flatMap(block => Array.from(block)))).toEqual(Array.from(whole));
+  });
+});
@@ -0,0 +1,240 @@
+import { AudioProcessOptions, AudioRegion, EdgePlan, EdgeSettings, FadeCurve } from "../types";
+import { Scan, SCAN_STRIDE } from "./dsp";
+
+/**
+ * Start/end handling for renders: leading/trailing silence detection, trim
+ * points and fade shapes.
+ */
+
+// The level of the first/last stretch is compared against the gated body level
+const EDGE_SECONDS = 0.2;
+const BODY_BLOCK_SECONDS = 0.4;
+const BODY_GATE_DB = -50;
+// An edge this close to the average level starts or stops mid-note
+export const ABRUPT_EDGE_DB = -20;
+// Kept around the audible range so trimming never clips an attack or a tail
+const TRIM_PRE_ROLL = 0.01;
+const TRIM_POST_ROLL = 0.05;
+// Floor of the exponential curve; the first/last point is still exactly zero
+const EXPONENTIAL_FLOOR_DB = -60;
+// Keeps the fade-in and fade-out from touching
+const FADE_GAP = 0.001;
+// Region cuts move to a zero crossing this close by and get a short crossfade
+const ZERO_CROSSING_SEARCH = 0.005;
+const REGION_CROSSFADE = 0.005;
+const MIN_REGION_SECONDS = 0.1;
+
+// Fixed linear 0.8 s / 3.0 s fades and no trimming; trimming and auto fades are opt-in
+export const DEFAULT_EDGES: EdgeSettings = {
+  trimSilence: false,
+  silenceThreshold: -60,
+  fadeMode: 'always',
+  fadeIn: 0.8,
+  fadeOut: 3.0,
+  fadeInCurve: 'linear',
+  fadeOutCurve: 'linear',
+};
+
+/** Edge settings for the options; until the edges panel sets them, `enableFades` switches the default fades. */
+export const resolveEdges = (options: AudioProcessOptions): EdgeSettings =>
+  options.edges ?? { ...DEFAULT_EDGES, fadeMode: options.enableFades ? 'always' : 'off' };
+
+/**
+ * First and last frame (exclusive) where any channel is above `thresholdDb`.
+ * An all-silent file gives an empty range at 0.
+ */
+export const scanAudibleRange = function* (channels: Float32Array[], thresholdDb: number): Scan<{ start: number; end: number }> {
+  const level = Math.pow(10, thresholdDb / 20);
+  const length = channels[0].length;
+  const audibleAt = (i: number) => channels.some(channel => Math.abs(channel[i]) > level);
+  let start = 0;
+  while (start < length && !audibleAt(start)) {
+    if (++start % SCAN_STRIDE === 0) yield;
+  }
+  let end = length;
+  while (end > start && !audibleAt(end - 1)) {
+    if (--end % SCAN_STRIDE === 0) yield;
+  }
+  return { start, end };
+};
+
+const meanSquare = (channels: Float32Array[], from: number, to: number) => {
+  let sum = 0;
+  for (const channel of channels) {
+    for (let i = from; i < to; i++) sum += channel[i] * channel[i];
+  }
+  return sum / (channels.length * Math.max(1, to - from));
+};
+
+export interface EdgeLevels {
+  head: number;
+  tail: number;
+  edgeSeconds: number;
+}
+
+/**
+ * Level (dB) of the first and last EDGE_SECONDS of `start..end` relative to
+ * the programme's average, gated like a loudness meter so breaks don't drag
+ * the average down. Null when the range is too quiet to judge.
+ */
+export const scanEdgeLevels = function* (channels: Float32Array[], sampleRate: number, start: number, end: number): Scan<EdgeLevels | null> {
+  const block = Math.round(BODY_BLOCK_SECONDS * sampleRate);
+  let bodyEnergy = 0;
+  let bodyBlocks = 0;
+  for (let from = start; from + block <= end; from += block) {
+    yield;
+    const energy = meanSquare(channels, from, from + block);
+    if (10 * Math.log10(energy + 1e-20) < BODY_GATE_DB) continue;
+    bodyEnergy += energy;
+    bodyBlocks++;
+  }
+  if (bodyBlocks === 0) return null;
+
+  const body = bodyEnergy / bodyBlocks;
+  const edge = Math.min(end - start, Math.round(EDGE_SECONDS * sampleRate));
+  const relative = (from: number, to: number) => 10 * Math.log10((meanSquare(channels, from, to) + 1e-20) / body);
+  return { head: relative(start, start + edge), tail: relative(end - edge, end), edgeSeconds: edge / sampleRate };
+};
+
+/**
+ * Where the render starts and stops (seconds into the source) and how long
+ * each fade is. In auto mode an edge is only faded when it is abrupt.
+ */
+export const scanEdges = function* (channels: Float32Array[], sampleRate: number, settings: EdgeSettings): Scan<EdgePlan> {
+  const length = channels[0].length;
+  const audible = yield* scanAudibleRange(channels, settings.silenceThreshold);
+  const hasAudio = audible.end > audible.start;
+
+  let start = 0;
+  let end = length;
+  if (settings.trimSilence && hasAudio) {
+    start = Math.max(0, audible.start - Math.round(TRIM_PRE_ROLL * sampleRate));
+    end = Math.min(length, audible.end + Math.round(TRIM_POST_ROLL * sampleRate));
+  }
+
+  const levels = hasAudio ? yield* scanEdgeLevels(channels, sampleRate, audible.start, audible.end) : null;
+  // Songs often open on a downbeat, so a loud start only counts as a cut when the file begins mid-sound
+  const abruptStart = !!levels && levels.head > ABRUPT_EDGE_DB && audible.start < TRIM_PRE_ROLL * sampleRate;
+  const abruptEnd = !!levels && levels.tail > ABRUPT_EDGE_DB;
+  const fade = (seconds: number, abrupt: boolean) =>
+    settings.fadeMode === 'always' || (settings.fadeMode === 'auto' && abrupt) ? seconds : 0;
+
+  // Fades can't overlap each other
+  const longest = Math.max(0, (end - start) / sampleRate / 2 - FADE_GAP);
+  const fadeIn = Math.min(fade(settings.fadeIn, abruptStart), longest);
+  const fadeOut = Math.min(fade(settings.fadeOut, abruptEnd), longest);
+
+  return {
+    start: start / sampleRate,
+    end: end / sampleRate,
+    fadeIn,
+    fadeOut,
+    fadeInCurve: settings.fadeInCurve,
+    fadeOutCurve: settings.fadeOutCurve,
+    abruptStart,
+    abruptEnd,
+  };
+};
+
+/**
+ * Nearest frame to `frame` where the channel sum changes sign, or `frame`
+ * itself when there is none within ZERO_CROSSING_SEARCH.
+ */
+const nearestZeroCrossing = (channels: Float32Array[], frame: number, sampleRate: number) => {
+  const length = channels[0].length;
+  const valueAt = (i: number) => channels.reduce((sum, channel) => sum + channel[i], 0);
+  const crossesAt = (i: number) => i > 0 && i < length && (valueAt(i - 1) < 0) !== (valueAt(i) < 0);
+  const radius = Math.round(ZERO_CROSSING_SEARCH * sampleRate);
+  for (let d = 0; d <= radius; d++) {
+    if (crossesAt(frame - d)) return frame - d;
+    if (crossesAt(frame + d)) return frame + d;
+  }
+  return frame;
+};
+
+/**
+ * Plan for rendering a hand-picked region: cut points snapped to zero
+ * crossings, with short crossfades to silence so the edges never click.
+ * Silence trimming and the regular fades don't apply.
+ */
+export const planRegion = (channels: Float32Array[], sampleRate: number, region: AudioRegion): EdgePlan => {
+  const length = channels[0].length;
+  const clamp = (seconds: number) => Math.max(0, Math.min(length, Math.round(seconds * sampleRate)));
+  const start = nearestZeroCrossing(channels, clamp(region.start), sampleRate);
+  const end = Math.max(
+    Math.min(length, start + Math.round(MIN_REGION_SECONDS * sampleRate)),
+    nearestZeroCrossing(channels, clamp(region.end), sampleRate)
+  );
+  const crossfade = Math.min(REGION_CROSSFADE, (end - start) / sampleRate / 2 - FADE_GAP);
+  return {
+    start: start / sampleRate,
+    end: end / sampleRate,
+    fadeIn: crossfade,
+    fadeOut: crossfade,
+    fadeInCurve: 'sCurve',
+    fadeOutCurve: 'sCurve',
+    abruptStart: false,
+    abruptEnd: false,
+  };
+};
+
+const CURVES: Record<FadeCurve, (x: number) => number> = {
+  linear: x => x,
+  exponential: x => (x <= 0 ? 0 : Math.pow(10, (EXPONENTIAL_FLOOR_DB * (1 - x)) / 20)),
+  equalPower: x => Math.sin((x * Math.PI) / 2),
+  sCurve: x => 0.5 - 0.5 * Math.cos(x * Math.PI),
+};
+
+// The ring-out past the region ends in a fade of its own, as long as this at most
+const TAIL_FADE_SECONDS = 1;
+
+interface Fade {
+  start: number; // Seconds, on the same clock as the frames it is applied to
+  seconds: number;
+  shape: FadeCurve;
+  rising: boolean;
+}
+
+// `channels` start `first` frames in; a fade-out holds at silence to the end
+const applyFadeList = (channels: Float32Array[], fades: Fade[], first: number, sampleRate: number) => {
+  const length = channels[0].length;
+  for (const { seconds, start, shape, rising } of fades) {
+    if (seconds <= 0) continue;
+    const from = Math.max(0, Math.ceil(start * sampleRate) - first);
+    const to = rising ? Math.min(length, Math.ceil((start + seconds) * sampleRate) - first) : length;
+    for (let i = from; i < to; i++) {
+      const x = Math.min(1, ((first + i) / sampleRate - start) / seconds);
+      const gain = CURVES[shape](rising ? x : 1 - x);
+      for (const channel of channels) channel[i] *= gain;
+    }
+  }
+};
+
+/**
+ * Fades a stretch of the rendered region that starts `first` frames in.
+ * Applied to the rendered samples rather than automated in the graph, so a
+ * region rendered in blocks fades exactly like one rendered whole. When
+ * the render runs `tail` seconds past the region for effect tails, the
+ * region's fade-out is left to `applySourceFadeOut` and the tail gets a
+ * short fade of its own instead.
+ */
+export const applyFades = (channels: Float32Array[], plan: EdgePlan, first: number, sampleRate: number, tail = 0) => {
+  const region = plan.end - plan.start;
+  const tailFade = Math.min(TAIL_FADE_SECONDS, tail);
+  applyFadeList(channels, [
+    { start: 0, seconds: plan.fadeIn, shape: plan.fadeInCurve, rising: true },
+    tail > 0
+      ? { start: region + tail - tailFade, seconds: tailFade, shape: plan.fadeOutCurve, rising: false }
+      : { start: region - plan.fadeOut, seconds: plan.fadeOut, shape: plan.fadeOutCurve, rising: false },
+  ], first, sampleRate);
+};
+
+/**
+ * The region's fade-out on the source itself, for renders with an effect
+ * tail: the source stops cleanly at the region end and the effects ring
+ * out after it. `channels` start `first` frames into the source.
+ */
+export const applySourceFadeOut = (channels: Float32Array[], plan: EdgePlan, first: number, sampleRate: number) =>
+  applyFadeList(channels, [
+    { start: plan.end - plan.fadeOut, seconds: plan.fadeOut, shape: plan.fadeOutCurve, rising: false },
+  ], first, sampleRate);
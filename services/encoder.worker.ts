@@ -0,0 +1,45 @@
+import { TrackMetadata } from "../types";
+import { createMasterEncoder, ExportSettings, StreamEncoder } from "./encoders";
+
+/**
+ * Runs the export encoders off the main thread. The master arrives block by
+ * block as transferables while it is still rendering; every block is
+ * acknowledged once encoded, so the sender can hold back and only a couple
+ * of blocks are ever queued. The finished file goes back as a Blob.
+ */
+
+export type EncodeRequest =
+  | { type: 'start'; sampleRate: number; settings: ExportSettings; metadata?: TrackMetadata }
+  | { type: 'write'; channels: Float32Array[] }
+  | { type: 'finish' };
+
+export type EncodeResponse =
+  | { type: 'written'; frames: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+const post = (message: EncodeResponse) => self.postMessage(message);
+
+let encoder: StreamEncoder | null = null;
+
+self.onmessage = (e: MessageEvent<EncodeRequest>) => {
+  const request = e.data;
+  try {
+    switch (request.type) {
+      case 'start':
+        encoder = createMasterEncoder(request.sampleRate, request.settings, request.metadata);
+        break;
+      case 'write':
+        encoder!.write(request.channels);
+        post({ type: 'written', frames: request.channels[0].length });
+        break;
+      case 'finish':
+        post({ type: 'done', blob: encoder!.finish() });
+        encoder = null;
+        break;
+    }
+  } catch (err) {
+    encoder = null;
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { createMasterEncoder, createQuantizer, createWavEncoder, encodeMaster } from './encoders';
+import { createWavChunks } from './metadata';
+
+const SAMPLE_RATE = 48000;
+
+const ramp = (length: number) => Float32Array.from({ length }, (_, i) => (i / length) * 2 - 1);
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+const text = (bytes: Uint8Array, offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// Top-level RIFF chunks by id, each with the offset of its data
+const readRiff = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer);
+  const chunks = new Map<string, { offset: number; size: number }>();
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.set(text(bytes, offset, 4), { offset: offset + 8, size });
+    offset += 8 + size + (size % 2);
+  }
+  return { view, riffSize: view.getUint32(4, true), chunks };
+};
+
+describe('WAV encoder', () => {
+  it('writes plain PCM for 16-bit', async () => {
+    const encoder = createWavEncoder(SAMPLE_RATE, { bitDepth: 16, dither: 'none' });
+    encoder.write([Float32Array.of(0.5, -0.5), Float32Array.of(0, 1)]);
+    const bytes = await bytesOf(encoder.finish());
+    const { view, riffSize, chunks } = readRiff(bytes);
+
+    expect(text(bytes, 0, 4) + text(bytes, 8, 4)).toBe('RIFFWAVE');
+    expect(riffSize).toBe(bytes.length - 8);
+    const fmt = chunks.get('fmt ')!;
+    expect(fmt.size).toBe(16);
+    expect(view.getUint16(fmt.offset, true)).toBe(1);
+    const data = chunks.get('data')!;
+    expect(data.size).toBe(8);
+    expect([0, 2, 4, 6].map(i => view.getInt16(data.offset + i, true))).toEqual([16384, 0, -16384, 32767]);
+  });
+
+  it('writes 24-bit as WAVE_FORMAT_EXTENSIBLE and pads odd-sized data', async () => {
+    const encoder = createWavEncoder(SAMPLE_RATE, { bitDepth: 24, dither: 'none' });
+    encoder.write([Float32Array.of(0.5, -0.5, 0)]);
+    const bytes = await bytesOf(encoder.finish());
+    const { view, riffSize, chunks } = readRiff(bytes);
+
+    expect(bytes.length % 2).toBe(0);
+    expect(riffSize).toBe(bytes.length - 8);
+    const fmt = chunks.get('fmt ')!;
+    expect(fmt.size).toBe(40);
+    expect(view.getUint16(fmt.offset, true)).toBe(0xfffe);
+    expect(view.getUint16(fmt.offset + 18, true)).toBe(24); // Valid bits
+    expect(view.getUint32(fmt.offset + 20, true)).toBe(0x4); // Front centre
+    expect(view.getUint16(fmt.offset + 24, true)).toBe(1); // PCM sub-format
+    const data = chunks.get('data')!;
+    expect(data.size).toBe(9);
+    expect(Array.from(bytes.subarray(data.offset, data.offset + 9))).toEqual([0, 0, 0x40, 0, 0, 0xc0, 0, 0, 0]);
+    expect(bytes[data.offset + 9]).toBe(0);
+  });
+
+  it('writes 32-bit float as WAVE_FORMAT_EXTENSIBLE with a fact chunk', async () => {
+    const left = ramp(5);
+    const right = ramp(5).reverse();
+    const encoder = createWavEncoder(SAMPLE_RATE, { bitDepth: 32, dither: 'tpdf' });
+    encoder.write([left, right]);
+    const { view, riffSize, chunks } = readRiff(await bytesOf(encoder.finish()));
+
+    const fmt = chunks.get('fmt ')!;
+    expect(view.getUint16(fmt.offset, true)).toBe(0xfffe);
+    expect(view.getUint32(fmt.offset + 20, true)).toBe(0x3); // Front left and right
+    expect(view.getUint16(fmt.offset + 24, true)).toBe(3); // IEEE float sub-format
+    expect(view.getUint32(chunks.get('fact')!.offset, true)).toBe(5);
+    const data = chunks.get('data')!;
+    expect(riffSize).toBe(data.offset + data.size - 8);
+    for (let i = 0; i < 5; i++) {
+      expect(view.getFloat32(data.offset + i * 8, true)).toBe(left[i]);
+      expect(view.getFloat32(data.offset + i * 8 + 4, true)).toBe(right[i]);
+    }
+  });
+
+  it('puts tag chunks between fmt and data', async () => {
+    const chunks = createWavChunks({ title: 'Odd', artist: 'A' });
+    const encoder = createWavEncoder(SAMPLE_RATE, { bitDepth: 16, dither: 'none' }, chunks);
+    encoder.write([ramp(3), ramp(3)]);
+    const bytes = await bytesOf(encoder.finish());
+    const riff = readRiff(bytes);
+
+    expect([...riff.chunks.keys()]).toEqual(['fmt ', 'LIST', 'iXML', 'data']);
+    expect(riff.riffSize).toBe(bytes.length - 8);
+  });
+
+  it('gives the same file for a master fed in one go or in slices', async () => {
+    const long = [ramp(150000), ramp(150000).reverse()];
+    const settings = { exportFormat: 'wav' as const, bitDepth: 16 as const, dither: 'none' as const };
+    const progress: number[] = [];
+    const sliced = encodeMaster(long, SAMPLE_RATE, settings, undefined, fraction => progress.push(fraction));
+    const whole = createMasterEncoder(SAMPLE_RATE, settings);
+    whole.write(long);
+
+    expect(await bytesOf(sliced)).toEqual(await bytesOf(whole.finish()));
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress.every((fraction, i) => fraction < 1 && (i === 0 || fraction > progress[i - 1]))).toBe(true);
+  });
+});
+
+describe('quantizer', () => {
+  it('rounds and clips without dither', () => {
+    const [pcm] = createQuantizer(16, 'none')([Float32Array.of(0.5, -1, 1, 2, 1 / 65536)]);
+    expect(Array.from(pcm)).toEqual([16384, -32768, 32767, 32767, 1]);
+  });
+
+  it('keeps TPDF dither within a couple of steps of the signal', () => {
+    const signal = ramp(10000).map(x => x * 0.5);
+    const [pcm] = createQuantizer(16, 'tpdf')([signal]);
+    const errors = Array.from(pcm, (q, i) => q - signal[i] * 32768);
+    expect(Math.max(...errors.map(Math.abs))).toBeLessThanOrEqual(1.5);
+    expect(Math.abs(errors.reduce((sum, e) => sum + e, 0) / errors.length)).toBeLessThan(0.05);
+  });
+});
+
+describe('MP3 encoder', () => {
+  it('puts the ID3 tag in front of the MPEG frames', async () => {
+    const encoder = createMasterEncoder(SAMPLE_RATE, { exportFormat: 'mp3', dither: 'tpdf' }, { title: 'Take', artist: 'A' });
+    encoder.write([ramp(SAMPLE_RATE), ramp(SAMPLE_RATE)]);
+    const bytes = await bytesOf(encoder.finish());
+
+    expect(text(bytes, 0, 3)).toBe('ID3');
+    const tagEnd = 10 + ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]);
+    expect(bytes[tagEnd]).toBe(0xff);
+    expect(bytes[tagEnd + 1] & 0xe0).toBe(0xe0);
+  });
+});
+
+describe('FLAC encoder', () => {
+  it('describes the stream in STREAMINFO, falling back to 24-bit for float', async () => {
+    const encoder = createMasterEncoder(SAMPLE_RATE, { exportFormat: 'flac', bitDepth: 32, dither: 'none' });
+    encoder.write([ramp(10000), ramp(10000)]);
+    encoder.write([ramp(2345), ramp(2345)]);
+    const bytes = await bytesOf(encoder.finish());
+
+    expect(text(bytes, 0, 4)).toBe('fLaC');
+    expect(bytes[4] & 0x7f).toBe(0); // STREAMINFO
+    const info = bytes.subarray(8);
+    expect((info[10] << 12) | (info[11] << 4) | (info[12] >> 4)).toBe(SAMPLE_RATE);
+    expect(((info[12] >> 1) & 0x7) + 1).toBe(2);
+    expect((((info[12] & 1) << 4) | (info[13] >> 4)) + 1).toBe(24);
+    expect((info[13] & 0xf) * 2 ** 32 + new DataView(info.buffer, info.byteOffset + 14, 4).getUint32(0)).toBe(12345);
+  });
+});
@@ -0,0 +1,287 @@
+import { AudioProcessOptions, BitDepth, DitherMode, TrackMetadata } from "../types";
+import { createFlacStream, FlacMetadataBlock } from "./flacEncoder";
+import { createId3Tag, createWavChunks, createVorbisComment } from "./metadata";
+// @ts-ignore
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+// The part of lamejs's Mp3Encoder used here; mono input leaves `right` out
+interface LameMp3Encoder {
+  encodeBuffer: (left: Int16Array, right?: Int16Array) => Int8Array;
+  flush: () => Int8Array;
+}
+
+/**
+ * Export encoders. Everything here works on plain Float32Array channels so it
+ * doesn't depend on Web Audio.
+ */
+
+export interface PcmFormat {
+  bitDepth: BitDepth;
+  dither: DitherMode;
+}
+
+export type EncodeProgress = (fraction: number) => void;
+
+// Slice (in sample frames) a one-shot encode is fed in; progress is reported per slice
+const PROGRESS_INTERVAL = 1 << 16;
+
+// Lipshitz 5-tap E-weighted error filter (psychoacoustic noise shaping)
+const SHAPING_COEFFS = [2.033, -2.165, 1.959, -1.590, 0.6149];
+
+const tpdf = () => Math.random() - Math.random();
+
+/**
+ * Float to signed integer PCM, with optional TPDF dither and noise-shaped
+ * error feedback. Without dither this is plain rounding. Each channel's
+ * error history carries over from one block to the next.
+ */
+export const createQuantizer = (bitDepth: 16 | 24, dither: DitherMode) => {
+  const scale = Math.pow(2, bitDepth - 1);
+  const max = scale - 1;
+  const min = -scale;
+  const history: Float64Array[] = [];
+
+  return (channels: Float32Array[]): Int32Array[] => channels.map((channel, c) => {
+    const out = new Int32Array(channel.length);
+    const errors = history[c] ?? (history[c] = new Float64Array(SHAPING_COEFFS.length));
+    for (let i = 0; i < channel.length; i++) {
+      let v = channel[i] * scale;
+      if (dither === 'shaped') {
+        for (let k = 0; k < SHAPING_COEFFS.length; k++) v -= SHAPING_COEFFS[k] * errors[k];
+      }
+      const d = dither === 'none' ? 0 : tpdf();
+      let q = Math.round(v + d);
+      q = q > max ? max : q < min ? min : q;
+      out[i] = q;
+      if (dither === 'shaped') {
+        errors.copyWithin(1, 0);
+        // Clamp so a clipped sample can't push the feedback loop unstable
+        errors[0] = Math.max(-1, Math.min(1, q - v));
+      }
+    }
+    return out;
+  });
+};
+
+/**
+ * An export encoder fed the master block by block. Encoded audio is kept as
+ * a list of Blobs, which the browser is free to page out, rather than one
+ * growing buffer. Headers that need the total length are built in `finish`
+ * and put in front.
+ */
+export interface StreamEncoder {
+  // Every block must have the same channel count
+  write: (channels: Float32Array[]) => void;
+  finish: () => Blob;
+}
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+// An extensible file's sub-format GUID is its plain format code followed by these bytes
+const SUBFORMAT_GUID_TAIL = [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+
+// Speaker positions: front centre for mono, front left/right for stereo
+const channelMask = (numChannels: number) => (numChannels === 1 ? 0x4 : numChannels === 2 ? 0x3 : 0);
+
+// Everything in front of the sample data, for `dataLength` frames
+const createWavHeader = (dataLength: number, numChannels: number, sampleRate: number, bitDepth: BitDepth, chunks: Uint8Array[]) => {
+  const isFloat = bitDepth === 32;
+  const format = isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+  // Beyond 16-bit, distributors' validators expect WAVE_FORMAT_EXTENSIBLE
+  const extensible = bitDepth > 16;
+  const blockAlign = numChannels * (bitDepth / 8);
+  const dataBytes = dataLength * blockAlign;
+
+  // Float isn't PCM, so it also carries a fact chunk
+  const fmtSize = extensible ? 40 : 16;
+  const factSize = isFloat ? 12 : 0;
+  const chunkBytes = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const headerSize = 12 + (8 + fmtSize) + factSize + chunkBytes + 8;
+
+  const arrayBuffer = new ArrayBuffer(headerSize);
+  const view = new DataView(arrayBuffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, headerSize - 8 + dataBytes + (dataBytes % 2), true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, fmtSize, true);
+  view.setUint16(20, extensible ? WAVE_FORMAT_EXTENSIBLE : format, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  let offset = 36;
+  if (extensible) {
+    view.setUint16(36, 22, true); // Extension size
+    view.setUint16(38, bitDepth, true); // Valid bits per sample
+    view.setUint32(40, channelMask(numChannels), true);
+    view.setUint16(44, format, true);
+    new Uint8Array(arrayBuffer, 46, SUBFORMAT_GUID_TAIL.length).set(SUBFORMAT_GUID_TAIL);
+    offset = 60;
+  }
+  if (isFloat) {
+    writeString(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, dataLength, true);
+    offset += 12;
+  }
+  for (const chunk of chunks) {
+    new Uint8Array(arrayBuffer, offset, chunk.length).set(chunk);
+    offset += chunk.length;
+  }
+  writeString(view, offset, 'data');
+  view.setUint32(offset + 4, dataBytes, true);
+  return arrayBuffer;
+};
+
+/**
+ * RIFF/WAVE in 16/24-bit integer PCM or 32-bit IEEE float. `chunks` are
+ * complete RIFF chunks (e.g. LIST/INFO) written ahead of the audio data.
+ */
+export const createWavEncoder = (sampleRate: number, format: PcmFormat, chunks: Uint8Array[] = []): StreamEncoder => {
+  const bytesPerSample = format.bitDepth / 8;
+  const quantize = format.bitDepth === 32 ? null : createQuantizer(format.bitDepth, format.dither);
+  const parts: Blob[] = [];
+  let numChannels = 0;
+  let dataLength = 0;
+
+  const write = (channels: Float32Array[]) => {
+    numChannels = channels.length;
+    const length = channels[0].length;
+    const view = new DataView(new ArrayBuffer(length * numChannels * bytesPerSample));
+    let offset = 0;
+
+    if (!quantize) {
+      for (let i = 0; i < length; i++) {
+        for (let c = 0; c < numChannels; c++) {
+          view.setFloat32(offset, channels[c][i], true);
+          offset += 4;
+        }
+      }
+    } else {
+      const pcm = quantize(channels);
+      for (let i = 0; i < length; i++) {
+        for (let c = 0; c < numChannels; c++) {
+          const s = pcm[c][i];
+          if (format.bitDepth === 16) {
+            view.setInt16(offset, s, true);
+          } else {
+            view.setUint8(offset, s & 0xff);
+            view.setUint8(offset + 1, (s >> 8) & 0xff);
+            view.setUint8(offset + 2, (s >> 16) & 0xff);
+          }
+          offset += bytesPerSample;
+        }
+      }
+    }
+
+    parts.push(new Blob([view.buffer]));
+    dataLength += length;
+  };
+
+  // Odd-sized data (24-bit mono, odd frame count) takes the pad byte RIFF requires
+  const finish = () => new Blob([
+    createWavHeader(dataLength, numChannels, sampleRate, format.bitDepth, chunks),
+    ...parts,
+    new Uint8Array((dataLength * numChannels * bytesPerSample) % 2),
+  ], { type: "audio/wav" });
+
+  return { write, finish };
+};
+
+/**
+ * 320 kbps MP3 via lamejs. Input is reduced to 16-bit first, so dither applies.
+ * An ID3 tag, if given, is prepended to the stream.
+ */
+export const createMp3Encoder = (sampleRate: number, dither: DitherMode, id3Tag?: Uint8Array): StreamEncoder => {
+  const kbps = 320;
+  const sampleBlockSize = 1152;
+  const quantize = createQuantizer(16, dither);
+  const mp3Data: BlobPart[] = id3Tag ? [id3Tag] : [];
+  // Created with the first block, once the channel count is known
+  let mp3encoder: LameMp3Encoder | null = null;
+
+  const write = (channels: Float32Array[]) => {
+    const numChannels = Math.min(2, channels.length);
+    mp3encoder ??= new Mp3Encoder(numChannels, sampleRate, kbps);
+    const [leftInt16, rightInt16] = quantize(channels.slice(0, numChannels)).map(channel => Int16Array.from(channel));
+    const length = leftInt16.length;
+
+    const frames: BlobPart[] = [];
+    for (let i = 0; i < length; i += sampleBlockSize) {
+      const leftChunk = leftInt16.subarray(i, i + sampleBlockSize);
+      const rightChunk = rightInt16 ? rightInt16.subarray(i, i + sampleBlockSize) : undefined;
+      const mp3buf = mp3encoder.encodeBuffer(leftChunk, rightChunk);
+      if (mp3buf.length > 0) frames.push(mp3buf);
+    }
+    mp3Data.push(new Blob(frames));
+  };
+
+  const finish = () => {
+    const mp3buf = mp3encoder?.flush();
+    if (mp3buf && mp3buf.length > 0) mp3Data.push(mp3buf);
+    return new Blob(mp3Data, { type: "audio/mp3" });
+  };
+
+  return { write, finish };
+};
+
+/**
+ * Lossless FLAC. FLAC is integer-only, so a float request falls back to 24-bit.
+ */
+export const createFlacEncoder = (sampleRate: number, format: PcmFormat, blocks: FlacMetadataBlock[] = []): StreamEncoder => {
+  const depth = format.bitDepth === 32 ? 24 : format.bitDepth;
+  const quantize = createQuantizer(depth, format.dither);
+  const stream = createFlacStream(sampleRate, depth, blocks);
+  return {
+    write: channels => stream.write(quantize(channels)),
+    finish: stream.finish,
+  };
+};
+
+export type ExportSettings = Pick<AudioProcessOptions, 'exportFormat' | 'bitDepth' | 'dither'>;
+
+/**
+ * Stream encoder for a master in the chosen format, tags included.
+ */
+export const createMasterEncoder = (sampleRate: number, settings: ExportSettings, metadata?: TrackMetadata): StreamEncoder => {
+  const format: PcmFormat = { bitDepth: settings.bitDepth ?? 16, dither: settings.dither ?? 'tpdf' };
+
+  switch (settings.exportFormat) {
+    case 'wav':
+      return createWavEncoder(sampleRate, format, metadata ? createWavChunks(metadata) : []);
+    case 'flac':
+      return createFlacEncoder(sampleRate, format, metadata ? [createVorbisComment(metadata)] : []);
+    default:
+      return createMp3Encoder(sampleRate, format.dither, metadata && createId3Tag(metadata));
+  }
+};
+
+/**
+ * Encodes a whole rendered master in one go, a slice at a time so progress
+ * can be reported.
+ */
+export const encodeMaster = (
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: ExportSettings,
+  metadata?: TrackMetadata,
+  onProgress?: EncodeProgress
+): Blob => {
+  const encoder = createMasterEncoder(sampleRate, settings, metadata);
+  const length = channels[0].length;
+  for (let i = 0; i < length; i += PROGRESS_INTERVAL) {
+    onProgress?.(i / length);
+    encoder.write(channels.map(channel => channel.subarray(i, i + PROGRESS_INTERVAL)));
+  }
+  return encoder.finish();
+};
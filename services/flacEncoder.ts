@@ -0,0 +1,403 @@
+/**
+ * Minimal lossless FLAC encoder: fixed linear predictors (orders 0-4) with
+ * partitioned Rice coding, and mid/side stereo when it saves bits.
+ * Output is a complete .flac stream (fLaC marker, STREAMINFO, frames).
+ */
+
+const BLOCK_SIZE = 4096;
+const MAX_PARTITION_ORDER = 6;
+const MAX_FIXED_ORDER = 4;
+
+// --- BIT WRITER ---
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.bytes.subarray(0, this.length));
+    this.bytes = next;
+  }
+
+  get byteLength() {
+    return this.length;
+  }
+
+  // Writes the low `bits` bits of value, MSB first (bits <= 32)
+  write(value: number, bits: number) {
+    if (bits > 24) {
+      this.write(Math.floor(value / 0x1000000) & ((1 << (bits - 24)) - 1), bits - 24);
+      this.write(value & 0xffffff, 24);
+      return;
+    }
+    this.ensure(4);
+    this.acc = (this.acc << bits) | (value & ((1 << bits) - 1));
+    this.accBits += bits;
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.bytes[this.length++] = (this.acc >>> this.accBits) & 0xff;
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros >= 24) {
+      this.write(0, 24);
+      zeros -= 24;
+    }
+    this.write(1, zeros + 1);
+  }
+
+  writeBytes(data: Uint8Array) {
+    this.alignToByte();
+    this.ensure(data.length);
+    this.bytes.set(data, this.length);
+    this.length += data.length;
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+
+  slice(from: number, to = this.length) {
+    return this.bytes.slice(from, to);
+  }
+
+  view(from: number, to = this.length) {
+    return this.bytes.subarray(from, to);
+  }
+}
+
+// --- CHECKSUMS ---
+
+const CRC8_TABLE = (() => {
+  const table = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let j = 0; j < 8; j++) c = c & 0x80 ? ((c << 1) ^ 0x07) & 0xff : (c << 1) & 0xff;
+    table[i] = c;
+  }
+  return table;
+})();
+
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i << 8;
+    for (let j = 0; j < 8; j++) c = c & 0x8000 ? ((c << 1) ^ 0x8005) & 0xffff : (c << 1) & 0xffff;
+    table[i] = c;
+  }
+  return table;
+})();
+
+const crc8 = (data: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = CRC8_TABLE[crc ^ data[i]];
+  return crc;
+};
+
+const crc16 = (data: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ data[i]];
+  return crc;
+};
+
+// --- RESIDUAL CODING ---
+
+const zigzag = (r: number) => (r >= 0 ? 2 * r : -2 * r - 1);
+
+/**
+ * Fixed polynomial predictor residual; the first `order` samples are warm-up.
+ */
+const fixedResidual = (x: Int32Array, order: number): Int32Array => {
+  const n = x.length;
+  const res = new Int32Array(Math.max(0, n - order));
+  for (let i = order; i < n; i++) {
+    let r: number;
+    switch (order) {
+      case 0: r = x[i]; break;
+      case 1: r = x[i] - x[i - 1]; break;
+      case 2: r = x[i] - 2 * x[i - 1] + x[i - 2]; break;
+      case 3: r = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break;
+      default: r = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+    }
+    res[i - order] = r;
+  }
+  return res;
+};
+
+interface RicePlan {
+  partitionOrder: number;
+  params: number[];
+  wideParams: boolean; // RICE2 (5-bit parameters)
+  bits: number;
+}
+
+const bestRiceParam = (u: Float64Array, start: number, end: number, maxParam: number) => {
+  const count = end - start;
+  if (count === 0) return { param: 0, bits: 0 };
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += u[i];
+  const mean = sum / count;
+  const guess = mean > 1 ? Math.min(maxParam, Math.floor(Math.log2(mean))) : 0;
+
+  let best = { param: guess, bits: Infinity };
+  for (let k = Math.max(0, guess - 1); k <= Math.min(maxParam, guess + 1); k++) {
+    let bits = count * (k + 1);
+    for (let i = start; i < end; i++) bits += Math.floor(u[i] / (1 << k));
+    if (bits < best.bits) best = { param: k, bits };
+  }
+  return best;
+};
+
+const planRice = (residual: Int32Array, blockSize: number, order: number): RicePlan => {
+  const u = new Float64Array(residual.length);
+  let maxU = 0;
+  for (let i = 0; i < residual.length; i++) {
+    u[i] = zigzag(residual[i]);
+    if (u[i] > maxU) maxU = u[i];
+  }
+  const wideParams = maxU >= 1 << 15;
+  const maxParam = wideParams ? 30 : 14;
+  const paramBits = wideParams ? 5 : 4;
+
+  let best: RicePlan | null = null;
+  for (let po = 0; po <= MAX_PARTITION_ORDER; po++) {
+    const partitions = 1 << po;
+    if (blockSize % partitions !== 0) break;
+    const partSize = blockSize / partitions;
+    if (partSize <= order) break;
+
+    const params: number[] = [];
+    let bits = 0;
+    for (let p = 0; p < partitions; p++) {
+      // Partition 0 is shorter by the predictor warm-up
+      const start = p === 0 ? 0 : p * partSize - order;
+      const end = (p + 1) * partSize - order;
+      const choice = bestRiceParam(u, start, end, maxParam);
+      params.push(choice.param);
+      bits += choice.bits + paramBits;
+    }
+    if (!best || bits < best.bits) best = { partitionOrder: po, params, wideParams, bits };
+  }
+  return best!;
+};
+
+// --- SUBFRAMES ---
+
+interface SubframePlan {
+  kind: 'constant' | 'verbatim' | 'fixed';
+  order: number;
+  residual?: Int32Array;
+  rice?: RicePlan;
+  bits: number;
+}
+
+const planSubframe = (x: Int32Array, bps: number): SubframePlan => {
+  const n = x.length;
+  let constant = true;
+  for (let i = 1; i < n && constant; i++) constant = x[i] === x[0];
+  if (constant) return { kind: 'constant', order: 0, bits: bps };
+
+  let best: SubframePlan = { kind: 'verbatim', order: 0, bits: n * bps };
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, n - 1); order++) {
+    const residual = fixedResidual(x, order);
+    const rice = planRice(residual, n, order);
+    const bits = order * bps + 2 + 4 + rice.bits;
+    if (bits < best.bits) best = { kind: 'fixed', order, residual, rice, bits };
+  }
+  return best;
+};
+
+const writeSubframe = (w: BitWriter, x: Int32Array, bps: number, plan: SubframePlan) => {
+  w.write(0, 1);
+  if (plan.kind === 'constant') {
+    w.write(0, 6);
+    w.write(0, 1);
+    w.write(x[0], bps);
+    return;
+  }
+  if (plan.kind === 'verbatim') {
+    w.write(1, 6);
+    w.write(0, 1);
+    for (let i = 0; i < x.length; i++) w.write(x[i], bps);
+    return;
+  }
+
+  w.write(8 | plan.order, 6);
+  w.write(0, 1);
+  for (let i = 0; i < plan.order; i++) w.write(x[i], bps);
+
+  const rice = plan.rice!;
+  const residual = plan.residual!;
+  w.write(rice.wideParams ? 1 : 0, 2);
+  w.write(rice.partitionOrder, 4);
+  const partSize = x.length >> rice.partitionOrder;
+  let idx = 0;
+  rice.params.forEach((k, p) => {
+    w.write(k, rice.wideParams ? 5 : 4);
+    const count = p === 0 ? partSize - plan.order : partSize;
+    for (let i = 0; i < count; i++, idx++) {
+      const u = zigzag(residual[idx]);
+      w.writeUnary(Math.floor(u / (1 << k)));
+      if (k > 0) w.write(u % (1 << k), k);
+    }
+  });
+};
+
+// --- FRAMES ---
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001, 176400: 0b0010, 192000: 0b0011, 8000: 0b0100, 16000: 0b0101,
+  22050: 0b0110, 24000: 0b0111, 32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011,
+};
+const SAMPLE_SIZE_CODES: Record<number, number> = { 8: 0b001, 12: 0b010, 16: 0b100, 20: 0b101, 24: 0b110 };
+
+// Frame numbers are coded like UTF-8 code points (up to 36 bits, 7 bytes)
+const writeUtf8Number = (w: BitWriter, value: number) => {
+  if (value < 0x80) {
+    w.write(value, 8);
+    return;
+  }
+  let count = 2;
+  while (count < 7 && value >= Math.pow(2, 5 * count + 1)) count++;
+  const continuation: number[] = [];
+  let v = value;
+  for (let i = 1; i < count; i++) {
+    continuation.unshift(0x80 | (v & 0x3f));
+    v = Math.floor(v / 64);
+  }
+  w.write(((0xff << (8 - count)) & 0xff) | v, 8);
+  continuation.forEach(b => w.write(b, 8));
+};
+
+const writeFrame = (w: BitWriter, frameNumber: number, block: Int32Array[], sampleRate: number, bps: number) => {
+  const n = block[0].length;
+  const start = w.byteLength;
+
+  // Pick independent or mid/side coding for stereo
+  let channelCode = block.length - 1;
+  let subframes = block.map(x => ({ x, bps, plan: planSubframe(x, bps) }));
+  if (block.length === 2) {
+    const mid = new Int32Array(n);
+    const side = new Int32Array(n);
+    for (let i = 0; i < n; i++) {
+      mid[i] = (block[0][i] + block[1][i]) >> 1;
+      side[i] = block[0][i] - block[1][i];
+    }
+    const ms = [
+      { x: mid, bps, plan: planSubframe(mid, bps) },
+      { x: side, bps: bps + 1, plan: planSubframe(side, bps + 1) },
+    ];
+    const msBits = ms[0].plan.bits + ms[1].plan.bits;
+    if (msBits < subframes[0].plan.bits + subframes[1].plan.bits) {
+      subframes = ms;
+      channelCode = 0b1010;
+    }
+  }
+
+  const blockCode = n === BLOCK_SIZE ? 0b1100 : 0b0111;
+  const rateCode = SAMPLE_RATE_CODES[sampleRate] ?? 0;
+
+  w.write(0b11111111111110, 14);
+  w.write(0, 1);
+  w.write(0, 1); // fixed block size stream
+  w.write(blockCode, 4);
+  w.write(rateCode, 4);
+  w.write(channelCode, 4);
+  w.write(SAMPLE_SIZE_CODES[bps], 3);
+  w.write(0, 1);
+  writeUtf8Number(w, frameNumber);
+  if (blockCode === 0b0111) w.write(n - 1, 16);
+  w.write(crc8(w.view(start)), 8);
+
+  subframes.forEach(sf => writeSubframe(w, sf.x, sf.bps, sf.plan));
+
+  w.alignToByte();
+  w.write(crc16(w.view(start)), 16);
+};
+
+export interface FlacMetadataBlock {
+  type: number;
+  data: Uint8Array;
+}
+
+/**
+ * Encodes integer PCM (already quantised to `bitDepth`) into a FLAC stream,
+ * fed block by block. Frames are cut every BLOCK_SIZE samples, with the
+ * remainder held for the next write; STREAMINFO needs the total length, so
+ * the header is only written in `finish`. Extra metadata blocks (e.g.
+ * VORBIS_COMMENT) go after STREAMINFO.
+ */
+export const createFlacStream = (sampleRate: number, bitDepth: 16 | 24, metadata: FlacMetadataBlock[] = []) => {
+  const frames: Blob[] = [];
+  let pending: Int32Array[] = [];
+  let numChannels = 0;
+  let totalSamples = 0;
+  let frameNumber = 0;
+
+  // Writes every full frame (and with `final`, the short last one); returns what is left
+  const writeFrames = (pcm: Int32Array[], final: boolean) => {
+    const w = new BitWriter();
+    const length = pcm[0].length;
+    let offset = 0;
+    for (; offset + BLOCK_SIZE <= length || (final && offset < length); offset += BLOCK_SIZE) {
+      const block = pcm.map(ch => ch.subarray(offset, Math.min(length, offset + BLOCK_SIZE)));
+      writeFrame(w, frameNumber++, block, sampleRate, bitDepth);
+    }
+    if (w.byteLength > 0) frames.push(new Blob([w.slice(0)]));
+    return pcm.map(ch => ch.slice(offset));
+  };
+
+  const write = (pcm: Int32Array[]) => {
+    numChannels = pcm.length;
+    totalSamples += pcm[0].length;
+    const joined = pending.length === 0 ? pcm : pcm.map((ch, c) => {
+      const out = new Int32Array(pending[c].length + ch.length);
+      out.set(pending[c]);
+      out.set(ch, pending[c].length);
+      return out;
+    });
+    pending = writeFrames(joined, false);
+  };
+
+  const finish = (): Blob => {
+    if (pending.length > 0) writeFrames(pending, true);
+    pending = [];
+
+    const w = new BitWriter();
+    w.writeBytes(new Uint8Array([0x66, 0x4c, 0x61, 0x43])); // "fLaC"
+
+    // STREAMINFO
+    w.write(metadata.length === 0 ? 1 : 0, 1);
+    w.write(0, 7);
+    w.write(34, 24);
+    w.write(BLOCK_SIZE, 16);
+    w.write(BLOCK_SIZE, 16);
+    w.write(0, 24); // min frame size unknown
+    w.write(0, 24); // max frame size unknown
+    w.write(sampleRate, 20);
+    w.write(numChannels - 1, 3);
+    w.write(bitDepth - 1, 5);
+    w.write(Math.floor(totalSamples / 0x100000000), 4);
+    w.write(totalSamples >>> 0, 32);
+    w.writeBytes(new Uint8Array(16)); // MD5 not computed (allowed by spec)
+
+    metadata.forEach((block, i) => {
+      w.write(i === metadata.length - 1 ? 1 : 0, 1);
+      w.write(block.type, 7);
+      w.write(block.data.length, 24);
+      w.writeBytes(block.data);
+    });
+
+    return new Blob([w.slice(0), ...frames], { type: "audio/flac" });
+  };
+
+  return { write, finish };
+};
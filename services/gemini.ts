@@ -1,6 +1,6 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { GeneratedContent, SongContext, ClarificationResponse, AudioAnalysis } from "../types";
+import { GeneratedContent, SongContext, ClarificationResponse, AudioAnalysis, LocalMusicAnalysis } from "../types";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 const MODEL_NAME = "gemini-3-pro-preview";
@@ -181,7 +181,22 @@ export const refineSong = async (
   }
 };
 
-export const analyzeReferenceAudio = async (base64Audio: string, mimeType: string): Promise<AudioAnalysis> => {
+/**
+ * Local DSP measurements offered to the model. Worded as hints to verify, since
+ * the estimators share the model's own half/double-time and relative-key pitfalls.
+ */
+const describeHints = (hints: LocalMusicAnalysis) => {
+  const lines: string[] = [];
+  if (hints.tempo) lines.push(`- Tempo: about ${hints.tempo.bpm} BPM (confidence ${Math.round(hints.tempo.confidence * 100)}%). Check whether half or double time fits the groove better.`);
+  if (hints.key) lines.push(`- Key: ${hints.key.label} (confidence ${Math.round(hints.key.confidence * 100)}%). Check the relative major/minor before answering.`);
+  return lines.length ? `\n    On-device signal analysis measured:\n    ${lines.join('\n    ')}\n    Treat these as hints, not answers; trust your ears where they clearly disagree.\n` : '';
+};
+
+export const analyzeReferenceAudio = async (
+  base64Audio: string,
+  mimeType: string,
+  hints?: LocalMusicAnalysis | null
+): Promise<AudioAnalysis> => {
   const prompt = `
     Analyze this audio track musically.
     Deconstruct the "Sonic DNA" to help me recreate this exact vibe in Suno V5 but with different lyrics.
@@ -195,7 +210,7 @@ export const analyzeReferenceAudio = async (base64Audio: string, mimeType: strin
     6. A Structure Map (Intro, Verse, etc).
     7. TONE FLOW: Analyze the emotional progression and energy curve (e.g. "Starts sparse/sad -> Builds tension -> Explosive release").
     8. A 'suno_style_prompt' that is optimized for Suno V5 to clone this style, using specific tags for instruments, vocal styles, vocal envelope, and dynamic shifts.
-  `;
+    ${hints ? describeHints(hints) : ''}`;
 
   try {
     // IMPORTANT: Flash models often do not support thinkingConfig, so we remove it here.
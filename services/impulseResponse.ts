@@ -0,0 +1,108 @@
+import { ReverbType } from "../types";
+
+/**
+ * Synthetic reverb impulse responses: decaying noise that darkens as it
+ * fades, with discrete early reflections for the room and hall. Seeded, so
+ * the preview and the export convolve with exactly the same response.
+ */
+
+interface ReverbShape {
+  // One-pole low-pass on the tail, sweeping from `brightStart` to `brightEnd` over the decay
+  brightStart: number; // Hz
+  brightEnd: number; // Hz
+  // Build-up time of the diffuse tail
+  attack: number; // seconds
+  // Early reflections: delay (s) and level relative to the tail's start
+  reflections: { time: number; gain: number }[];
+}
+
+const SHAPES: Record<ReverbType, ReverbShape> = {
+  room: {
+    brightStart: 9000,
+    brightEnd: 2500,
+    attack: 0.004,
+    reflections: [
+      { time: 0.007, gain: 0.8 },
+      { time: 0.011, gain: 0.6 },
+      { time: 0.017, gain: 0.5 },
+      { time: 0.023, gain: 0.35 },
+      { time: 0.031, gain: 0.25 },
+    ],
+  },
+  // Dense from the first sample and stays bright
+  plate: {
+    brightStart: 14000,
+    brightEnd: 6000,
+    attack: 0.001,
+    reflections: [],
+  },
+  hall: {
+    brightStart: 8000,
+    brightEnd: 1500,
+    attack: 0.03,
+    reflections: [
+      { time: 0.015, gain: 0.5 },
+      { time: 0.024, gain: 0.45 },
+      { time: 0.037, gain: 0.35 },
+      { time: 0.049, gain: 0.3 },
+      { time: 0.061, gain: 0.2 },
+    ],
+  },
+};
+
+const MIN_DECAY = 0.2;
+const MAX_DECAY = 8;
+// The tail is cut where it has fallen this far past the nominal decay (−72 dB)
+const LENGTH_FACTOR = 1.2;
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** Length of the response in seconds: the clamped decay plus the tail past it. */
+export const impulseResponseDuration = (decay: number) => Math.max(MIN_DECAY, Math.min(MAX_DECAY, decay)) * LENGTH_FACTOR;
+
+/**
+ * One channel per output channel, each with its own noise so the tail is
+ * fully decorrelated between left and right. Every channel is scaled to unit
+ * energy, which keeps the wet signal at roughly the dry level.
+ */
+export const generateImpulseResponse = (type: ReverbType, decay: number, sampleRate: number, channels = 2): Float32Array[] => {
+  const shape = SHAPES[type];
+  const seconds = Math.max(MIN_DECAY, Math.min(MAX_DECAY, decay));
+  const length = Math.ceil(impulseResponseDuration(decay) * sampleRate);
+  // −60 dB at `seconds`
+  const decayRate = Math.log(1000) / seconds;
+
+  return Array.from({ length: channels }, (_, c) => {
+    const random = createRandom(0x5eed + c * 7919);
+    const ir = new Float32Array(length);
+    let lowpassed = 0;
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+      const cutoff = shape.brightStart * Math.pow(shape.brightEnd / shape.brightStart, Math.min(1, t / seconds));
+      const coefficient = Math.exp((-2 * Math.PI * cutoff) / sampleRate);
+      lowpassed = (1 - coefficient) * (random() * 2 - 1) + coefficient * lowpassed;
+      const envelope = Math.exp(-decayRate * t) * (1 - Math.exp(-t / shape.attack));
+      ir[i] = lowpassed * envelope;
+    }
+
+    // Reflections alternate polarity between channels for width
+    let peak = 0;
+    for (let i = 0; i < Math.min(length, sampleRate * 0.1); i++) peak = Math.max(peak, Math.abs(ir[i]));
+    for (const reflection of shape.reflections) {
+      const i = Math.round(reflection.time * sampleRate * (1 + 0.03 * c));
+      if (i < length) ir[i] += reflection.gain * peak * (c % 2 === 0 ? 1 : -1);
+    }
+
+    let energy = 0;
+    for (let i = 0; i < length; i++) energy += ir[i] * ir[i];
+    const scale = energy > 0 ? 1 / Math.sqrt(energy) : 0;
+    for (let i = 0; i < length; i++) ir[i] *= scale;
+    return ir;
+  });
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createLoudnessMeter, LOUDNESS_FLOOR, measureLoudness, measureTruePeak } from './loudness';
+
+const SAMPLE_RATE = 48000;
+
+const noise = (length: number, seed = 1) => {
+  const out = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    out[i] = (state / 2 ** 32) * 2 - 1;
+  }
+  return out;
+};
+
+describe('true peak', () => {
+  it('reads full-scale DC at full scale', () => {
+    const dc = new Float32Array(SAMPLE_RATE).fill(1);
+    expect(measureTruePeak(dc)).toBeGreaterThanOrEqual(1);
+  });
+
+  it('never reads below the sample peak', () => {
+    const impulse = new Float32Array(1000);
+    impulse[500] = 1;
+    expect(measureTruePeak(impulse)).toBeGreaterThanOrEqual(1);
+
+    const stats = measureLoudness([noise(SAMPLE_RATE, 1), noise(SAMPLE_RATE, 2)], SAMPLE_RATE);
+    expect(stats.truePeak).toBeGreaterThanOrEqual(stats.samplePeak);
+  });
+
+  it('catches a peak on the last sample of the stream', () => {
+    const channel = new Float32Array(1000);
+    channel[999] = -0.5;
+    expect(measureTruePeak(channel)).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('finds the same peak however the programme is split into blocks', () => {
+    const channel = noise(10000, 3);
+    const meter = createLoudnessMeter(SAMPLE_RATE);
+    for (let i = 0; i < channel.length; i += 777) meter.push([channel.subarray(i, i + 777)]);
+    expect(meter.result().truePeak).toBeCloseTo(measureLoudness([channel], SAMPLE_RATE).truePeak, 6);
+  });
+});
+
+describe('short-term loudness', () => {
+  it('follows the last 3 s of what was pushed', () => {
+    const meter = createLoudnessMeter(SAMPLE_RATE);
+    const loud = noise(SAMPLE_RATE * 5, 4);
+    meter.push([loud, loud]);
+    const before = meter.shortTerm();
+
+    const quiet = loud.map(x => x / 10);
+    meter.push([quiet, quiet]);
+    expect(meter.shortTerm()).toBeCloseTo(before - 20, 1);
+  });
+
+  it('reads the floor before a full hop has arrived', () => {
+    const meter = createLoudnessMeter(SAMPLE_RATE);
+    meter.push([noise(100)]);
+    expect(meter.shortTerm()).toBe(LOUDNESS_FLOOR);
+  });
+});
@@ -0,0 +1,322 @@
+import { LoudnessStats } from "../types";
+import { runScan, Scan } from "./dsp";
+
+// Values are floored here so reports never carry -Infinity for silent material
+export const LOUDNESS_FLOOR = -70;
+export const PEAK_FLOOR = -144;
+
+const ABSOLUTE_GATE = -70;
+const INTEGRATED_RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+
+// Gating blocks advance in 100 ms hops; momentary = 4 hops, short-term = 30 hops
+const HOP_SECONDS = 0.1;
+const MOMENTARY_HOPS = 4;
+const SHORT_TERM_HOPS = 30;
+
+// Audio pushed between yields when measuring a programme held in memory
+const SCAN_BLOCK_SECONDS = 1;
+
+const TRUE_PEAK_OVERSAMPLE = 4;
+const TRUE_PEAK_TAPS_PER_PHASE = 12;
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+/**
+ * BS.1770 K-weighting (pre-filter shelf + RLB high-pass), re-derived for any
+ * sample rate instead of the tabulated 48 kHz coefficients.
+ */
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+  // Stage 1: high shelf modelling the acoustic effect of the head
+  let f0 = 1681.974450955533;
+  const G = 3.999843853973347;
+  let Q = 0.7071752369554196;
+  let K = Math.tan(Math.PI * f0 / sampleRate);
+  const Vh = Math.pow(10, G / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  // Stage 2: RLB high-pass
+  f0 = 38.13547087602444;
+  Q = 0.5003270373238773;
+  K = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + K / Q + K * K;
+  const highpass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highpass];
+};
+
+interface BiquadState {
+  x1: number; x2: number;
+  y1: number; y2: number;
+}
+
+// Filters a block, carrying the filter state over from the previous one
+const applyBiquad = (input: Float32Array, f: Biquad, state: BiquadState): Float32Array => {
+  const out = new Float32Array(input.length);
+  let { x1, x2, y1, y2 } = state;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    out[i] = y;
+  }
+  Object.assign(state, { x1, x2, y1, y2 });
+  return out;
+};
+
+const energyToLufs = (energy: number) =>
+  energy > 0 ? -0.691 + 10 * Math.log10(energy) : -Infinity;
+
+const toDb = (linear: number) => (linear > 0 ? 20 * Math.log10(linear) : -Infinity);
+
+const floorAt = (value: number, floor: number) => (Number.isFinite(value) ? Math.max(floor, value) : floor);
+
+/**
+ * Mean of the block energies that survive the absolute gate and the given
+ * relative gate (BS.1770-4 §2.8 / EBU Tech 3342).
+ */
+const gatedEnergies = (blocks: number[], relativeGate: number) => {
+  const absGated = blocks.filter(e => energyToLufs(e) > ABSOLUTE_GATE);
+  if (absGated.length === 0) return [];
+  const mean = absGated.reduce((a, b) => a + b, 0) / absGated.length;
+  const threshold = energyToLufs(mean) + relativeGate;
+  return absGated.filter(e => energyToLufs(e) > threshold);
+};
+
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[idx];
+};
+
+let truePeakKernelCache: Float32Array[] | null = null;
+
+/**
+ * Polyphase windowed-sinc interpolator for 4x oversampled peak detection.
+ * The kernel is centred on a sample, so phase 0 passes the original samples
+ * through unchanged and the true peak never reads below the sample peak.
+ */
+const truePeakKernels = (): Float32Array[] => {
+  if (truePeakKernelCache) return truePeakKernelCache;
+  const L = TRUE_PEAK_OVERSAMPLE;
+  const N = TRUE_PEAK_TAPS_PER_PHASE * L;
+  const centre = N / 2;
+  const phases: Float32Array[] = [];
+  for (let p = 0; p < L; p++) {
+    const phase = new Float32Array(TRUE_PEAK_TAPS_PER_PHASE);
+    for (let t = 0; t < TRUE_PEAK_TAPS_PER_PHASE; t++) {
+      const n = t * L + p;
+      const x = (n - centre) / L;
+      // Exact zeros on the other samples; Math.sin(kπ) is only close to 0
+      const sinc = x === 0 ? 1 : Number.isInteger(x) ? 0 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * n) / N);
+      phase[t] = sinc * window;
+    }
+    phases.push(phase);
+  }
+  truePeakKernelCache = phases;
+  return phases;
+};
+
+/**
+ * Running 4x true-peak detector. Each block is interpolated together with
+ * the tail of the previous one, so peaks straddling a block edge still count;
+ * `peak` also interpolates the last few samples against trailing silence.
+ */
+const createTruePeakDetector = () => {
+  const phases = truePeakKernels();
+  const taps = TRUE_PEAK_TAPS_PER_PHASE;
+  let history = new Float32Array(taps - 1);
+  let peak = 0;
+
+  // Highest interpolated value for the first `count` windows of `padded`
+  const scan = (padded: Float32Array, count: number) => {
+    let max = 0;
+    for (let i = 0; i < count; i++) {
+      for (let p = 0; p < phases.length; p++) {
+        const kernel = phases[p];
+        let acc = 0;
+        for (let t = 0; t < taps; t++) acc += kernel[t] * padded[i + t];
+        const a = Math.abs(acc);
+        if (a > max) max = a;
+      }
+    }
+    return max;
+  };
+
+  const concat = (a: Float32Array, b: Float32Array) => {
+    const out = new Float32Array(a.length + b.length);
+    out.set(a);
+    out.set(b, a.length);
+    return out;
+  };
+
+  return {
+    push: (channel: Float32Array) => {
+      const padded = concat(history, channel);
+      peak = Math.max(peak, scan(padded, channel.length));
+      history = padded.slice(padded.length - history.length);
+    },
+    peak: () => {
+      const flush = taps / 2;
+      return Math.max(peak, scan(concat(history, new Float32Array(flush)), flush));
+    },
+  };
+};
+
+/**
+ * Highest absolute value of the 4x interpolated signal (linear).
+ */
+export const measureTruePeak = (channel: Float32Array): number => {
+  const detector = createTruePeakDetector();
+  detector.push(channel);
+  return detector.peak();
+};
+
+export interface LoudnessMeter {
+  // Every block must have the same channel count
+  push: (channels: Float32Array[]) => void;
+  result: () => LoudnessStats;
+  // Loudness of the last 3 s pushed (less at the start), for live metering (LUFS)
+  shortTerm: () => number;
+}
+
+interface ChannelState {
+  shelf: BiquadState;
+  highpass: BiquadState;
+  truePeak: ReturnType<typeof createTruePeakDetector>;
+}
+
+const emptyBiquadState = (): BiquadState => ({ x1: 0, x2: 0, y1: 0, y2: 0 });
+
+/**
+ * ITU-R BS.1770-4 / EBU R128 measurement fed block by block, so a long
+ * programme never has to be in memory at once. Filter state, true-peak
+ * history and partial gating hops carry over between blocks.
+ * Channels are weighted 1.0 (mono/stereo material only).
+ */
+export const createLoudnessMeter = (sampleRate: number): LoudnessMeter => {
+  const hopSize = Math.round(sampleRate * HOP_SECONDS);
+  const filters = kWeightingFilters(sampleRate);
+  const hopEnergy: number[] = [];
+  let states: ChannelState[] = [];
+  let frames = 0;
+  let samplePeak = 0;
+  let sumSquares = 0;
+
+  const push = (channels: Float32Array[]) => {
+    if (states.length === 0) {
+      states = channels.map(() => ({ shelf: emptyBiquadState(), highpass: emptyBiquadState(), truePeak: createTruePeakDetector() }));
+    }
+    const length = channels[0].length;
+    channels.forEach((channel, c) => {
+      const state = states[c];
+      const weighted = applyBiquad(applyBiquad(channel, filters[0], state.shelf), filters[1], state.highpass);
+      // Hops run on from the previous block, so the first one may already be part-filled
+      for (let i = 0, h = Math.floor(frames / hopSize); i < length; h++) {
+        const end = Math.min(length, (h + 1) * hopSize - frames);
+        let sum = 0;
+        for (; i < end; i++) sum += weighted[i] * weighted[i];
+        hopEnergy[h] = (hopEnergy[h] ?? 0) + sum;
+      }
+      for (let i = 0; i < length; i++) {
+        const a = Math.abs(channel[i]);
+        if (a > samplePeak) samplePeak = a;
+        sumSquares += a * a;
+      }
+      state.truePeak.push(channel);
+    });
+    frames += length;
+  };
+
+  const result = (): LoudnessStats => {
+    // A trailing part-filled hop doesn't count
+    const hopCount = Math.floor(frames / hopSize);
+    const truePeak = states.reduce((max, state) => Math.max(max, state.truePeak.peak()), 0);
+
+    // Mean square over a sliding window of hops
+    const windowEnergies = (hops: number) => {
+      const out: number[] = [];
+      let running = 0;
+      for (let h = 0; h < hopCount; h++) {
+        running += hopEnergy[h];
+        if (h >= hops) running -= hopEnergy[h - hops];
+        if (h >= hops - 1) out.push(running / (hops * hopSize));
+      }
+      return out;
+    };
+
+    const momentary = windowEnergies(MOMENTARY_HOPS);
+    const shortTerm = windowEnergies(SHORT_TERM_HOPS);
+
+    const integratedBlocks = gatedEnergies(momentary, INTEGRATED_RELATIVE_GATE);
+    const integrated = integratedBlocks.length
+      ? energyToLufs(integratedBlocks.reduce((a, b) => a + b, 0) / integratedBlocks.length)
+      : -Infinity;
+
+    const rangeBlocks = gatedEnergies(shortTerm, RANGE_RELATIVE_GATE)
+      .map(energyToLufs)
+      .sort((a, b) => a - b);
+    const range = rangeBlocks.length ? percentile(rangeBlocks, 0.95) - percentile(rangeBlocks, 0.1) : 0;
+
+    const loudest = (energies: number[]) =>
+      energyToLufs(energies.reduce((max, e) => (e > max ? e : max), 0));
+
+    return {
+      integrated: floorAt(integrated, LOUDNESS_FLOOR),
+      shortTermMax: floorAt(loudest(shortTerm), LOUDNESS_FLOOR),
+      momentaryMax: floorAt(loudest(momentary), LOUDNESS_FLOOR),
+      range,
+      truePeak: floorAt(toDb(truePeak), PEAK_FLOOR),
+      samplePeak: floorAt(toDb(samplePeak), PEAK_FLOOR),
+      rms: floorAt(toDb(Math.sqrt(sumSquares / Math.max(1, states.length * frames))), PEAK_FLOOR),
+      duration: frames / sampleRate,
+    };
+  };
+
+  const shortTerm = () => {
+    const last = Math.floor(frames / hopSize);
+    const first = Math.max(0, last - SHORT_TERM_HOPS);
+    if (last === first) return LOUDNESS_FLOOR;
+    let energy = 0;
+    for (let h = first; h < last; h++) energy += hopEnergy[h];
+    return floorAt(energyToLufs(energy / ((last - first) * hopSize)), LOUDNESS_FLOOR);
+  };
+
+  return { push, result, shortTerm };
+};
+
+/**
+ * ITU-R BS.1770-4 / EBU R128 measurement of one programme held in memory,
+ * pushed through the meter a block at a time.
+ */
+export const scanLoudness = function* (channels: Float32Array[], sampleRate: number): Scan<LoudnessStats> {
+  const meter = createLoudnessMeter(sampleRate);
+  const block = Math.round(SCAN_BLOCK_SECONDS * sampleRate);
+  for (let from = 0; from < channels[0].length; from += block) {
+    meter.push(channels.map(channel => channel.subarray(from, from + block)));
+    yield;
+  }
+  return meter.result();
+};
+
+export const measureLoudness = (channels: Float32Array[], sampleRate: number) =>
+  runScan(scanLoudness(channels, sampleRate));
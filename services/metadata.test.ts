@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { createId3Tag, createVorbisComment, createWavChunks } from './metadata';
+
+const text = (bytes: Uint8Array, offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+const decodeUtf16 = (bytes: Uint8Array) => String.fromCharCode(...new Uint16Array(bytes.slice().buffer));
+
+// ID3v2.3 frames by id, each with its body
+const readId3 = (tag: Uint8Array) => {
+  const size = (tag[6] << 21) | (tag[7] << 14) | (tag[8] << 7) | tag[9];
+  const view = new DataView(tag.buffer);
+  const frames = new Map<string, Uint8Array>();
+  for (let offset = 10; offset < 10 + size;) {
+    const length = view.getUint32(offset + 4);
+    frames.set(text(tag, offset, 4), tag.subarray(offset + 10, offset + 10 + length));
+    offset += 10 + length;
+  }
+  return { size, frames };
+};
+
+describe('ID3 tag', () => {
+  it('writes UTF-16 text frames under a syncsafe size', () => {
+    // Long enough that the size needs more than one syncsafe byte
+    const tag = createId3Tag({ title: 'Ṡunset Ọja', artist: 'A', lyrics: 'la '.repeat(100) });
+    const { size, frames } = readId3(tag);
+
+    expect(text(tag, 0, 3)).toBe('ID3');
+    expect([tag[3], tag[4]]).toEqual([3, 0]);
+    expect(size).toBe(tag.length - 10);
+    expect(Array.from(tag.subarray(6, 10)).every(byte => byte < 0x80)).toBe(true);
+    expect([...frames.keys()]).toEqual(['TIT2', 'TPE1', 'USLT', 'TSSE']);
+
+    const title = frames.get('TIT2')!;
+    expect(Array.from(title.subarray(0, 3))).toEqual([0x01, 0xff, 0xfe]);
+    expect(decodeUtf16(title.subarray(3))).toBe('Ṡunset Ọja');
+  });
+
+  it('puts the language and an empty description ahead of the lyrics', () => {
+    const lyrics = readId3(createId3Tag({ title: '', artist: '', lyrics: 'Ek sing' })).frames.get('USLT')!;
+    expect(lyrics[0]).toBe(0x01);
+    expect(text(lyrics, 1, 3)).toBe('afr');
+    // BOM and terminator of the description, then the text with its own BOM
+    expect(Array.from(lyrics.subarray(4, 8))).toEqual([0xff, 0xfe, 0, 0]);
+    expect(decodeUtf16(lyrics.subarray(10))).toBe('Ek sing');
+  });
+});
+
+describe('WAV chunks', () => {
+  it('pads odd-sized chunks and escapes the iXML', () => {
+    const [list, ixml] = createWavChunks({ title: 'Rock & Roll', artist: 'Abc', stylePrompt: 'amapiano <dark>' });
+    const view = new DataView(list.buffer);
+
+    expect(text(list, 0, 4) + text(list, 8, 4)).toBe('LISTINFO');
+    expect(view.getUint32(4, true)).toBe(list.length - 8);
+    // "Rock & Roll" and its terminator come to 12 bytes; "Abc" and its terminator to 4
+    expect(text(list, 12, 4)).toBe('INAM');
+    expect(view.getUint32(16, true)).toBe(12);
+    expect(text(list, 32, 4)).toBe('IART');
+    expect(text(list, 44, 4)).toBe('ICMT');
+    // "amapiano <dark>" and its terminator are 16 bytes; the software name's 14 need no pad either
+    expect(list.length % 2).toBe(0);
+
+    const size = new DataView(ixml.buffer).getUint32(4, true);
+    expect(text(ixml, 0, 4)).toBe('iXML');
+    expect(ixml.length).toBe(8 + size + (size % 2));
+    const xml = new TextDecoder().decode(ixml.subarray(8, 8 + size));
+    expect(xml).toContain('<PROJECT>Rock &amp; Roll</PROJECT>');
+    expect(xml).toContain('<NOTE>amapiano &lt;dark&gt;</NOTE>');
+    expect(xml).not.toContain('<USER>');
+  });
+});
+
+describe('Vorbis comment', () => {
+  it('lists the vendor and each field as length-prefixed UTF-8', () => {
+    const { type, data } = createVorbisComment({ title: 'Ọja', artist: '', lyrics: 'Ek sing' });
+    const view = new DataView(data.buffer);
+    const fields: string[] = [];
+    const vendorLength = view.getUint32(0, true);
+    let offset = 4 + vendorLength;
+    const count = view.getUint32(offset, true);
+    offset += 4;
+    for (let i = 0; i < count; i++) {
+      const length = view.getUint32(offset, true);
+      fields.push(new TextDecoder().decode(data.subarray(offset + 4, offset + 4 + length)));
+      offset += 4 + length;
+    }
+
+    expect(type).toBe(4);
+    expect(new TextDecoder().decode(data.subarray(4, 4 + vendorLength))).toBe('AfriSuno Vibe');
+    expect(fields).toEqual(['TITLE=Ọja', 'LYRICS=Ek sing', 'LANGUAGE=afr']);
+    expect(offset).toBe(data.length);
+  });
+});
@@ -0,0 +1,135 @@
+import { TrackMetadata } from "../types";
+import { FlacMetadataBlock } from "./flacEncoder";
+
+/**
+ * Tag writers for the exported master. Each returns raw bytes that the
+ * matching encoder places in its container.
+ */
+
+const SOFTWARE = 'AfriSuno Vibe';
+const LYRICS_LANGUAGE = 'afr'; // ISO 639-2
+const COMMENT_DESCRIPTION = 'Suno Style Prompt';
+
+const utf8 = (value: string) => new TextEncoder().encode(value);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const ascii = (value: string) => Uint8Array.from(value, c => c.charCodeAt(0));
+
+const uint32 = (value: number, littleEndian: boolean) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, littleEndian);
+  return bytes;
+};
+
+// --- ID3v2.3 (MP3) ---
+
+// UTF-16 with BOM: the only Unicode encoding ID3v2.3 readers all understand
+const utf16 = (value: string, terminate = false) => {
+  const units = value.length + (terminate ? 1 : 0);
+  const bytes = new Uint8Array(2 + units * 2);
+  bytes[0] = 0xff;
+  bytes[1] = 0xfe;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    bytes[2 + i * 2] = code & 0xff;
+    bytes[3 + i * 2] = code >> 8;
+  }
+  return bytes;
+};
+
+const UTF16_ENCODING = new Uint8Array([0x01]);
+
+const id3Frame = (id: string, body: Uint8Array) =>
+  concat([ascii(id), uint32(body.length, false), new Uint8Array(2), body]);
+
+const textFrame = (id: string, value: string) =>
+  id3Frame(id, concat([UTF16_ENCODING, utf16(value)]));
+
+// USLT and COMM share the layout: encoding, language, description, text
+const languageFrame = (id: string, language: string, description: string, text: string) =>
+  id3Frame(id, concat([UTF16_ENCODING, ascii(language), utf16(description, true), utf16(text)]));
+
+const syncsafe = (value: number) =>
+  new Uint8Array([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+
+/**
+ * ID3v2.3 tag to prepend to an MP3 stream.
+ */
+export const createId3Tag = (meta: TrackMetadata): Uint8Array => {
+  const frames: Uint8Array[] = [];
+  if (meta.title) frames.push(textFrame('TIT2', meta.title));
+  if (meta.artist) frames.push(textFrame('TPE1', meta.artist));
+  if (meta.lyrics) frames.push(languageFrame('USLT', LYRICS_LANGUAGE, '', meta.lyrics));
+  if (meta.stylePrompt) frames.push(languageFrame('COMM', 'eng', COMMENT_DESCRIPTION, meta.stylePrompt));
+  frames.push(textFrame('TSSE', SOFTWARE));
+
+  const body = concat(frames);
+  return concat([ascii('ID3'), new Uint8Array([0x03, 0x00, 0x00]), syncsafe(body.length), body]);
+};
+
+// --- RIFF (WAV) ---
+
+// Chunk with its header and the pad byte RIFF requires after odd-sized data
+const riffChunk = (id: string, data: Uint8Array) =>
+  concat([ascii(id), uint32(data.length, true), data, new Uint8Array(data.length % 2)]);
+
+const zstring = (value: string) => concat([utf8(value), new Uint8Array(1)]);
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * LIST/INFO chunk for the common fields plus an iXML chunk, which has room
+ * for the lyrics. Both go between `fmt ` and `data`.
+ */
+export const createWavChunks = (meta: TrackMetadata): Uint8Array[] => {
+  const info: Uint8Array[] = [ascii('INFO')];
+  if (meta.title) info.push(riffChunk('INAM', zstring(meta.title)));
+  if (meta.artist) info.push(riffChunk('IART', zstring(meta.artist)));
+  if (meta.stylePrompt) info.push(riffChunk('ICMT', zstring(meta.stylePrompt)));
+  info.push(riffChunk('ISFT', zstring(SOFTWARE)));
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<BWFXML>',
+    '<IXML_VERSION>1.61</IXML_VERSION>',
+    `<PROJECT>${escapeXml(meta.title)}</PROJECT>`,
+    meta.stylePrompt ? `<NOTE>${escapeXml(meta.stylePrompt)}</NOTE>` : '',
+    meta.lyrics ? `<USER>LYRICS (${LYRICS_LANGUAGE}):\n${escapeXml(meta.lyrics)}</USER>` : '',
+    '</BWFXML>',
+  ].filter(Boolean).join('\n');
+
+  return [riffChunk('LIST', concat(info)), riffChunk('iXML', utf8(xml))];
+};
+
+// --- VORBIS COMMENT (FLAC) ---
+
+const VORBIS_COMMENT = 4;
+
+export const createVorbisComment = (meta: TrackMetadata): FlacMetadataBlock => {
+  const comments = [
+    meta.title && `TITLE=${meta.title}`,
+    meta.artist && `ARTIST=${meta.artist}`,
+    meta.lyrics && `LYRICS=${meta.lyrics}`,
+    meta.lyrics && `LANGUAGE=${LYRICS_LANGUAGE}`,
+    meta.stylePrompt && `COMMENT=${meta.stylePrompt}`,
+  ].filter((c): c is string => !!c).map(utf8);
+
+  const vendor = utf8(SOFTWARE);
+  const data = concat([
+    uint32(vendor.length, true),
+    vendor,
+    uint32(comments.length, true),
+    ...comments.flatMap(c => [uint32(c.length, true), c]),
+  ]);
+  return { type: VORBIS_COMMENT, data };
+};
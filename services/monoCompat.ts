@@ -0,0 +1,239 @@
+import { MonoReport, MonoWarning, QcStatus } from "../types";
+import { fft, hannWindow, powerToDb } from "./dsp";
+
+/**
+ * Phase correlation and mono fold-down of a rendered master: overall, over
+ * time and per frequency band, so out-of-phase pads and over-wide effects
+ * show up before the track reaches a phone speaker. The bands come from one
+ * complex FFT per frame with left in the real and right in the imaginary part.
+ */
+
+const METER_SECONDS = 0.5;
+const FFT_SIZE = 4096;
+// 25% overlap is plenty for long-term sums and a third cheaper than 50%
+const FFT_HOP = (FFT_SIZE * 3) / 4;
+const QUIET_DB = -50; // Windows below this are too quiet to judge
+// A band only counts once it carries this share of the window's energy
+const BAND_SHARE = 0.05;
+// Uncorrelated wide stereo sits around 0, so warnings start clearly below it
+export const MONO_WARN_CORRELATION = -0.2;
+const MONO_FAIL_CORRELATION = -0.3;
+// A band is only named when it is this much further out of phase than the full band
+const BAND_MARGIN = 0.1;
+// Level the whole mix may lose in mono before the report fails (−6 dB ≈ correlation −0.5)
+const FOLD_DOWN_FAIL_DB = -6;
+const FOLD_DOWN_FLOOR_DB = -60; // Full cancellation
+const MERGE_SECONDS = 1;
+
+export const MONO_BANDS = [
+  { label: 'Bass', low: 20, high: 150 },
+  { label: 'Low mids', low: 150, high: 400 },
+  { label: 'Mids', low: 400, high: 1000 },
+  { label: 'Upper mids', low: 1000, high: 2500 },
+  { label: 'Presence', low: 2500, high: 6000 },
+  { label: 'Air', low: 6000, high: 20000 },
+];
+
+interface Sums {
+  lr: number;
+  ll: number;
+  rr: number;
+}
+
+const emptySums = (): Sums => ({ lr: 0, ll: 0, rr: 0 });
+
+const addSums = (target: Sums, s: Sums) => {
+  target.lr += s.lr;
+  target.ll += s.ll;
+  target.rr += s.rr;
+};
+
+// A hard-panned signal (one side silent) counts as uncorrelated
+const correlationOf = (s: Sums) => (s.ll > 0 && s.rr > 0 ? s.lr / Math.sqrt(s.ll * s.rr) : 0);
+
+// Mono sum power relative to the average channel power
+const foldDownOf = (s: Sums) =>
+  s.ll + s.rr > 0 ? Math.max(FOLD_DOWN_FLOOR_DB, powerToDb((s.ll + s.rr + 2 * s.lr) / (2 * (s.ll + s.rr)))) : 0;
+
+export interface MonoMeter {
+  // Every block must have the same channel count
+  push: (channels: Float32Array[]) => void;
+  // Ends the analysis; no blocks can be pushed afterwards
+  result: () => MonoReport;
+}
+
+// Per-window lists grow as blocks arrive
+const slot = <T>(list: T[], index: number, create: () => T) => list[index] ?? (list[index] = create());
+
+/**
+ * Mono compatibility analysis fed block by block. L/R cross and auto power
+ * are summed per meter window, and per band from FFT frames assigned to the
+ * window their centre falls in. Samples a frame still needs are carried over
+ * to the next block.
+ */
+export const createMonoMeter = (sampleRate: number): MonoMeter => {
+  const window = Math.round(METER_SECONDS * sampleRate);
+  const hann = hannWindow(FFT_SIZE);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const binHz = sampleRate / FFT_SIZE;
+  const bandOf = Int8Array.from({ length: FFT_SIZE / 2 }, (_, k) =>
+    MONO_BANDS.findIndex(band => k * binHz >= band.low && k * binHz < band.high));
+
+  const windowSums: Sums[] = [];
+  const bandSums: Sums[][] = [];
+  let stereo = true;
+  let frames = 0;
+  // Samples from the start of the next FFT frame on
+  let nextFrame = 0;
+  let pending = [new Float32Array(0), new Float32Array(0)];
+  let report: MonoReport | null = null;
+
+  // One FFT frame starting at `start` in the given arrays, `offset` in the programme
+  const analyzeFrame = (left: Float32Array, right: Float32Array, start: number, offset: number) => {
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const j = start + i;
+      re[i] = j < left.length ? left[j] * hann[i] : 0;
+      im[i] = j < right.length ? right[j] * hann[i] : 0;
+    }
+    fft(re, im);
+
+    const sums = slot(bandSums, Math.floor((offset + FFT_SIZE / 2) / window), () => MONO_BANDS.map(emptySums));
+    for (let k = 1; k < FFT_SIZE / 2; k++) {
+      const band = bandOf[k];
+      if (band < 0) continue;
+      // Unpack: L = (Z[k] + conj Z[N-k]) / 2, R = (Z[k] - conj Z[N-k]) / 2j
+      const a = re[k], b = im[k], c = re[FFT_SIZE - k], d = im[FFT_SIZE - k];
+      const lRe = (a + c) / 2, lIm = (b - d) / 2;
+      const rRe = (b + d) / 2, rIm = (c - a) / 2;
+      const s = sums[band];
+      s.lr += lRe * rRe + lIm * rIm;
+      s.ll += lRe * lRe + lIm * lIm;
+      s.rr += rRe * rRe + rIm * rIm;
+    }
+  };
+
+  const push = (channels: Float32Array[]) => {
+    const length = channels[0].length;
+    if (channels.length < 2) {
+      stereo = false;
+      frames += length;
+      return;
+    }
+
+    const [blockLeft, blockRight] = channels;
+    for (let i = 0, w = Math.floor(frames / window); i < length; w++) {
+      const end = Math.min(length, (w + 1) * window - frames);
+      const sums = slot(windowSums, w, emptySums);
+      for (; i < end; i++) {
+        sums.lr += blockLeft[i] * blockRight[i];
+        sums.ll += blockLeft[i] * blockLeft[i];
+        sums.rr += blockRight[i] * blockRight[i];
+      }
+    }
+
+    const [left, right] = [blockLeft, blockRight].map((block, c) => {
+      const joined = new Float32Array(pending[c].length + length);
+      joined.set(pending[c]);
+      joined.set(block, pending[c].length);
+      return joined;
+    });
+    frames += length;
+    let start = 0;
+    for (; nextFrame + FFT_SIZE <= frames; nextFrame += FFT_HOP, start += FFT_HOP) analyzeFrame(left, right, start, nextFrame);
+    pending = [left.slice(start), right.slice(start)];
+  };
+
+  const finish = (): MonoReport => {
+    const windows = Math.max(1, Math.ceil(frames / window));
+    if (!stereo) {
+      return {
+        status: 'pass',
+        correlation: 1,
+        foldDown: 0,
+        hop: METER_SECONDS,
+        meter: new Array(windows).fill(1),
+        bands: MONO_BANDS.map(band => ({ ...band, correlation: 1 })),
+        warnings: [],
+      };
+    }
+
+    // The last frames run past the end, zero-padded
+    for (let start = 0; nextFrame < frames; nextFrame += FFT_HOP, start += FFT_HOP) analyzeFrame(pending[0], pending[1], start, nextFrame);
+    const perWindow = Array.from({ length: windows }, (_, w) => slot(bandSums, w, () => MONO_BANDS.map(emptySums)));
+    bandSums.slice(windows).forEach(sums => sums.forEach((s, b) => addSums(perWindow[windows - 1][b], s)));
+
+    const total = emptySums();
+    const bandTotals = MONO_BANDS.map(emptySums);
+    const meter: (number | null)[] = [];
+    const spans: MonoWarning[] = [];
+
+    for (let w = 0; w < windows; w++) {
+      const start = w * window;
+      const end = Math.min(frames, start + window);
+      const sums = windowSums[w] ?? emptySums();
+      addSums(total, sums);
+      perWindow[w].forEach((s, b) => addSums(bandTotals[b], s));
+
+      if (powerToDb((sums.ll + sums.rr) / (2 * Math.max(1, end - start))) < QUIET_DB) {
+        meter.push(null);
+        continue;
+      }
+      const correlation = correlationOf(sums);
+      meter.push(correlation);
+
+      // The worst of the full band and every band loud enough to matter
+      const energy = perWindow[w].reduce((sum, s) => sum + s.ll + s.rr, 0);
+      let worst: Pick<MonoWarning, 'correlation' | 'band'> = { correlation, band: null };
+      perWindow[w].forEach((s, b) => {
+        if (s.ll + s.rr < BAND_SHARE * energy) return;
+        const bandCorrelation = correlationOf(s);
+        if (bandCorrelation < worst.correlation && bandCorrelation < correlation - BAND_MARGIN) worst = { correlation: bandCorrelation, band: MONO_BANDS[b] };
+      });
+      if (worst.correlation < MONO_WARN_CORRELATION) {
+        spans.push({ start: start / sampleRate, end: end / sampleRate, ...worst, foldDown: foldDownOf(sums) });
+      }
+    }
+
+    // Neighbouring windows become one region, reporting its worst moment
+    const warnings: MonoWarning[] = [];
+    for (const span of spans) {
+      const last = warnings[warnings.length - 1];
+      if (last && span.start - last.end <= MERGE_SECONDS) {
+        last.end = span.end;
+        last.foldDown = Math.min(last.foldDown, span.foldDown);
+        if (span.correlation < last.correlation) {
+          last.correlation = span.correlation;
+          last.band = span.band;
+        }
+      } else {
+        warnings.push({ ...span });
+      }
+    }
+
+    const correlation = correlationOf(total);
+    const foldDown = foldDownOf(total);
+    const status: QcStatus =
+      correlation < MONO_FAIL_CORRELATION || warnings.some(w => w.foldDown < FOLD_DOWN_FAIL_DB) ? 'fail'
+      : warnings.length > 0 ? 'warn'
+      : 'pass';
+
+    return {
+      status,
+      correlation,
+      foldDown,
+      hop: METER_SECONDS,
+      meter,
+      bands: MONO_BANDS.map((band, b) => ({ ...band, correlation: correlationOf(bandTotals[b]) })),
+      warnings,
+    };
+  };
+
+  return { push, result: () => report ?? (report = finish()) };
+};
+
+export const analyzeMonoCompatibility = (channels: Float32Array[], sampleRate: number): MonoReport => {
+  const meter = createMonoMeter(sampleRate);
+  meter.push(channels);
+  return meter.result();
+};
@@ -0,0 +1,90 @@
+import { AudioProcessOptions, UserPreset } from "../types";
+import { migrateOptions } from "./processingChain";
+
+const STORAGE_KEY = 'afriSunoMasteringPresets';
+const FILE_FORMAT = 'afrisuno-mastering-preset';
+const FILE_VERSION = 1;
+
+interface PresetFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  presets: UserPreset[];
+}
+
+export const loadUserPresets = (): UserPreset[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const presets: UserPreset[] = JSON.parse(saved);
+    return presets.map(preset => ({ ...preset, options: migrateOptions(preset.options) }));
+  } catch (e) {
+    console.error("Failed to parse mastering presets", e);
+    return [];
+  }
+};
+
+const persist = (presets: UserPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+/**
+ * Stores the options as set, chain-panel overrides included; the chain itself
+ * is derived from them again whenever the preset is loaded.
+ */
+export const saveUserPreset = (name: string, options: AudioProcessOptions): UserPreset[] => {
+  const preset: UserPreset = {
+    id: Date.now().toString(),
+    name: name.trim(),
+    createdAt: Date.now(),
+    options,
+  };
+  return persist([preset, ...loadUserPresets()]);
+};
+
+export const deleteUserPreset = (id: string): UserPreset[] =>
+  persist(loadUserPresets().filter(p => p.id !== id));
+
+export const exportPresets = (presets: UserPreset[]): Blob => {
+  const file: PresetFile = { format: FILE_FORMAT, version: FILE_VERSION, presets };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+const isPreset = (value: unknown): value is UserPreset => {
+  const preset = value as { name?: unknown; options?: Record<string, unknown> } | null;
+  const options = preset?.options;
+  return !!options
+    && typeof preset.name === 'string'
+    && typeof options.intensity === 'string'
+    && !!options.creativeFx
+    && (options.chain === undefined || Array.isArray(options.chain))
+    && (options.stageOverrides === undefined || typeof options.stageOverrides === 'object');
+};
+
+/**
+ * Reads an exported preset file and merges it into the library. Imported
+ * presets get fresh ids so they never overwrite local ones.
+ */
+export const importPresets = async (file: File): Promise<UserPreset[]> => {
+  let parsed: PresetFile;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error("Preset file is not valid JSON.");
+  }
+  if (parsed.format !== FILE_FORMAT || !Array.isArray(parsed.presets)) {
+    throw new Error("Not an AfriSuno mastering preset file.");
+  }
+  if (parsed.version > FILE_VERSION) {
+    throw new Error("Preset file was made by a newer version of the app.");
+  }
+
+  const incoming = parsed.presets.filter(isPreset).map((preset, i) => ({
+    ...preset,
+    id: `${Date.now()}-${i}`,
+    options: migrateOptions(preset.options),
+    createdAt: preset.createdAt ?? Date.now(),
+  }));
+  if (incoming.length === 0) throw new Error("No valid presets found in file.");
+  return persist([...incoming, ...loadUserPresets()]);
+};
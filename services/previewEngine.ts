@@ -0,0 +1,365 @@
+import { AudioProcessOptions, AudioRegion, StemSettings } from "../types";
+import { buildMasteringChain, ChainEnvironment, createStemStrip, MasteringChain, mixBusOptions, scanForChain, StemStrip, toPcm, vocalCleanupActive } from "./audioEngine";
+import { runScanInSlices } from "./dsp";
+import { createLoudnessMeter, LOUDNESS_FLOOR } from "./loudness";
+import { audibleStems, mixStems } from "./stems";
+import { loadWorklets } from "./worklets";
+
+// How often the loudness matcher reads both paths
+const MATCH_INTERVAL_MS = 100;
+const MATCH_RANGE_DB = 24;
+const MATCH_TIME_CONSTANT = 0.2;
+// Samples each level tap keeps; must outlast the match interval so the meters see every sample
+const TAP_SIZE = 32768;
+const SWITCH_TIME_CONSTANT = 0.01;
+// Old and new graphs overlap this long when a change needs new nodes
+const CROSSFADE_TIME_CONSTANT = 0.015;
+const CROSSFADE_MS = 120;
+
+// A decoded stem and its mix settings, for previewing a stem mixdown
+export interface PreviewStem {
+  buffer: AudioBuffer;
+  settings: StemSettings;
+}
+
+export interface PreviewSession {
+  readonly duration: number;
+  play: () => void;
+  pause: () => void;
+  seek: (seconds: number) => void;
+  getPosition: () => number;
+  isPlaying: () => boolean;
+  // Moves the processed path to new settings; playback keeps running
+  setOptions: (options: AudioProcessOptions) => void;
+  // Stem sessions only: new mix settings, in the order the stems were given
+  setStemSettings: (settings: StemSettings[]) => void;
+  // true = hear the original (A), false = hear the master (B)
+  setBypass: (bypass: boolean) => void;
+  setLoudnessMatch: (enabled: boolean) => void;
+  // Solo the de-esser's detector band (only audible while the de-esser is on)
+  setSidechainListen: (enabled: boolean) => void;
+  // Repeats this part of the track until cleared with null
+  setLoop: (region: AudioRegion | null) => void;
+  dispose: () => void;
+}
+
+/**
+ * Feeds what one path plays into a loudness meter, so the A/B match compares
+ * short-term LUFS. Each poll reads only the samples played since the last
+ * one; the analysers hold more than that, so the meter sees an unbroken stream.
+ */
+const createLevelTap = (ctx: AudioContext, input: AudioNode) => {
+  const splitter = ctx.createChannelSplitter(2);
+  input.connect(splitter);
+  const analysers = [0, 1].map(c => {
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = TAP_SIZE;
+    splitter.connect(analyser, c);
+    return analyser;
+  });
+  const scratch = new Float32Array(TAP_SIZE);
+  let meter = createLoudnessMeter(ctx.sampleRate);
+  let last = ctx.currentTime;
+
+  return {
+    poll: () => {
+      const now = ctx.currentTime;
+      const frames = Math.min(TAP_SIZE, Math.round((now - last) * ctx.sampleRate));
+      last = now;
+      if (frames <= 0) return;
+      meter.push(analysers.map(analyser => {
+        analyser.getFloatTimeDomainData(scratch);
+        return scratch.slice(TAP_SIZE - frames);
+      }));
+    },
+    loudness: () => meter.shortTerm(),
+    // Starts over, so audio from before a seek doesn't count
+    reset: () => {
+      meter = createLoudnessMeter(ctx.sampleRate);
+      last = ctx.currentTime;
+    },
+  };
+};
+
+/**
+ * Realtime version of the mastering chain for auditioning settings before an
+ * offline render, for one file or a set of stems mixed like the render mixes
+ * them. Original and processed paths run side by side so the A/B switch is
+ * instant, with the original delayed by the chain's latency to stay
+ * sample-aligned. Setting changes move the running nodes; only a change that
+ * needs new nodes builds them, crossfading from the old ones.
+ */
+export const createPreviewSession = async (
+  source: AudioBuffer | PreviewStem[],
+  initialOptions: AudioProcessOptions
+): Promise<PreviewSession> => {
+  const ctx = new (window.AudioContext || window.webkitAudioContext)();
+  await loadWorklets(ctx);
+
+  const stems = Array.isArray(source) ? source : null;
+  const buffers = stems ? stems.map(stem => stem.buffer) : [source as AudioBuffer];
+  const duration = Math.max(...buffers.map(buffer => buffer.duration));
+  // Chain analysis runs on the file, or on the stems as they were mixed when the session opened
+  const programme = stems
+    ? mixStems(stems.map(stem => ({ ...toPcm(stem.buffer), settings: stem.settings })))
+    : toPcm(source as AudioBuffer);
+
+  let env: ChainEnvironment | undefined;
+  let options = initialOptions;
+  let stemSettings = stems?.map(stem => stem.settings) ?? [];
+  let listenSidechain = false;
+
+  const bus = ctx.createGain();
+  const monitor = ctx.createGain();
+  monitor.connect(ctx.destination);
+
+  const dryDelay = ctx.createDelay(1);
+  const dryGain = ctx.createGain();
+  bus.connect(dryDelay);
+  dryDelay.connect(dryGain);
+  dryGain.connect(monitor);
+
+  const chainOut = ctx.createGain();
+  const matchGain = ctx.createGain();
+  const wetGain = ctx.createGain();
+  chainOut.connect(matchGain);
+  matchGain.connect(wetGain);
+  wetGain.connect(monitor);
+
+  const dryTap = createLevelTap(ctx, dryDelay);
+  const wetTap = createLevelTap(ctx, chainOut);
+
+  // A new graph fades in over the old one, which is torn down once it is silent
+  const fadeIn = (node: AudioNode, destination: AudioNode, instant: boolean) => {
+    const fade = ctx.createGain();
+    fade.gain.value = instant ? 1 : 0;
+    if (!instant) fade.gain.setTargetAtTime(1, ctx.currentTime, CROSSFADE_TIME_CONSTANT);
+    node.connect(fade).connect(destination);
+    return fade;
+  };
+  const retire = (fade: GainNode, cleanup: () => void) => {
+    fade.gain.setTargetAtTime(0, ctx.currentTime, CROSSFADE_TIME_CONSTANT);
+    window.setTimeout(() => {
+      fade.disconnect();
+      cleanup();
+    }, CROSSFADE_MS);
+  };
+
+  // Stems: one strip per stem into the bus, each fed by that stem's player
+  const stemList = () => stemSettings.map(settings => ({ settings }));
+  const audibility = () => {
+    const list = stemList();
+    const audible = audibleStems(list);
+    return list.map(stem => audible.includes(stem));
+  };
+  let players: (AudioBufferSourceNode | null)[] = buffers.map(() => null);
+  const strips: { strip: StemStrip; fade: GainNode }[] = [];
+
+  const buildStrip = (i: number, instant: boolean) => {
+    const vocalCleanup = vocalCleanupActive(stemList(), options);
+    const strip = createStemStrip(ctx, stemSettings[i], options, env!, vocalCleanup, audibility()[i]);
+    const old = strips[i];
+    strips[i] = { strip, fade: fadeIn(strip.output, bus, instant) };
+    players[i]?.connect(strip.input);
+    // The player may have been replaced by then, so the old strip is cut off behind its input instead
+    if (old) retire(old.fade, () => old.strip.input.disconnect());
+  };
+
+  const updateStrips = () => {
+    const audible = audibility();
+    strips.forEach(({ strip }, i) => {
+      if (!strip.update(stemSettings[i], options, audible[i])) buildStrip(i, false);
+    });
+  };
+
+  // The chain behind the bus, rebuilt only when its stage line-up changes
+  let chain: { nodes: MasteringChain; input: GainNode; fade: GainNode } | null = null;
+  const chainEnv = (): ChainEnvironment => ({ ...env!, listenSidechain });
+  const busOptions = () => (stems ? mixBusOptions(stemList(), options) : options);
+
+  const buildChain = () => {
+    const input = ctx.createGain();
+    bus.connect(input);
+    const nodes = buildMasteringChain(ctx, input, busOptions(), chainEnv());
+    const old = chain;
+    chain = { nodes, input, fade: fadeIn(nodes.output, chainOut, !old) };
+    dryDelay.delayTime.value = nodes.latency / ctx.sampleRate;
+    if (old) {
+      retire(old.fade, () => {
+        bus.disconnect(old.input);
+        old.nodes.dispose();
+      });
+    }
+  };
+
+  // Analysis runs once per session, the first time the options need it. It runs between
+  // frames, one scan at a time, and the chain picks the result up when it is done.
+  let analysing = false;
+  let pending = false;
+  let disposed = false;
+  const analyse = () => {
+    if (analysing) {
+      pending = true;
+      return;
+    }
+    analysing = true;
+    pending = false;
+    runScanInSlices(scanForChain(programme, options, env)).then(next => {
+      analysing = false;
+      if (disposed) return;
+      if (next.resonances !== env!.resonances || next.spectrum !== env!.spectrum) {
+        env = next;
+        refresh();
+      } else if (pending) {
+        analyse();
+      }
+    }, error => {
+      analysing = false;
+      console.error("Preview analysis failed", error);
+    });
+  };
+
+  const refresh = () => {
+    analyse();
+    if (stems) updateStrips();
+    if (!chain!.nodes.update(busOptions(), chainEnv())) buildChain();
+  };
+
+  let bypass = false;
+  const setBypass = (value: boolean) => {
+    bypass = value;
+    dryGain.gain.setTargetAtTime(bypass ? 1 : 0, ctx.currentTime, SWITCH_TIME_CONSTANT);
+    wetGain.gain.setTargetAtTime(bypass ? 0 : 1, ctx.currentTime, SWITCH_TIME_CONSTANT);
+  };
+
+  // Transport
+  let playing = false;
+  let offset = 0;
+  let startedAt = 0;
+  let loop: AudioRegion | null = null;
+
+  // The master is pulled down/up to the original's short-term loudness
+  let loudnessMatch = true;
+  const matchTimer = window.setInterval(() => {
+    if (!playing) return;
+    dryTap.poll();
+    wetTap.poll();
+    const dry = dryTap.loudness();
+    const wet = wetTap.loudness();
+    let target = 1;
+    if (loudnessMatch && dry > LOUDNESS_FLOOR && wet > LOUDNESS_FLOOR) {
+      const db = Math.max(-MATCH_RANGE_DB, Math.min(MATCH_RANGE_DB, dry - wet));
+      target = Math.pow(10, db / 20);
+    }
+    matchGain.gain.setTargetAtTime(target, ctx.currentTime, MATCH_TIME_CONSTANT);
+  }, MATCH_INTERVAL_MS);
+
+  const getPosition = () => {
+    if (!playing) return offset;
+    const position = Math.min(duration, ctx.currentTime - startedAt);
+    // The players wrap by themselves; the clock has to be folded back into the loop
+    if (loop && position >= loop.end) return loop.start + ((position - loop.start) % (loop.end - loop.start));
+    return position;
+  };
+
+  const stopPlayers = () => {
+    players.forEach(player => {
+      if (!player) return;
+      player.onended = null;
+      player.stop();
+      player.disconnect();
+    });
+    players = buffers.map(() => null);
+  };
+
+  const play = () => {
+    if (playing) return;
+    if (ctx.state === 'suspended') ctx.resume();
+    if (offset >= duration) offset = 0;
+    if (loop && (offset < loop.start || offset >= loop.end)) offset = loop.start;
+    const longest = buffers.findIndex(buffer => buffer.duration === duration);
+    players = buffers.map((buffer, i) => {
+      const player = ctx.createBufferSource();
+      player.buffer = buffer;
+      if (loop) {
+        player.loop = true;
+        player.loopStart = loop.start;
+        player.loopEnd = loop.end;
+      }
+      player.connect(stems ? strips[i].strip.input : bus);
+      if (i === longest) {
+        player.onended = () => {
+          playing = false;
+          offset = duration;
+          stopPlayers();
+        };
+      }
+      return player;
+    });
+    startedAt = ctx.currentTime - offset;
+    players.forEach(player => player!.start(0, offset));
+    dryTap.reset();
+    wetTap.reset();
+    playing = true;
+  };
+
+  const pause = () => {
+    if (!playing) return;
+    offset = getPosition();
+    stopPlayers();
+    playing = false;
+  };
+
+  const seek = (seconds: number) => {
+    const wasPlaying = playing;
+    pause();
+    offset = Math.max(0, Math.min(duration, seconds));
+    if (wasPlaying) play();
+  };
+
+  const setLoop = (region: AudioRegion | null) => {
+    const wasPlaying = playing;
+    pause();
+    loop = region && region.end > region.start ? region : null;
+    if (wasPlaying) play();
+  };
+
+  const dispose = () => {
+    disposed = true;
+    window.clearInterval(matchTimer);
+    stopPlayers();
+    chain?.nodes.dispose();
+    ctx.close();
+  };
+
+  env = await runScanInSlices(scanForChain(programme, options));
+  stemSettings.forEach((_, i) => buildStrip(i, true));
+  buildChain();
+  setBypass(false);
+
+  return {
+    duration,
+    play,
+    pause,
+    seek,
+    getPosition,
+    isPlaying: () => playing,
+    setOptions: (next: AudioProcessOptions) => {
+      options = next;
+      refresh();
+    },
+    setStemSettings: (settings: StemSettings[]) => {
+      if (!stems || settings.length !== stems.length) return;
+      stemSettings = settings;
+      refresh();
+    },
+    setBypass,
+    setLoudnessMatch: (enabled: boolean) => { loudnessMatch = enabled; },
+    setSidechainListen: (enabled: boolean) => {
+      listenSidechain = enabled;
+      refresh();
+    },
+    setLoop,
+    dispose,
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { AudioProcessOptions, ProcessingStage } from '../types';
+import { DEFAULT_DE_ESSER, DEFAULT_OPTIONS, describeChain, migrateOptions, resolveChain, setStageBypass } from './processingChain';
+
+const stage = (options: AudioProcessOptions, id: string) => resolveChain(options).find(s => s.id === id)!;
+const withDeEsser = (options: AudioProcessOptions, enabled: boolean): AudioProcessOptions =>
+  ({ ...options, deEsser: { ...DEFAULT_DE_ESSER, enabled } });
+
+describe('chain overrides', () => {
+  it('follows the de-esser switch after loading a preset saved with its whole chain', () => {
+    const saved = withDeEsser(DEFAULT_OPTIONS, false);
+    const loaded = migrateOptions({ ...saved, chain: describeChain(saved) } as AudioProcessOptions & { chain: ProcessingStage[] });
+    expect(stage(loaded, 'deesser').bypass).toBe(true);
+
+    const toggled = withDeEsser(loaded, true);
+    expect(stage(toggled, 'deesser').bypass).toBe(false);
+    expect(resolveChain(toggled)).not.toEqual(resolveChain(loaded));
+  });
+
+  it('keeps a hand bypass from a saved chain and nothing else', () => {
+    const saved = withDeEsser(DEFAULT_OPTIONS, false);
+    const chain = describeChain(saved).map(s => (s.id === 'warmth' ? { ...s, bypass: !s.bypass } : s));
+    const loaded = migrateOptions({ ...saved, chain } as AudioProcessOptions & { chain: ProcessingStage[] });
+    expect(loaded.stageOverrides).toEqual({ warmth: { bypass: saved.enableWarmth } });
+    expect('chain' in loaded).toBe(false);
+  });
+
+  it('keeps a stage bypassed by hand while its settings change', () => {
+    const bypassed = setStageBypass({ ...DEFAULT_OPTIONS, widthAmount: 1.2 }, 'stereo', true);
+    const widened = { ...bypassed, widthAmount: 1.5 };
+    expect(stage(widened, 'stereo')).toMatchObject({ bypass: true, params: { width: 1.5 } });
+  });
+
+  it('drops an override that matches what the options give', () => {
+    const bypassed = setStageBypass(DEFAULT_OPTIONS, 'limiter', true);
+    expect(bypassed.stageOverrides).toEqual({ limiter: { bypass: true } });
+    expect(setStageBypass(bypassed, 'limiter', false).stageOverrides).toBeUndefined();
+  });
+});
@@ -0,0 +1,498 @@
+import {
+  AudioProcessOptions,
+  BitcrusherSettings,
+  CreativeFxSettings,
+  DeEsserSettings,
+  DelayModulationSettings,
+  DelayDivision,
+  DelaySettings,
+  LimiterSettings,
+  LoudnessTarget,
+  MasteringPreset,
+  MonoBandRange,
+  MultibandSettings,
+  PhaseGuardSettings,
+  PhaserSettings,
+  ProcessingStage,
+  ReferenceMatchSettings,
+  ReverbSettings,
+  TapeSettings,
+} from "../types";
+
+// --- STEREO IMAGE ---
+
+const WIDTH_PRESETS: Record<AudioProcessOptions['stereoWidth'], number> = {
+  normal: 1.0,
+  wide: 1.4,
+};
+export const DEFAULT_MONO_BASS_HZ = 120;
+
+export const resolveStereoWidth = (options: AudioProcessOptions): number =>
+  options.widthAmount ?? WIDTH_PRESETS[options.stereoWidth];
+
+// --- DYNAMICS ---
+
+/**
+ * Per-preset band layouts. Thresholds sit lower than the broadband compressor's
+ * because each band only carries part of the programme energy.
+ */
+export const MULTIBAND_PRESETS: Record<MasteringPreset, MultibandSettings> = {
+  balanced: {
+    enabled: true,
+    crossovers: [120, 2500],
+    bands: [
+      { threshold: -28, ratio: 2.0, attack: 30, release: 200 },
+      { threshold: -30, ratio: 1.5, attack: 20, release: 180 },
+      { threshold: -34, ratio: 1.5, attack: 10, release: 120 },
+    ],
+  },
+  pop: {
+    enabled: true,
+    crossovers: [100, 800, 5000],
+    bands: [
+      { threshold: -30, ratio: 2.5, attack: 25, release: 180 },
+      { threshold: -30, ratio: 1.8, attack: 20, release: 160 },
+      { threshold: -32, ratio: 1.8, attack: 12, release: 140 },
+      { threshold: -36, ratio: 1.5, attack: 8, release: 100 },
+    ],
+  },
+  electronic: {
+    // Fast, firm low band so 808 tails stop pumping the vocal range
+    enabled: true,
+    crossovers: [90, 600, 6000],
+    bands: [
+      { threshold: -32, ratio: 3.0, attack: 10, release: 120 },
+      { threshold: -30, ratio: 2.0, attack: 15, release: 150 },
+      { threshold: -32, ratio: 1.8, attack: 10, release: 120 },
+      { threshold: -36, ratio: 1.5, attack: 5, release: 90 },
+    ],
+  },
+  rock: {
+    enabled: true,
+    crossovers: [150, 3000],
+    bands: [
+      { threshold: -28, ratio: 2.0, attack: 40, release: 250 },
+      { threshold: -28, ratio: 2.0, attack: 25, release: 200 },
+      { threshold: -32, ratio: 1.8, attack: 15, release: 150 },
+    ],
+  },
+  lofi: {
+    enabled: true,
+    crossovers: [200, 3500],
+    bands: [
+      { threshold: -26, ratio: 1.5, attack: 50, release: 300 },
+      { threshold: -28, ratio: 1.5, attack: 40, release: 300 },
+      { threshold: -30, ratio: 2.5, attack: 20, release: 250 },
+    ],
+  },
+};
+
+const getChainConfig = (options: AudioProcessOptions) => ({
+  safetyHeadroom: -20.0,
+  compThreshold: options.intensity === 'high' ? -28 : -24,
+  compRatio: options.intensity === 'high' ? 2.5 : 1.5,
+  finalGain: options.intensity === 'high' ? 15.0 : 13.0,
+  // Same 4 dB push the broadband threshold gets at high intensity
+  multibandOffset: options.intensity === 'high' ? -4 : 0,
+  naturalizerDepth: options.intensity === 'high' ? 9 : options.intensity === 'low' ? 4 : 6,
+});
+
+// --- CREATIVE FX ---
+
+export const DEFAULT_CHORUS: DelayModulationSettings = {
+  enabled: false,
+  rate: 1.2,
+  depth: 0.4,
+  feedback: 0,
+  mix: 0.35,
+  stereoPhase: 90,
+  delay: 20,
+};
+
+export const DEFAULT_PHASER: PhaserSettings = {
+  enabled: false,
+  rate: 0.4,
+  depth: 0.7,
+  feedback: 0.4,
+  mix: 0.5,
+  stereoPhase: 90,
+  frequency: 1000,
+  stages: 4,
+};
+
+export const DEFAULT_FLANGER: DelayModulationSettings = {
+  enabled: false,
+  rate: 0.25,
+  depth: 0.7,
+  feedback: 0.5,
+  mix: 0.5,
+  stereoPhase: 0,
+  delay: 5,
+};
+
+/**
+ * Options saved before the modulation FX had parameter sets carry a bare
+ * 0..1 intensity. These rebuild the old fixed sound from it, minus the old
+ * level jump: the wet share now follows the intensity instead of adding to the dry.
+ */
+const LEGACY_MODULATION = {
+  chorus: (intensity: number): DelayModulationSettings => ({
+    enabled: intensity > 0, rate: 1.5, depth: 0.1 * intensity, feedback: 0, mix: 0.5 * intensity, stereoPhase: 180, delay: 22.5,
+  }),
+  phaser: (intensity: number): PhaserSettings => ({
+    enabled: intensity > 0, rate: 0.5, depth: 0.9 * intensity, feedback: 0.4 * intensity, mix: 0.5, stereoPhase: 0, frequency: 1000, stages: 4,
+  }),
+  flanger: (intensity: number): DelayModulationSettings => ({
+    enabled: intensity > 0, rate: 0.3, depth: 0.75 * intensity, feedback: 0.5 * intensity, mix: 0.5, stereoPhase: 0, delay: 3,
+  }),
+};
+
+export const DEFAULT_REVERB: ReverbSettings = {
+  enabled: false,
+  type: 'plate',
+  decay: 1.8,
+  preDelay: 20,
+  mix: 0.2,
+};
+
+export const DEFAULT_DELAY: DelaySettings = {
+  enabled: false,
+  bpm: 120,
+  division: '1/8d',
+  feedback: 0.35,
+  pingPong: true,
+  lowCut: 200,
+  highCut: 6000,
+  mix: 0.15,
+};
+
+export const DEFAULT_TAPE: TapeSettings = {
+  enabled: false,
+  drive: 6,
+  wow: 0.3,
+  flutter: 0.3,
+  mix: 1,
+};
+
+export const DEFAULT_BITCRUSHER: BitcrusherSettings = {
+  enabled: false,
+  bits: 12,
+  rate: 22050,
+  mix: 0.5,
+};
+
+// Length of one repeat in beats
+export const DELAY_DIVISIONS: Record<DelayDivision, number> = {
+  '1/4': 1,
+  '1/8': 0.5,
+  '1/8d': 0.75,
+  '1/8t': 1 / 3,
+  '1/16': 0.25,
+};
+
+export const delayTimeSeconds = (bpm: number, division: DelayDivision) => (60 / bpm) * DELAY_DIVISIONS[division];
+
+// Stage params are the settings minus their on/off switch, which becomes the bypass flag
+const stageParams = <T extends { enabled: boolean }>({ enabled, ...params }: T) => params;
+
+type ModulationType = keyof typeof LEGACY_MODULATION;
+const MODULATION_TYPES = Object.keys(LEGACY_MODULATION) as ModulationType[];
+
+// Options as presets and render records stored them when they carried the whole chain
+type StoredOptions = AudioProcessOptions & { chain?: ProcessingStage[] };
+
+/**
+ * Upgrades stored options (presets, imports, render history). Modulation FX
+ * saved as bare intensities get full settings, and a saved chain is reduced
+ * to the bypass flags that differ from what its options give.
+ */
+export const migrateOptions = ({ chain, ...options }: StoredOptions): AudioProcessOptions => {
+  const stored = options.creativeFx as unknown as Record<ModulationType, unknown>;
+  const creativeFx: CreativeFxSettings = { ...options.creativeFx };
+  for (const type of MODULATION_TYPES) {
+    const value = stored[type];
+    if (typeof value === 'number') Object.assign(creativeFx, { [type]: LEGACY_MODULATION[type](value) });
+  }
+
+  const migrated = { ...options, creativeFx };
+  if (!chain) return migrated;
+  const savedBypass = new Map(chain.map(stage => [stage.id, stage.bypass]));
+  return describeChain(migrated).reduce(
+    (next, stage) => (savedBypass.has(stage.id) ? setStageBypass(next, stage.id, savedBypass.get(stage.id)!) : next),
+    migrated
+  );
+};
+
+// --- REFERENCE MATCH ---
+
+export const DEFAULT_REFERENCE_MATCH: ReferenceMatchSettings = {
+  enabled: false,
+  reference: null,
+  amount: 0.7,
+  maxBoost: 4,
+  maxCut: 6,
+};
+
+// --- DE-ESSER ---
+
+// Off unless switched on, like options saved before the de-esser existed
+export const DEFAULT_DE_ESSER: DeEsserSettings = {
+  enabled: false,
+  threshold: -12,
+  range: 6,
+};
+
+// --- PHASE GUARD ---
+
+export const DEFAULT_PHASE_GUARD: PhaseGuardSettings = {
+  enabled: false,
+  mode: 'low',
+  threshold: 0.2,
+  frequency: 200,
+  band: { low: 400, high: 2500 },
+};
+
+/** Guard settings aimed at one band of a mono report: the bass guards everything below it. */
+export const phaseGuardForBand = (band: MonoBandRange, current: PhaseGuardSettings = DEFAULT_PHASE_GUARD): PhaseGuardSettings =>
+  band.low <= 20
+    ? { ...current, enabled: true, mode: 'low', frequency: band.high }
+    : { ...current, enabled: true, mode: 'band', band: { low: band.low, high: band.high } };
+
+// --- TRUE-PEAK LIMITER ---
+
+export const DEFAULT_LIMITER: LimiterSettings = {
+  ceiling: -1.0,
+  release: 120,
+  lookahead: 5,
+};
+
+/**
+ * Limiter settings with the loudness target's true-peak taking over the ceiling.
+ */
+export const resolveLimiterSettings = (options: AudioProcessOptions): LimiterSettings => {
+  const settings = { ...DEFAULT_LIMITER, ...options.limiter };
+  if (options.loudnessTarget) settings.ceiling = options.loudnessTarget.truePeak;
+  return settings;
+};
+
+// --- CHAIN DESCRIPTION ---
+
+/**
+ * The default chain for a set of options, in processing order. Every stage is
+ * always present; switched-off features are marked as bypassed so the chain
+ * panel can switch any of them back on.
+ */
+export const describeChain = (options: AudioProcessOptions): ProcessingStage[] => {
+  const config = getChainConfig(options);
+  const width = resolveStereoWidth(options);
+  const multiband = options.multiband ?? { ...MULTIBAND_PRESETS[options.preset ?? 'balanced'], enabled: false };
+  const referenceMatch = options.referenceMatch ?? DEFAULT_REFERENCE_MATCH;
+  const phaseGuard = options.phaseGuard ?? DEFAULT_PHASE_GUARD;
+  const deEsser = options.deEsser ?? DEFAULT_DE_ESSER;
+  const { tape = DEFAULT_TAPE, bitcrusher = DEFAULT_BITCRUSHER, delay = DEFAULT_DELAY, reverb = DEFAULT_REVERB } = options.creativeFx;
+
+  return [
+    {
+      id: 'headroom', type: 'gain', label: 'Safety Headroom', bypass: false,
+      params: { gain: config.safetyHeadroom },
+    },
+    {
+      id: 'highpass', type: 'eq', label: 'Rumble Filter', bypass: false,
+      params: { bands: [{ type: 'highpass', frequency: 85, Q: 0.707, gain: 0 }] },
+    },
+    // 1. CREATIVE FX LAYER (Pre-Dynamics): colour, then modulation, then space
+    {
+      id: 'tape', type: 'tape', label: 'Tape', bypass: !tape.enabled,
+      params: stageParams(tape),
+    },
+    {
+      id: 'bitcrusher', type: 'bitcrusher', label: 'Bitcrusher', bypass: !bitcrusher.enabled,
+      params: stageParams(bitcrusher),
+    },
+    {
+      id: 'chorus', type: 'chorus', label: 'Chorus', bypass: !options.creativeFx.chorus.enabled,
+      params: stageParams(options.creativeFx.chorus),
+    },
+    {
+      id: 'phaser', type: 'phaser', label: 'Phaser', bypass: !options.creativeFx.phaser.enabled,
+      params: stageParams(options.creativeFx.phaser),
+    },
+    {
+      id: 'flanger', type: 'flanger', label: 'Flanger', bypass: !options.creativeFx.flanger.enabled,
+      params: stageParams(options.creativeFx.flanger),
+    },
+    {
+      id: 'delay', type: 'delay', label: 'Delay', bypass: !delay.enabled,
+      params: stageParams(delay),
+    },
+    {
+      id: 'reverb', type: 'reverb', label: 'Reverb', bypass: !reverb.enabled,
+      params: stageParams(reverb),
+    },
+    // 2. SURGICAL NATURALIZER
+    {
+      // Notches come from the FFT resonance scan of the track being processed
+      id: 'naturalizer', type: 'naturalizer', label: 'Vocal Naturalizer', bypass: !options.enableNaturalizer,
+      params: {
+        threshold: 3,
+        maxDepth: config.naturalizerDepth,
+        maxNotches: 6,
+      },
+    },
+    // 3. TONAL SHAPING
+    {
+      // Curve is derived from the reference and this track's own long-term spectrum
+      id: 'match', type: 'matchEq', label: 'Reference Match',
+      bypass: !referenceMatch.enabled || !referenceMatch.reference,
+      params: {
+        reference: referenceMatch.reference,
+        amount: referenceMatch.amount,
+        maxBoost: referenceMatch.maxBoost,
+        maxCut: referenceMatch.maxCut,
+      },
+    },
+    {
+      id: 'tone', type: 'eq', label: 'Tonal Shaping', bypass: false,
+      params: {
+        bands: [
+          { type: 'lowshelf', frequency: 180, Q: 1, gain: options.preset === 'electronic' ? 1.5 : 0.5 },
+          { type: 'highshelf', frequency: 11000, Q: 1, gain: options.preset === 'pop' ? 1.5 : 0.5 },
+        ],
+      },
+    },
+    {
+      // After the shelves, so the high-shelf lift can't push sibilance back up
+      id: 'deesser', type: 'deEsser', label: 'De-Esser', bypass: !deEsser.enabled,
+      params: stageParams(deEsser),
+    },
+    // 4. STEREO IMAGE (Mid/Side)
+    {
+      // Active even at unity width: the bass below the crossover is always folded to mono
+      id: 'stereo', type: 'stereoImage', label: 'Stereo Image', bypass: false,
+      params: { width, monoBassFrequency: options.monoBassFrequency ?? DEFAULT_MONO_BASS_HZ },
+    },
+    {
+      // After everything that can widen: creative FX and the widener itself
+      id: 'phaseGuard', type: 'phaseGuard', label: 'Phase Guard', bypass: !phaseGuard.enabled,
+      params: stageParams(phaseGuard),
+    },
+    // 5. SOFT ENVELOPE (Compressor, broadband or multiband)
+    {
+      id: 'compressor', type: 'compressor', label: 'Soft Envelope', bypass: multiband.enabled,
+      params: { threshold: config.compThreshold, knee: 35, ratio: config.compRatio, attack: 40, release: 250 },
+    },
+    {
+      id: 'multiband', type: 'multiband', label: 'Multiband Dynamics', bypass: !multiband.enabled,
+      params: {
+        crossovers: multiband.crossovers,
+        bands: multiband.bands.map(band => ({ ...band, threshold: band.threshold + config.multibandOffset })),
+      },
+    },
+    // 6. GAIN SMOOTHING
+    {
+      id: 'warmth', type: 'saturation', label: 'Tube Warmth', bypass: !options.enableWarmth,
+      params: { curve: 'silk' },
+    },
+    // 7. FINAL LEVELING
+    {
+      id: 'makeup', type: 'gain', label: 'Makeup Gain', bypass: false,
+      params: { gain: config.finalGain },
+    },
+    {
+      id: 'limiter', type: 'limiter', label: 'True-Peak Limiter', bypass: false,
+      params: resolveLimiterSettings(options),
+    },
+  ];
+};
+
+/** The chain for a set of options, with the chain panel's overrides applied. */
+export const resolveChain = (options: AudioProcessOptions): ProcessingStage[] =>
+  describeChain(options).map(stage => {
+    const override = options.stageOverrides?.[stage.id];
+    return override ? { ...stage, bypass: override.bypass } : stage;
+  });
+
+// --- PRESETS ---
+
+export const DEFAULT_LOUDNESS_TARGET: LoudnessTarget = { lufs: -14, truePeak: -1 };
+
+/** What a fresh session starts from, in the web UI and the CLI alike. */
+export const DEFAULT_OPTIONS: AudioProcessOptions = {
+  intensity: 'medium',
+  stereoWidth: 'normal',
+  enableWarmth: true,
+  enableFades: true,
+  enableNaturalizer: true,
+  deEsser: DEFAULT_DE_ESSER,
+  exportFormat: 'mp3',
+  bitDepth: 16,
+  sampleRate: 48000,
+  dither: 'tpdf',
+  preset: 'balanced',
+  multiband: { ...MULTIBAND_PRESETS.balanced, enabled: false },
+  creativeFx: {
+    chorus: DEFAULT_CHORUS,
+    phaser: DEFAULT_PHASER,
+    flanger: DEFAULT_FLANGER,
+  },
+};
+
+/**
+ * Options with a genre preset applied. Creative FX are reset so one preset's
+ * effects never leak into the next; any manual width is dropped so the
+ * preset's stereoWidth takes over again.
+ */
+export const applyPreset = (options: AudioProcessOptions, preset: MasteringPreset): AudioProcessOptions => {
+  const next: AudioProcessOptions = {
+    ...options,
+    preset,
+    widthAmount: undefined,
+    multiband: { ...MULTIBAND_PRESETS[preset], enabled: options.multiband?.enabled ?? false },
+  };
+  const resetCreative: CreativeFxSettings = { chorus: DEFAULT_CHORUS, phaser: DEFAULT_PHASER, flanger: DEFAULT_FLANGER };
+
+  if (preset === 'pop') {
+    next.intensity = 'high';
+    next.stereoWidth = 'wide';
+    next.enableWarmth = true;
+    next.creativeFx = resetCreative;
+  } else if (preset === 'electronic') {
+    next.intensity = 'high';
+    next.stereoWidth = 'wide';
+    next.enableWarmth = true;
+    next.creativeFx = { ...resetCreative, chorus: { ...DEFAULT_CHORUS, enabled: true, mix: 0.15 } }; // Subtle width
+  } else if (preset === 'rock') {
+    next.intensity = 'medium';
+    next.stereoWidth = 'normal';
+    next.enableWarmth = true;
+    next.creativeFx = resetCreative;
+  } else if (preset === 'lofi') {
+    next.intensity = 'low';
+    next.stereoWidth = 'normal';
+    next.enableWarmth = true;
+    // Worn tape, a touch of crunch and a small room
+    next.creativeFx = {
+      ...resetCreative,
+      tape: { ...DEFAULT_TAPE, enabled: true, drive: 9, wow: 0.6, flutter: 0.4 },
+      bitcrusher: { ...DEFAULT_BITCRUSHER, enabled: true, bits: 10, rate: 16000, mix: 0.3 },
+      reverb: { ...DEFAULT_REVERB, enabled: true, type: 'room', decay: 0.8, mix: 0.15 },
+    };
+  } else {
+    next.intensity = 'medium';
+    next.stereoWidth = 'normal';
+    next.enableWarmth = true;
+    next.creativeFx = resetCreative;
+  }
+  return next;
+};
+
+/**
+ * Records a bypass choice from the chain panel. Choosing what the options give
+ * anyway drops the override, so the stage follows them again.
+ */
+export const setStageBypass = (options: AudioProcessOptions, id: string, bypass: boolean): AudioProcessOptions => {
+  const others = Object.entries(options.stageOverrides ?? {}).filter(([key]) => key !== id);
+  const derived = describeChain(options).find(stage => stage.id === id);
+  const overrides = derived && derived.bypass !== bypass ? [...others, [id, { bypass }]] : others;
+  return { ...options, stageOverrides: overrides.length ? Object.fromEntries(overrides) : undefined };
+};
@@ -0,0 +1,385 @@
+import { QcCheck, QcCheckId, QcEvent, QcReport, QcStatus } from "../types";
+import { measureTruePeak } from "./loudness";
+import { createPowerSpectrum, mixFrameToMono, powerToDb, runScan, Scan, SCAN_STRIDE } from "./dsp";
+import { ABRUPT_EDGE_DB, scanAudibleRange, scanEdgeLevels } from "./edges";
+
+/**
+ * Health check for a decoded source before mastering. AI renders have a few
+ * recurring faults the chain can't repair (hard-cut endings, lossy top end,
+ * shimmer), so they are surfaced up front with timestamps.
+ */
+
+// --- THRESHOLDS ---
+
+const DC_WARN_DB = -50;
+const DC_FAIL_DB = -34;
+
+const PEAK_BLOCK = 1024;
+const TRUE_PEAK_HISTORY = 12; // Interpolator taps, so each block sees its lead-in
+const TRUE_PEAK_SCAN_LEVEL = 0.5; // Blocks under -6 dBFS can't realistically overshoot full scale
+const TRUE_PEAK_WARN_DB = -1;
+const CLIP_LEVEL = 0.9999;
+const CLIP_RUN = 3; // Consecutive full-scale samples that count as a flat top
+
+const SILENCE_LEVEL = 1 / 32768; // One 16-bit step
+const GAP_WARN_SECONDS = 0.1;
+const GAP_FAIL_SECONDS = 1;
+
+const CORRELATION_WINDOW_SECONDS = 1;
+const CORRELATION_FAIL = -0.3;
+const CORRELATION_WARN = -0.5;
+const QUIET_DB = -50; // Windows below this are too quiet to judge
+
+const ENDING_LEVEL_DB = -60; // Below this the track has ended
+const ENDING_FAIL_DB = -10; // Warns from ABRUPT_EDGE_DB, the level auto fades react to
+
+const FFT_SIZE = 4096;
+const SHIMMER_BAND = { low: 10000, high: 16000 };
+const PRESENCE_BAND = { low: 1000, high: 5000 };
+const SHIMMER_WARN_DB = -12;
+const SHIMMER_FAIL_DB = -6;
+
+const CUTOFF_CONTENT_RANGE_DB = 60;
+const CUTOFF_DROP_DB = 25;
+const CUTOFF_FAIL_HZ = 16500;
+const CUTOFF_WARN_HZ = 19500;
+
+const MERGE_SECONDS = 0.5;
+const MAX_EVENTS = 20;
+
+// --- HELPERS ---
+
+const toDb = (linear: number) => 20 * Math.log10(linear + 1e-20);
+
+export const formatQcTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  return `${m}:${(seconds - m * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const STATUS_RANK: Record<QcStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+const worstStatus = (statuses: QcStatus[]): QcStatus =>
+  statuses.reduce<QcStatus>((worst, s) => (STATUS_RANK[s] > STATUS_RANK[worst] ? s : worst), 'pass');
+
+// A flagged stretch of time with the figure that flagged it
+interface Span {
+  start: number;
+  end: number;
+  value: number;
+}
+
+/**
+ * Joins spans closer than MERGE_SECONDS (keeping the most extreme value per
+ * `pick`) and formats the first MAX_EVENTS.
+ */
+const toEvents = (
+  spans: Span[],
+  describe: (value: number) => string,
+  pick: (a: number, b: number) => number = Math.max
+): { events: QcEvent[]; count: number } => {
+  const merged: Span[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start - last.end <= MERGE_SECONDS) {
+      last.end = Math.max(last.end, span.end);
+      last.value = pick(last.value, span.value);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return {
+    events: merged.slice(0, MAX_EVENTS).map(s => ({ start: s.start, end: s.end, detail: describe(s.value) })),
+    count: merged.length,
+  };
+};
+
+const check = (
+  id: QcCheckId,
+  label: string,
+  status: QcStatus,
+  summary: string,
+  value?: number,
+  events: QcEvent[] = []
+): QcCheck => ({ id, label, status, summary, value, events });
+
+// --- CHECKS ---
+
+// Each check is a scan over the source; they yield every block, window or frame
+const checkDcOffset = function* (channels: Float32Array[]): Scan<QcCheck> {
+  const offsets: number[] = [];
+  for (const channel of channels) {
+    let sum = 0;
+    for (let i = 0; i < channel.length; i++) {
+      sum += channel[i];
+      if (i % SCAN_STRIDE === 0) yield;
+    }
+    offsets.push(toDb(Math.abs(sum / Math.max(1, channel.length))));
+  }
+  const offsetDb = Math.max(...offsets);
+  const status = offsetDb > DC_FAIL_DB ? 'fail' : offsetDb > DC_WARN_DB ? 'warn' : 'pass';
+  return check('dcOffset', 'DC Offset', status, status === 'pass'
+    ? `No meaningful DC offset (${offsetDb.toFixed(1)} dBFS).`
+    : `DC offset of ${offsetDb.toFixed(1)} dBFS. The rumble filter removes it, but it costs headroom and causes clicks at edits.`,
+    offsetDb);
+};
+
+const checkClipping = function* (channels: Float32Array[], sampleRate: number): Scan<QcCheck> {
+  const length = channels[0].length;
+  const spans: Span[] = [];
+  let maxPeak = 0;
+  let flatTops = 0;
+
+  for (let start = 0; start < length; start += PEAK_BLOCK) {
+    yield;
+    const end = Math.min(length, start + PEAK_BLOCK);
+    let blockPeak = 0;
+    let clipped = false;
+    for (const channel of channels) {
+      let samplePeak = 0;
+      let run = 0;
+      for (let i = start; i < end; i++) {
+        const a = Math.abs(channel[i]);
+        if (a > samplePeak) samplePeak = a;
+        run = a >= CLIP_LEVEL ? run + 1 : 0;
+        if (run === CLIP_RUN) clipped = true;
+      }
+      const peak = samplePeak >= TRUE_PEAK_SCAN_LEVEL
+        ? measureTruePeak(channel.subarray(Math.max(0, start - TRUE_PEAK_HISTORY), end))
+        : samplePeak;
+      if (peak > blockPeak) blockPeak = peak;
+    }
+    if (blockPeak > maxPeak) maxPeak = blockPeak;
+    if (clipped) flatTops++;
+    if (blockPeak > 1 || clipped) spans.push({ start: start / sampleRate, end: end / sampleRate, value: toDb(blockPeak) });
+  }
+
+  const peakDb = toDb(maxPeak);
+  const { events, count } = toEvents(spans, v => `Reaches ${v.toFixed(2)} dBTP`);
+  if (count > 0) {
+    return check('intersampleClipping', 'Intersample Clipping', 'fail',
+      `${count} passage${count === 1 ? '' : 's'} over 0 dBTP (max ${peakDb.toFixed(2)} dBTP)`
+        + (flatTops > 0 ? `, with flat-topped samples in ${flatTops} block${flatTops === 1 ? '' : 's'}.` : '.'),
+      peakDb, events);
+  }
+  return peakDb > TRUE_PEAK_WARN_DB
+    ? check('intersampleClipping', 'Intersample Clipping', 'warn',
+      `True peak ${peakDb.toFixed(2)} dBTP. No overs, but under 1 dB of headroom for lossy encoding.`, peakDb)
+    : check('intersampleClipping', 'Intersample Clipping', 'pass', `True peak ${peakDb.toFixed(2)} dBTP.`, peakDb);
+};
+
+const checkSilenceGaps = function* (channels: Float32Array[], sampleRate: number): Scan<QcCheck> {
+  const length = channels[0].length;
+  const silentAt = (i: number) => channels.every(channel => Math.abs(channel[i]) <= SILENCE_LEVEL);
+
+  let first = 0;
+  while (first < length && silentAt(first)) {
+    if (++first % SCAN_STRIDE === 0) yield;
+  }
+  if (first === length) {
+    return check('silenceGaps', 'Digital Silence', 'fail', 'The file is digital silence throughout.', length / sampleRate);
+  }
+  let last = length - 1;
+  while (last > first && silentAt(last)) {
+    if (--last % SCAN_STRIDE === 0) yield;
+  }
+
+  const spans: Span[] = [];
+  let runStart = -1;
+  for (let i = first; i <= last + 1; i++) {
+    if (i % SCAN_STRIDE === 0) yield;
+    const silent = i <= last && silentAt(i);
+    if (silent && runStart < 0) runStart = i;
+    if (!silent && runStart >= 0) {
+      const seconds = (i - runStart) / sampleRate;
+      if (seconds >= GAP_WARN_SECONDS) spans.push({ start: runStart / sampleRate, end: i / sampleRate, value: seconds });
+      runStart = -1;
+    }
+  }
+
+  const longest = spans.reduce((max, s) => Math.max(max, s.value), 0);
+  const edges = `Lead-in ${(first / sampleRate).toFixed(2)} s, tail ${((length - 1 - last) / sampleRate).toFixed(2)} s.`;
+  const { events, count } = toEvents(spans, v => `${v.toFixed(2)} s of digital silence`);
+  if (count === 0) return check('silenceGaps', 'Digital Silence', 'pass', `No dropouts inside the track. ${edges}`, 0);
+  return check('silenceGaps', 'Digital Silence', longest >= GAP_FAIL_SECONDS ? 'fail' : 'warn',
+    `${count} dropout${count === 1 ? '' : 's'} to digital silence inside the track (longest ${longest.toFixed(2)} s). ${edges}`,
+    longest, events);
+};
+
+const checkPhase = function* (channels: Float32Array[], sampleRate: number): Scan<QcCheck> {
+  if (channels.length < 2) return check('phaseInversion', 'Phase', 'pass', 'Mono source; nothing to compare.');
+  const [left, right] = channels;
+  const window = Math.round(CORRELATION_WINDOW_SECONDS * sampleRate);
+  const spans: Span[] = [];
+  let totalLR = 0, totalLL = 0, totalRR = 0;
+
+  for (let start = 0; start < left.length; start += window) {
+    yield;
+    const end = Math.min(left.length, start + window);
+    let lr = 0, ll = 0, rr = 0;
+    for (let i = start; i < end; i++) {
+      lr += left[i] * right[i];
+      ll += left[i] * left[i];
+      rr += right[i] * right[i];
+    }
+    totalLR += lr;
+    totalLL += ll;
+    totalRR += rr;
+    if (10 * Math.log10((ll + rr) / (2 * (end - start)) + 1e-20) < QUIET_DB) continue;
+    const correlation = lr / Math.sqrt(ll * rr + 1e-20);
+    if (correlation < CORRELATION_WARN) spans.push({ start: start / sampleRate, end: end / sampleRate, value: correlation });
+  }
+
+  const overall = totalLR / Math.sqrt(totalLL * totalRR + 1e-20);
+  const { events, count } = toEvents(spans, v => `Correlation ${v.toFixed(2)}`, Math.min);
+  if (overall < CORRELATION_FAIL) {
+    return check('phaseInversion', 'Phase', 'fail',
+      `Left and right are out of phase overall (correlation ${overall.toFixed(2)}). One channel is probably polarity-inverted and the track will collapse in mono.`,
+      overall, events);
+  }
+  return count > 0
+    ? check('phaseInversion', 'Phase', 'warn',
+      `Correlation ${overall.toFixed(2)} overall, but ${count} passage${count === 1 ? ' is' : 's are'} out of phase.`, overall, events)
+    : check('phaseInversion', 'Phase', 'pass', `Channels correlate at ${overall.toFixed(2)}.`, overall);
+};
+
+const checkEnding = function* (channels: Float32Array[], sampleRate: number): Scan<QcCheck> {
+  const { start, end } = yield* scanAudibleRange(channels, ENDING_LEVEL_DB);
+  if (end === start) return check('abruptEnding', 'Ending', 'pass', 'No audible content to judge.');
+  const levels = yield* scanEdgeLevels(channels, sampleRate, start, end);
+  if (!levels) return check('abruptEnding', 'Ending', 'pass', 'Too quiet throughout to judge the ending.');
+
+  const relative = levels.tail;
+  const status = relative > ENDING_FAIL_DB ? 'fail' : relative > ABRUPT_EDGE_DB ? 'warn' : 'pass';
+  const events = status === 'pass' ? [] : [{
+    start: end / sampleRate - levels.edgeSeconds,
+    end: end / sampleRate,
+    detail: `Last ${Math.round(levels.edgeSeconds * 1000)} ms sit ${relative.toFixed(1)} dB from the average level`,
+  }];
+  return check('abruptEnding', 'Ending', status, status === 'fail'
+    ? `The track stops at full level at ${formatQcTime(end / sampleRate)}; it was cut off rather than ended. Set fades to Auto or Always to end it cleanly.`
+    : status === 'warn'
+      ? `The ending at ${formatQcTime(end / sampleRate)} is still fairly loud (${relative.toFixed(1)} dB). Set fades to Auto or Always to end it cleanly.`
+      : `Ends naturally (${relative.toFixed(1)} dB below the average level).`,
+    relative, events);
+};
+
+const bandPower = (spectrum: Float64Array, binHz: number, band: { low: number; high: number }) => {
+  let sum = 0;
+  const last = Math.min(spectrum.length - 1, Math.floor(band.high / binHz));
+  for (let k = Math.ceil(band.low / binHz); k <= last; k++) sum += spectrum[k];
+  return sum;
+};
+
+const checkSpectrum = function* (channels: Float32Array[], sampleRate: number): Scan<QcCheck[]> {
+  // A polarity-flipped pair cancels in the mono mix; fall back to one channel then
+  const length = channels[0].length;
+  let monoEnergy = 0;
+  let firstEnergy = 0;
+  for (let i = 0; i < length; i++) {
+    let mono = 0;
+    for (const channel of channels) mono += channel[i] / channels.length;
+    monoEnergy += mono * mono;
+    firstEnergy += channels[0][i] * channels[0][i];
+    if (i % SCAN_STRIDE === 0) yield;
+  }
+  const source = monoEnergy * 4 < firstEnergy ? [channels[0]] : channels;
+  const signal = new Float32Array(FFT_SIZE);
+
+  const bins = FFT_SIZE / 2 + 1;
+  const binHz = sampleRate / FFT_SIZE;
+  const analyze = createPowerSpectrum(FFT_SIZE);
+  const frame = new Float64Array(bins);
+  const power = new Float64Array(bins);
+  const shimmerSpans: Span[] = [];
+  const silence = Math.pow(10, QUIET_DB / 10);
+  let audible = 0;
+
+  for (let offset = 0; offset < length; offset += FFT_SIZE) {
+    yield;
+    analyze(mixFrameToMono(source, offset, signal), 0, frame);
+    const presence = bandPower(frame, binHz, PRESENCE_BAND);
+    if (presence < silence) continue;
+    audible++;
+    for (let k = 0; k < bins; k++) power[k] += frame[k];
+    const ratio = powerToDb(bandPower(frame, binHz, SHIMMER_BAND)) - powerToDb(presence);
+    if (ratio > SHIMMER_FAIL_DB) {
+      shimmerSpans.push({ start: offset / sampleRate, end: Math.min(length, offset + FFT_SIZE) / sampleRate, value: ratio });
+    }
+  }
+  if (audible === 0) {
+    return [
+      check('hfShimmer', 'HF Shimmer', 'pass', 'No audible content to judge.'),
+      check('lossyCutoff', 'Lossy Cutoff', 'pass', 'No audible content to judge.'),
+    ];
+  }
+
+  // Shimmer: 10-16 kHz energy against the 1-5 kHz presence band
+  const ratio = powerToDb(bandPower(power, binHz, SHIMMER_BAND)) - powerToDb(bandPower(power, binHz, PRESENCE_BAND));
+  const { events, count } = toEvents(shimmerSpans, v => `10-16 kHz at ${v.toFixed(1)} dB vs presence`);
+  const shimmerStatus: QcStatus = ratio > SHIMMER_FAIL_DB ? 'fail' : ratio > SHIMMER_WARN_DB || count > 0 ? 'warn' : 'pass';
+  const shimmer = check('hfShimmer', 'HF Shimmer', shimmerStatus, shimmerStatus === 'pass'
+    ? `Top end sits ${ratio.toFixed(1)} dB under the presence band.`
+    : `Top end sits ${ratio.toFixed(1)} dB against the presence band`
+      + (count > 0 ? `, with ${count} spike${count === 1 ? '' : 's'} of metallic sizzle.` : '.')
+      + ' The Naturalizer and de-esser can tame it.',
+    ratio, events);
+
+  // Cutoff: the highest frequency still carrying content, and whether the spectrum falls off a cliff there
+  const smoothing = Math.max(1, Math.round(100 / binHz));
+  const db = Float64Array.from({ length: bins }, (_, k) => {
+    let sum = 0, n = 0;
+    for (let j = Math.max(0, k - smoothing); j <= Math.min(bins - 1, k + smoothing); j++, n++) sum += power[j] / audible;
+    return powerToDb(sum / n);
+  });
+  let top = -Infinity;
+  for (let k = Math.ceil(200 / binHz); k <= Math.floor(8000 / binHz); k++) top = Math.max(top, db[k]);
+  let edge = bins - 1 - smoothing;
+  while (edge > 0 && db[edge] < top - CUTOFF_CONTENT_RANGE_DB) edge--;
+  const edgeHz = edge * binHz;
+
+  const below = db[Math.max(0, edge - Math.round(1000 / binHz))];
+  let above = 0, aboveCount = 0;
+  for (let k = edge + Math.round(500 / binHz); k <= Math.min(bins - 1, edge + Math.round(2000 / binHz)); k++, aboveCount++) above += db[k];
+  const isBrickWall = aboveCount > 0 && below - above / aboveCount > CUTOFF_DROP_DB;
+  const kHz = (edgeHz / 1000).toFixed(1);
+
+  const cutoff = !isBrickWall
+    ? check('lossyCutoff', 'Lossy Cutoff', 'pass', `No brick-wall low-pass; content reaches ${kHz} kHz.`)
+    : edgeHz < CUTOFF_FAIL_HZ
+      ? check('lossyCutoff', 'Lossy Cutoff', 'fail',
+        `Brick-wall low-pass at ${kHz} kHz, typical of a 128-192 kbps MP3. Use the WAV download; mastering can't restore the missing top end.`, edgeHz)
+      : edgeHz < CUTOFF_WARN_HZ
+        ? check('lossyCutoff', 'Lossy Cutoff', 'warn',
+          `Low-pass at ${kHz} kHz, typical of a high-bitrate MP3 or AAC source.`, edgeHz)
+        : check('lossyCutoff', 'Lossy Cutoff', 'pass', `Low-pass at ${kHz} kHz, above the range that matters.`, edgeHz);
+
+  return [shimmer, cutoff];
+};
+
+// --- REPORT ---
+
+export const scanQuality = function* (channels: Float32Array[], sampleRate: number, fileName = ''): Scan<QcReport> {
+  const checks = [
+    yield* checkDcOffset(channels),
+    yield* checkClipping(channels, sampleRate),
+    yield* checkSilenceGaps(channels, sampleRate),
+    yield* checkPhase(channels, sampleRate),
+    yield* checkEnding(channels, sampleRate),
+    ...(yield* checkSpectrum(channels, sampleRate)),
+  ];
+  return {
+    fileName,
+    createdAt: new Date().toISOString(),
+    duration: channels[0].length / sampleRate,
+    sampleRate,
+    channels: channels.length,
+    status: worstStatus(checks.map(c => c.status)),
+    checks,
+  };
+};
+
+export const runQualityCheck = (channels: Float32Array[], sampleRate: number, fileName = '') =>
+  runScan(scanQuality(channels, sampleRate, fileName));
+
+export const exportQcReport = (report: QcReport): Blob =>
+  new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
@@ -0,0 +1,38 @@
+import { ReferenceProfile, SpectrumProfile } from "../types";
+
+// Shared between the Vibe Cloner (which measures references) and the mastering view
+const STORAGE_KEY = 'afriSunoReferenceSpectra';
+
+export const loadReferenceProfiles = (): ReferenceProfile[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse reference spectra", e);
+    return [];
+  }
+};
+
+const persist = (profiles: ReferenceProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+/**
+ * Stores a measured spectrum under a name; re-measuring a track with the
+ * same name replaces the old entry.
+ */
+export const saveReferenceProfile = (name: string, spectrum: SpectrumProfile): ReferenceProfile[] => {
+  const profile: ReferenceProfile = {
+    id: Date.now().toString(),
+    name: name.trim(),
+    createdAt: Date.now(),
+    frequencies: spectrum.frequencies,
+    levels: spectrum.levels.map(level => Math.round(level * 100) / 100),
+  };
+  return persist([profile, ...loadReferenceProfiles().filter(p => p.name !== profile.name)]);
+};
+
+export const deleteReferenceProfile = (id: string): ReferenceProfile[] =>
+  persist(loadReferenceProfiles().filter(p => p.id !== id));
@@ -0,0 +1,100 @@
+import { AudioProcessOptions, ProcessResult, RenderRecord, TrackMetadata } from "../types";
+import { migrateOptions } from "./processingChain";
+
+/**
+ * Every render's settings and measurements, newest first. Only the records
+ * persist; the audio itself is too large for localStorage and lives in
+ * memory for the session.
+ */
+
+const STORAGE_KEY = 'afriSunoRenderHistory';
+const REPORT_FORMAT = 'afrisuno-render-report';
+const REPORT_VERSION = 1;
+const MAX_RECORDS = 30;
+
+interface RenderReportFile {
+  format: typeof REPORT_FORMAT;
+  version: number;
+  render: RenderRecord;
+}
+
+export const loadRenderHistory = (): RenderRecord[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const records: RenderRecord[] = JSON.parse(saved);
+    return records.map(record => ({ ...record, options: migrateOptions(record.options) }));
+  } catch (e) {
+    console.error("Failed to parse render history", e);
+    return [];
+  }
+};
+
+const persist = (records: RenderRecord[]) => {
+  const kept = records.slice(0, MAX_RECORDS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  return kept;
+};
+
+export const createRenderRecord = (
+  result: Pick<ProcessResult, 'input' | 'output' | 'mono'>,
+  sourceName: string,
+  fileName: string,
+  options: AudioProcessOptions,
+  metadata?: TrackMetadata
+): RenderRecord => ({
+  // Several deliveries can finish within the same millisecond
+  id: `${Date.now()}-${fileName}`,
+  createdAt: Date.now(),
+  sourceName,
+  fileName,
+  options,
+  metadata: metadata && (metadata.title || metadata.artist) ? metadata : undefined,
+  input: result.input,
+  output: result.output,
+  mono: result.mono,
+});
+
+export const saveRenderRecord = (record: RenderRecord): RenderRecord[] =>
+  persist([record, ...loadRenderHistory().filter(r => r.id !== record.id)]);
+
+export const deleteRenderRecord = (id: string): RenderRecord[] =>
+  persist(loadRenderHistory().filter(r => r.id !== id));
+
+export const clearRenderHistory = (): RenderRecord[] => persist([]);
+
+/** Top-level settings that differ between two renders, e.g. `['limiter', 'widthAmount']`. */
+export const diffOptions = (a: AudioProcessOptions, b: AudioProcessOptions): (keyof AudioProcessOptions)[] => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof AudioProcessOptions)[]);
+  return [...keys].filter(key => JSON.stringify(a[key]) !== JSON.stringify(b[key]));
+};
+
+// --- REPORT SIDECAR ---
+
+/** `AfriSuno_Enhanced_take.mp3` → `AfriSuno_Enhanced_take.report.json` */
+export const reportFileName = (fileName: string) => `${fileName.replace(/\.[^/.]+$/, "")}.report.json`;
+
+export const exportRenderReport = (record: RenderRecord): Blob => {
+  const file: RenderReportFile = { format: REPORT_FORMAT, version: REPORT_VERSION, render: record };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+/**
+ * Reads a report sidecar back, e.g. to re-apply the settings of an old
+ * master. The record keeps its original id and date.
+ */
+export const importRenderReport = async (file: File): Promise<RenderRecord> => {
+  let parsed: RenderReportFile;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error("Report file is not valid JSON.");
+  }
+  if (parsed.format !== REPORT_FORMAT || !parsed.render?.options) {
+    throw new Error("Not an AfriSuno render report.");
+  }
+  if (parsed.version > REPORT_VERSION) {
+    throw new Error("Report was made by a newer version of the app.");
+  }
+  return { ...parsed.render, options: migrateOptions(parsed.render.options) };
+};
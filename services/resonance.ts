@@ -0,0 +1,184 @@
+import { NaturalizerSettings, ResonanceAnalysis, ResonancePeak } from "../types";
+import { createPowerSpectrum, mixFrameToMono, powerToDb, runScan, Scan } from "./dsp";
+
+/**
+ * Finds the narrow, ringing peaks AI vocals tend to carry in the presence
+ * region. Peaks are measured against a smoothed copy of the long-term
+ * spectrum, so broad tonal balance never counts as a resonance.
+ */
+
+const FFT_SIZE = 4096;
+const MIN_FREQUENCY = 1500;
+const MAX_FREQUENCY = 12000;
+const BASELINE_OCTAVES = 0.25; // Half-width of the smoothing window
+const CANDIDATE_PROMINENCE = 2; // dB; the stage's threshold decides what is actually cut
+const MAX_CANDIDATES = 12;
+const MIN_SPACING_OCTAVES = 1 / 6;
+const SILENCE_DB = -70;
+const DEPTH_RATIO = 0.8; // Share of a peak's excess that gets cut
+
+// Moving average of `db` over a fixed fraction of an octave around each bin
+const smoothLogFrequency = (db: Float32Array, out: Float32Array) => {
+  const prefix = new Float64Array(db.length + 1);
+  for (let k = 0; k < db.length; k++) prefix[k + 1] = prefix[k] + db[k];
+  const ratio = Math.pow(2, BASELINE_OCTAVES);
+  for (let k = 1; k < db.length; k++) {
+    const lo = Math.max(1, Math.floor(k / ratio));
+    const hi = Math.min(db.length - 1, Math.ceil(k * ratio));
+    out[k] = (prefix[hi + 1] - prefix[lo]) / (hi - lo + 1);
+  }
+  out[0] = out[1];
+  return out;
+};
+
+const frameLevelDb = (frame: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return 10 * Math.log10(sum / FFT_SIZE + 1e-20);
+};
+
+// Half-prominence bandwidth of the peak at bin `k`, as a filter Q
+const estimateQ = (prominence: Float32Array, k: number, binHz: number) => {
+  const half = prominence[k] / 2;
+  let lo = k;
+  let hi = k;
+  while (lo > 1 && prominence[lo - 1] > half) lo--;
+  while (hi < prominence.length - 2 && prominence[hi + 1] > half) hi++;
+  const bandwidth = Math.max(1, hi - lo + 1) * binHz;
+  return Math.min(16, Math.max(2, (k * binHz) / bandwidth));
+};
+
+const findPeaks = (spectrum: Float32Array, baseline: Float32Array, binHz: number): { bin: number; peak: ResonancePeak }[] => {
+  const prominence = spectrum.map((v, k) => v - baseline[k]);
+  const first = Math.ceil(MIN_FREQUENCY / binHz);
+  const last = Math.min(spectrum.length - 4, Math.floor(MAX_FREQUENCY / binHz));
+
+  const candidates: { bin: number; peak: ResonancePeak }[] = [];
+  for (let k = first; k <= last; k++) {
+    if (prominence[k] < CANDIDATE_PROMINENCE) continue;
+    let isMax = true;
+    for (let d = 1; d <= 3 && isMax; d++) {
+      if (spectrum[k - d] > spectrum[k] || spectrum[k + d] > spectrum[k]) isMax = false;
+    }
+    if (!isMax) continue;
+    // Parabolic interpolation for a frequency between bins
+    const a = spectrum[k - 1], b = spectrum[k], c = spectrum[k + 1];
+    const denom = a - 2 * b + c;
+    const shift = denom === 0 ? 0 : (0.5 * (a - c)) / denom;
+    candidates.push({
+      bin: k,
+      peak: {
+        frequency: (k + shift) * binHz,
+        Q: estimateQ(prominence, k, binHz),
+        prominence: prominence[k],
+      },
+    });
+  }
+
+  // Strongest first, dropping anything crowding a stronger peak
+  candidates.sort((x, y) => y.peak.prominence - x.peak.prominence);
+  const accepted: typeof candidates = [];
+  for (const candidate of candidates) {
+    const crowded = accepted.some(a =>
+      Math.abs(Math.log2(a.peak.frequency / candidate.peak.frequency)) < MIN_SPACING_OCTAVES);
+    if (!crowded) accepted.push(candidate);
+    if (accepted.length === MAX_CANDIDATES) break;
+  }
+  return accepted;
+};
+
+/**
+ * Two passes over the track: the first builds the long-term spectrum and
+ * picks the peaks, the second tracks how prominent each peak is over time.
+ * Yields after every frame.
+ */
+export const scanResonances = function* (channels: Float32Array[], sampleRate: number): Scan<ResonanceAnalysis> {
+  const bins = FFT_SIZE / 2 + 1;
+  const binHz = sampleRate / FFT_SIZE;
+  const analyze = createPowerSpectrum(FFT_SIZE);
+  const mono = new Float32Array(FFT_SIZE);
+  const frame = new Float64Array(bins);
+  const frameCount = Math.max(1, Math.ceil(channels[0].length / FFT_SIZE));
+
+  // Pass 1: power average over non-silent frames
+  const power = new Float64Array(bins);
+  const audible = new Uint8Array(frameCount);
+  let audibleCount = 0;
+  for (let f = 0; f < frameCount; f++) {
+    yield;
+    if (frameLevelDb(mixFrameToMono(channels, f * FFT_SIZE, mono)) < SILENCE_DB) continue;
+    audible[f] = 1;
+    audibleCount++;
+    analyze(mono, 0, frame);
+    for (let k = 0; k < bins; k++) power[k] += frame[k];
+  }
+
+  const spectrum = new Float32Array(bins);
+  for (let k = 0; k < bins; k++) spectrum[k] = powerToDb(power[k] / Math.max(1, audibleCount));
+  const baseline = smoothLogFrequency(spectrum, new Float32Array(bins));
+  const found = audibleCount > 0 ? findPeaks(spectrum, baseline, binHz) : [];
+
+  // Pass 2: per-frame prominence at each peak against that frame's own local average
+  const ratio = Math.pow(2, BASELINE_OCTAVES);
+  const activity = found.map(() => new Float32Array(frameCount));
+  if (found.length > 0) {
+    for (let f = 0; f < frameCount; f++) {
+      if (!audible[f]) continue;
+      yield;
+      analyze(mixFrameToMono(channels, f * FFT_SIZE, mono), 0, frame);
+      found.forEach(({ bin }, i) => {
+        const lo = Math.max(1, Math.floor(bin / ratio));
+        const hi = Math.min(bins - 1, Math.ceil(bin * ratio));
+        // Compare power averages; averaging dB values would bias noise upwards
+        let sum = 0;
+        for (let k = lo; k <= hi; k++) sum += frame[k];
+        const local = sum / (hi - lo + 1);
+        const level = (frame[bin - 1] + frame[bin] + frame[bin + 1]) / 3;
+        activity[i][f] = Math.max(0, powerToDb(level) - powerToDb(local));
+      });
+    }
+    // Light smoothing so the notch depth doesn't flutter frame to frame
+    for (const curve of activity) {
+      const raw = curve.slice();
+      for (let f = 0; f < frameCount; f++) {
+        curve[f] = (raw[Math.max(0, f - 1)] + raw[f] + raw[Math.min(frameCount - 1, f + 1)]) / 3;
+      }
+    }
+  }
+
+  return {
+    frequencies: Float32Array.from({ length: bins }, (_, k) => k * binHz),
+    spectrum,
+    baseline,
+    peaks: found.map(f => f.peak),
+    hop: FFT_SIZE / sampleRate,
+    offset: FFT_SIZE / 2 / sampleRate,
+    activity,
+  };
+};
+
+export const detectResonances = (channels: Float32Array[], sampleRate: number) =>
+  runScan(scanResonances(channels, sampleRate));
+
+export interface ResonanceNotch {
+  frequency: number;
+  Q: number;
+  depth: number; // dB of cut for the static (average) setting
+  gains: Float32Array; // Gain automation in dB (<= 0), one point per analysis hop
+}
+
+/**
+ * Turns detected peaks into notch filters for the given settings. Depth
+ * follows each peak's prominence, both overall and moment to moment.
+ */
+export const selectNotches = (analysis: ResonanceAnalysis, settings: NaturalizerSettings): ResonanceNotch[] =>
+  analysis.peaks
+    .map((peak, i) => ({ peak, activity: analysis.activity[i] }))
+    .filter(({ peak }) => peak.prominence >= settings.threshold)
+    .slice(0, settings.maxNotches)
+    .map(({ peak, activity }) => ({
+      frequency: peak.frequency,
+      Q: peak.Q,
+      depth: Math.min(settings.maxDepth, peak.prominence * DEPTH_RATIO),
+      gains: activity.map(p => -Math.min(settings.maxDepth, p * DEPTH_RATIO)),
+    }));
@@ -0,0 +1,149 @@
+import { EqBand, ReferenceMatchSettings, SpectrumProfile } from "../types";
+import { createPowerSpectrum, mixFrameToMono, peakingResponseDb, powerToDb, runScan, Scan } from "./dsp";
+
+/**
+ * Long-term average spectra and the matching EQ that pushes one track's tonal
+ * balance toward another's. Spectra are kept in third-octave bands so a
+ * profile is small enough to store and ship inside the processing options.
+ */
+
+const FFT_SIZE = 8192;
+const SILENCE_DB = -70;
+// Third-octave band indices relative to 1 kHz: 40 Hz .. 16 kHz
+const FIRST_BAND = -14;
+const LAST_BAND = 12;
+// Bands further below the loudest band than this carry no usable information
+const USABLE_RANGE_DB = 60;
+// The overall level offset is taken from this range, where both tracks have real content
+const LEVEL_MIN_HZ = 100;
+const LEVEL_MAX_HZ = 8000;
+// The EQ itself uses one peaking filter per octave
+const EQ_Q = 1.4;
+const EQ_SOLVER_ITERATIONS = 12;
+
+export const MATCH_BANDS = Array.from(
+  { length: LAST_BAND - FIRST_BAND + 1 },
+  (_, i) => 1000 * Math.pow(2, (FIRST_BAND + i) / 3)
+);
+
+const frameLevelDb = (frame: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return 10 * Math.log10(sum / FFT_SIZE + 1e-20);
+};
+
+/**
+ * Power average of the audible frames, summed into third-octave bands (so
+ * pink noise reads flat). Yields after every frame.
+ */
+export const scanSpectrum = function* (channels: Float32Array[], sampleRate: number): Scan<SpectrumProfile> {
+  const bins = FFT_SIZE / 2 + 1;
+  const binHz = sampleRate / FFT_SIZE;
+  const analyze = createPowerSpectrum(FFT_SIZE);
+  const mono = new Float32Array(FFT_SIZE);
+  const frame = new Float64Array(bins);
+  const power = new Float64Array(bins);
+  let audible = 0;
+
+  for (let offset = 0; offset < channels[0].length; offset += FFT_SIZE) {
+    yield;
+    if (frameLevelDb(mixFrameToMono(channels, offset, mono)) < SILENCE_DB) continue;
+    analyze(mono, 0, frame);
+    for (let k = 0; k < bins; k++) power[k] += frame[k];
+    audible++;
+  }
+
+  const edge = Math.pow(2, 1 / 6);
+  const levels = MATCH_BANDS.map(centre => {
+    const lo = centre / edge;
+    const hi = Math.min(centre * edge, sampleRate / 2);
+    let sum = 0;
+    let count = 0;
+    for (let k = Math.ceil(lo / binHz); k * binHz < hi && k < bins; k++) {
+      sum += power[k];
+      count++;
+    }
+    // Low bands can be narrower than a bin; scale the nearest bin by the band's share of it
+    if (count === 0) sum = power[Math.min(bins - 1, Math.round(centre / binHz))] * ((hi - lo) / binHz);
+    return powerToDb(sum / Math.max(1, audible));
+  });
+
+  return { frequencies: [...MATCH_BANDS], levels };
+};
+
+export const measureSpectrum = (channels: Float32Array[], sampleRate: number) =>
+  runScan(scanSpectrum(channels, sampleRate));
+
+// Three-tap smoothing across neighbouring bands, applied twice (about 2/3 octave)
+const smoothBands = (values: number[]) => {
+  let out = values;
+  for (let pass = 0; pass < 2; pass++) {
+    const src = out;
+    out = src.map((v, i) => 0.25 * src[Math.max(0, i - 1)] + 0.5 * v + 0.25 * src[Math.min(src.length - 1, i + 1)]);
+  }
+  return out;
+};
+
+/**
+ * Per-band gain (dB) that moves `target` toward `reference`, ignoring the
+ * overall level difference, smoothed, scaled by `amount` and capped at the
+ * boost/cut limits. Both profiles must use the same bands.
+ */
+export const computeMatchCurve = (
+  reference: SpectrumProfile,
+  target: SpectrumProfile,
+  settings: Pick<ReferenceMatchSettings, 'amount' | 'maxBoost' | 'maxCut'>
+): number[] => {
+  const refFloor = Math.max(...reference.levels) - USABLE_RANGE_DB;
+  const targetFloor = Math.max(...target.levels) - USABLE_RANGE_DB;
+  const usable = reference.levels.map((r, i) => r > refFloor && target.levels[i] > targetFloor);
+  const diff = reference.levels.map((r, i) => r - target.levels[i]);
+
+  let offset = 0;
+  let count = 0;
+  reference.frequencies.forEach((f, i) => {
+    if (!usable[i] || f < LEVEL_MIN_HZ || f > LEVEL_MAX_HZ) return;
+    offset += diff[i];
+    count++;
+  });
+  if (count === 0) return diff.map(() => 0);
+  offset /= count;
+
+  const relative = diff.map((d, i) => (usable[i] ? d - offset : 0));
+  return smoothBands(relative).map(g =>
+    Math.max(-settings.maxCut, Math.min(settings.maxBoost, g * settings.amount)));
+};
+
+/**
+ * Octave-spaced peaking filters whose combined response hits `curve` at each
+ * filter's centre. Neighbouring filters overlap, so the gains are solved
+ * iteratively against the real biquad response rather than copied from the
+ * curve.
+ */
+export const designMatchEq = (frequencies: number[], curve: number[], sampleRate: number): EqBand[] => {
+  // Every third band is an octave centre
+  const centres: number[] = [];
+  const targets: number[] = [];
+  frequencies.forEach((f, i) => {
+    if ((i + FIRST_BAND) % 3 !== 0 || f >= sampleRate * 0.45) return;
+    centres.push(f);
+    targets.push(curve[i]);
+  });
+
+  const gains = [...targets];
+  for (let iteration = 0; iteration < EQ_SOLVER_ITERATIONS; iteration++) {
+    const realized = centres.map(f =>
+      centres.reduce((db, centre, j) => db + peakingResponseDb(f, centre, EQ_Q, gains[j], sampleRate), 0));
+    realized.forEach((db, i) => { gains[i] += 0.7 * (targets[i] - db); });
+  }
+
+  return centres
+    .map((frequency, i) => ({ type: 'peaking' as const, frequency, Q: EQ_Q, gain: gains[i] }))
+    .filter(band => Math.abs(band.gain) >= 0.05);
+};
+
+/**
+ * Combined response (dB) of a set of peaking bands, for plotting.
+ */
+export const eqResponseDb = (bands: EqBand[], frequency: number, sampleRate: number) =>
+  bands.reduce((db, band) => db + peakingResponseDb(frequency, band.frequency, band.Q, band.gain, sampleRate), 0);
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { PcmStem, StemSettings } from '../types';
+import { audibleStems, createStemSettings, guessStemRole, mixStems, stemSongName } from './stems';
+
+const SAMPLE_RATE = 48000;
+
+const stem = (channels: number[][], settings: Partial<StemSettings> = {}): PcmStem => ({
+  channels: channels.map(channel => Float32Array.from(channel)),
+  sampleRate: SAMPLE_RATE,
+  settings: { ...createStemSettings('stem.wav'), ...settings },
+});
+
+const mixed = (stems: PcmStem[]) => mixStems(stems).channels.map(channel => Array.from(channel));
+
+describe('mixStems', () => {
+  it('sums at unity and runs as long as the longest stem', () => {
+    const [left, right] = mixed([stem([[0.5, 0.5], [0.25, 0.25]]), stem([[0.125, 0.125, 0.125], [0, 0, 1]])]);
+    expect(left).toEqual([0.625, 0.625, 0.125]);
+    expect(right).toEqual([0.25, 0.25, 1]);
+  });
+
+  it('pans a mono stem at equal power and balances a stereo one', () => {
+    const [left, right] = mixed([stem([[1]])]);
+    expect(left[0]).toBeCloseTo(Math.SQRT1_2, 6);
+    expect(right[0]).toBeCloseTo(Math.SQRT1_2, 6);
+
+    // Hard left folds the right channel into the left; halfway keeps half the right's power
+    expect(mixed([stem([[0.5], [0.25]], { pan: -1 })]).map(([x]) => x)).toEqual([0.75, 0]);
+    const [[l], [r]] = mixed([stem([[0.5], [0.25]], { pan: -0.5 })]);
+    expect(l).toBeCloseTo(0.5 + 0.25 * Math.cos(Math.PI / 4), 6);
+    expect(r).toBeCloseTo(0.25 * Math.sin(Math.PI / 4), 6);
+  });
+
+  it('applies gain in dB and leaves out muted and unsoloed stems', () => {
+    const stems = [
+      stem([[0.5], [0.5]], { gain: -6, solo: true }),
+      stem([[1], [1]]),
+      stem([[1], [1]], { solo: true, mute: true }),
+    ];
+    expect(audibleStems(stems)).toEqual([stems[0]]);
+    const [[left]] = mixed(stems);
+    expect(left).toBeCloseTo(0.5 * Math.pow(10, -6 / 20), 6);
+  });
+
+  it('refuses stems at different rates', () => {
+    expect(() => mixStems([stem([[0]]), { ...stem([[0]]), sampleRate: 44100 }])).toThrow();
+  });
+});
+
+describe('stem names', () => {
+  it('guesses roles from Suno stem names', () => {
+    expect(guessStemRole('Song (Vocals).wav')).toBe('vocals');
+    expect(guessStemRole('Song (Instrumental).wav')).toBe('instrumental');
+    expect(guessStemRole('Song (Drums).wav')).toBe('other');
+  });
+
+  it('takes the song name from what the stems share', () => {
+    expect(stemSongName(['Song (Vocals).wav', 'Song (Instrumental).wav'])).toBe('Song');
+    expect(stemSongName(['a.wav', 'b.wav'])).toBe('Mix');
+  });
+});
@@ -0,0 +1,100 @@
+import { EqBand, PcmAudio, PcmStem, StemEq, StemRole, StemSettings } from "../types";
+
+/**
+ * Stem mixdown settings and the offline sum the mastering analysis runs on.
+ * The render itself mixes the stems inside its own graph; the sum here
+ * reproduces its gain, pan and mute/solo exactly, but not the stem EQ or the
+ * vocal cleanup.
+ */
+
+const STEM_EQ_SHAPE: Record<keyof StemEq, Omit<EqBand, 'gain'>> = {
+  low: { type: 'lowshelf', frequency: 150, Q: 0.7 },
+  mid: { type: 'peaking', frequency: 1000, Q: 0.8 },
+  high: { type: 'highshelf', frequency: 6000, Q: 0.7 },
+};
+
+export const DEFAULT_STEM_EQ: StemEq = { low: 0, mid: 0, high: 0 };
+
+const ROLE_PATTERNS: [StemRole, RegExp][] = [
+  ['vocals', /vocal|vox|voice|acapella|a cappella/i],
+  ['instrumental', /instrumental|inst\b|karaoke|backing|beat|music/i],
+];
+
+// Suno names its stems after their content, e.g. "Song (Vocals).wav"
+export const guessStemRole = (fileName: string): StemRole =>
+  ROLE_PATTERNS.find(([, pattern]) => pattern.test(fileName))?.[0] ?? 'other';
+
+export const createStemSettings = (fileName: string): StemSettings => ({
+  role: guessStemRole(fileName),
+  gain: 0,
+  pan: 0,
+  mute: false,
+  solo: false,
+  eq: DEFAULT_STEM_EQ,
+});
+
+/** Any solo silences every stem that isn't soloed; mute always wins. */
+export const audibleStems = <T extends { settings: StemSettings }>(stems: T[]): T[] => {
+  const soloing = stems.some(stem => stem.settings.solo);
+  return stems.filter(stem => !stem.settings.mute && (!soloing || stem.settings.solo));
+};
+
+/** Biquads for the stem EQ. Flat bands stay in (at 0 dB they pass the signal unchanged) so a live mix can move them. */
+export const stemEqBands = (eq: StemEq): EqBand[] =>
+  (Object.keys(STEM_EQ_SHAPE) as (keyof StemEq)[]).map(band => ({ ...STEM_EQ_SHAPE[band], gain: eq[band] }));
+
+/** Shared start of the stem names, e.g. "Song" for "Song (Vocals).wav" and "Song (Instrumental).wav". */
+export const stemSongName = (fileNames: string[]) => {
+  const names = fileNames.map(name => name.replace(/\.[^/.]+$/, ""));
+  let prefix = names[0] ?? '';
+  for (const name of names) {
+    while (!name.startsWith(prefix)) prefix = prefix.slice(0, -1);
+  }
+  return prefix.replace(/[\s_\-([]+$/, '') || 'Mix';
+};
+
+// Source name of a stem mixdown, for file names and the render history
+export const stemMixName = (fileNames: string[]) => `${stemSongName(fileNames)}_Stems`;
+
+/**
+ * Channel gains of a StereoPannerNode, so the analysis sum pans exactly
+ * like the render: equal-power for mono, balance for stereo.
+ */
+const panGains = (pan: number, stereo: boolean) => {
+  const x = stereo ? (pan <= 0 ? pan + 1 : pan) : (pan + 1) / 2;
+  return { left: Math.cos((x * Math.PI) / 2), right: Math.sin((x * Math.PI) / 2) };
+};
+
+/**
+ * Stereo sum of the audible stems with their gain and pan, as long as the
+ * longest one. Stems decoded in the page always share the context's rate.
+ */
+export const mixStems = (stems: PcmStem[]): PcmAudio => {
+  const sampleRate = stems[0].sampleRate;
+  if (stems.some(stem => stem.sampleRate !== sampleRate)) throw new Error("Stems must share one sample rate.");
+  const length = Math.max(...stems.map(stem => stem.channels[0].length));
+  const left = new Float32Array(length);
+  const right = new Float32Array(length);
+
+  for (const { channels, settings } of audibleStems(stems)) {
+    const gain = Math.pow(10, settings.gain / 20);
+    const stereo = channels.length > 1;
+    const pan = panGains(settings.pan, stereo);
+    const [inL, inR = inL] = channels;
+    for (let i = 0; i < inL.length; i++) {
+      const l = inL[i] * gain;
+      const r = inR[i] * gain;
+      if (!stereo) {
+        left[i] += l * pan.left;
+        right[i] += l * pan.right;
+      } else if (settings.pan <= 0) {
+        left[i] += l + r * pan.left;
+        right[i] += r * pan.right;
+      } else {
+        left[i] += l * pan.left;
+        right[i] += r + l * pan.right;
+      }
+    }
+  }
+  return { channels: [left, right], sampleRate };
+};
@@ -0,0 +1,255 @@
+import { KeyAgreement, KeyEstimate, LocalMusicAnalysis, TempoAgreement, TempoEstimate } from "../types";
+import { createPowerSpectrum, runScan, Scan } from "./dsp";
+
+/**
+ * On-device tempo and key estimates, used to cross-check the Cloner's AI
+ * analysis. Tempo comes from the autocorrelation of a spectral-flux onset
+ * envelope, key from a chroma profile matched against Krumhansl's key
+ * profiles. Both expect the 16 kHz mono mix sent to the model.
+ */
+
+// --- TEMPO ---
+
+const ONSET_FFT_SIZE = 1024;
+const ONSET_HOP_SECONDS = 0.01;
+const ONSET_COMPRESSION = 100; // log(1 + C·|X|) evens out loud and quiet hits
+const ONSET_DETREND_SECONDS = 0.5;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+// Listeners (and Suno prompts) favour tempi around 120; ties between half/double time go that way
+const PREFERRED_BPM = 120;
+const PREFERENCE_OCTAVES = 1;
+const MIN_TEMPO_SECONDS = 5;
+
+const scanOnsetEnvelope = function* (samples: Float32Array, sampleRate: number): Scan<{ onsets: Float64Array; framesPerSecond: number }> {
+  const hop = Math.round(ONSET_HOP_SECONDS * sampleRate);
+  const frames = Math.max(0, Math.floor((samples.length - ONSET_FFT_SIZE) / hop));
+  const spectrum = createPowerSpectrum(ONSET_FFT_SIZE);
+  const bins = ONSET_FFT_SIZE / 2 + 1;
+  let previous = new Float64Array(bins);
+  let current = new Float64Array(bins);
+  const flux = new Float64Array(frames);
+
+  for (let f = 0; f < frames; f++) {
+    yield;
+    spectrum(samples, f * hop, current);
+    let sum = 0;
+    for (let k = 0; k < bins; k++) {
+      current[k] = Math.log1p(ONSET_COMPRESSION * Math.sqrt(current[k]));
+      if (f > 0 && current[k] > previous[k]) sum += current[k] - previous[k];
+    }
+    flux[f] = sum;
+    [previous, current] = [current, previous];
+  }
+
+  // Only rises above the local average count, so sustained loud passages don't dominate
+  const radius = Math.round(ONSET_DETREND_SECONDS / ONSET_HOP_SECONDS / 2);
+  const prefix = new Float64Array(frames + 1);
+  for (let f = 0; f < frames; f++) prefix[f + 1] = prefix[f] + flux[f];
+  const onsets = new Float64Array(frames);
+  let mean = 0;
+  for (let f = 0; f < frames; f++) {
+    const lo = Math.max(0, f - radius);
+    const hi = Math.min(frames, f + radius + 1);
+    onsets[f] = Math.max(0, flux[f] - (prefix[hi] - prefix[lo]) / (hi - lo));
+    mean += onsets[f] / frames;
+  }
+  // Zero mean, so the autocorrelation of an arrhythmic envelope hovers around 0
+  for (let f = 0; f < frames; f++) onsets[f] -= mean;
+  return { onsets, framesPerSecond: sampleRate / hop };
+};
+
+const scanAutocorrelation = function* (signal: Float64Array, maxLag: number): Scan<Float64Array> {
+  const acf = new Float64Array(maxLag + 1);
+  for (let lag = 0; lag <= maxLag; lag++) {
+    yield;
+    let sum = 0;
+    for (let i = 0; i + lag < signal.length; i++) sum += signal[i] * signal[i + lag];
+    acf[lag] = sum / (signal.length - lag);
+  }
+  return acf;
+};
+
+/**
+ * Dominant beat rate, or null for clips too short or too quiet to say.
+ * Confidence is the onset envelope's normalised autocorrelation at the
+ * chosen period. Yields after every onset frame and every lag.
+ */
+export const scanTempo = function* (samples: Float32Array, sampleRate: number): Scan<TempoEstimate | null> {
+  if (samples.length < MIN_TEMPO_SECONDS * sampleRate) return null;
+  const { onsets, framesPerSecond } = yield* scanOnsetEnvelope(samples, sampleRate);
+  const minLag = Math.floor((60 / MAX_BPM) * framesPerSecond);
+  const maxLag = Math.ceil((60 / MIN_BPM) * framesPerSecond);
+  const acf = yield* scanAutocorrelation(onsets, 2 * maxLag);
+  if (acf[0] <= 0) return null;
+
+  let best = -1;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * framesPerSecond) / lag;
+    const preference = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM) / PREFERENCE_OCTAVES, 2));
+    // A true beat period also lines up two beats later
+    const score = preference * (acf[lag] + 0.5 * acf[2 * lag]);
+    if (score > bestScore) {
+      bestScore = score;
+      best = lag;
+    }
+  }
+
+  // Parabolic interpolation around the peak for sub-frame precision
+  const [a, b, c] = [acf[best - 1], acf[best], acf[best + 1]];
+  const denominator = a - 2 * b + c;
+  const lag = best + (denominator < 0 ? (0.5 * (a - c)) / denominator : 0);
+
+  return {
+    bpm: Math.round(((60 * framesPerSecond) / lag) * 10) / 10,
+    confidence: Math.max(0, Math.min(1, acf[best] / acf[0])),
+  };
+};
+
+export const estimateTempo = (samples: Float32Array, sampleRate: number) => runScan(scanTempo(samples, sampleRate));
+
+// --- KEY ---
+
+const CHROMA_FFT_SIZE = 8192;
+const CHROMA_MIN_HZ = 65; // C2
+const CHROMA_MAX_HZ = 2100; // C7
+const CHROMA_SILENCE = 1e-6;
+// A margin this large between the best and second-best key counts as certain
+const KEY_CERTAIN_MARGIN = 0.15;
+
+const PITCH_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+export const keyLabel = (tonic: number, mode: 'major' | 'minor') =>
+  `${PITCH_NAMES[tonic]} ${mode === 'major' ? 'Major' : 'Minor'}`;
+
+/**
+ * Long-term pitch-class energy; each frame is normalised first so loud
+ * sections don't outvote the rest of the song.
+ */
+const chromaProfile = (samples: Float32Array, sampleRate: number) => {
+  const spectrum = createPowerSpectrum(CHROMA_FFT_SIZE);
+  const power = new Float64Array(CHROMA_FFT_SIZE / 2 + 1);
+  const binHz = sampleRate / CHROMA_FFT_SIZE;
+  const first = Math.ceil(CHROMA_MIN_HZ / binHz);
+  const last = Math.min(power.length - 1, Math.floor(CHROMA_MAX_HZ / binHz));
+  const pitchClass = new Int8Array(power.length);
+  for (let k = first; k <= last; k++) {
+    const midi = Math.round(12 * Math.log2((k * binHz) / 440) + 69);
+    pitchClass[k] = ((midi % 12) + 12) % 12;
+  }
+
+  const chroma = new Float64Array(12);
+  const frame = new Float64Array(12);
+  for (let offset = 0; offset + CHROMA_FFT_SIZE <= samples.length; offset += CHROMA_FFT_SIZE / 2) {
+    spectrum(samples, offset, power);
+    frame.fill(0);
+    let total = 0;
+    for (let k = first; k <= last; k++) {
+      const magnitude = Math.sqrt(power[k]);
+      frame[pitchClass[k]] += magnitude;
+      total += magnitude;
+    }
+    if (total < CHROMA_SILENCE) continue;
+    for (let pc = 0; pc < 12; pc++) chroma[pc] += frame[pc] / total;
+  }
+  return chroma;
+};
+
+const correlation = (a: ArrayLike<number>, b: ArrayLike<number>, shift: number) => {
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < 12; i++) {
+    meanA += a[i] / 12;
+    meanB += b[i] / 12;
+  }
+  let ab = 0;
+  let aa = 0;
+  let bb = 0;
+  for (let i = 0; i < 12; i++) {
+    const x = a[(i + shift) % 12] - meanA;
+    const y = b[i] - meanB;
+    ab += x * y;
+    aa += x * x;
+    bb += y * y;
+  }
+  return aa > 0 && bb > 0 ? ab / Math.sqrt(aa * bb) : 0;
+};
+
+/**
+ * Best-matching major/minor key, or null for silence or unpitched audio.
+ * Relative major/minor pairs share their notes, so a low confidence often
+ * means the choice between those two is a coin toss.
+ */
+export const estimateKey = (samples: Float32Array, sampleRate: number): KeyEstimate | null => {
+  const chroma = chromaProfile(samples, sampleRate);
+  if (chroma.every(v => v === 0)) return null;
+
+  const scores: { tonic: number; mode: 'major' | 'minor'; r: number }[] = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    scores.push({ tonic, mode: 'major', r: correlation(chroma, MAJOR_PROFILE, tonic) });
+    scores.push({ tonic, mode: 'minor', r: correlation(chroma, MINOR_PROFILE, tonic) });
+  }
+  scores.sort((x, y) => y.r - x.r);
+  const [best, second] = scores;
+  if (best.r <= 0) return null;
+
+  return {
+    tonic: best.tonic,
+    mode: best.mode,
+    label: keyLabel(best.tonic, best.mode),
+    confidence: Math.max(0, Math.min(1, (best.r - second.r) / KEY_CERTAIN_MARGIN)),
+  };
+};
+
+export const analyzeTempoAndKey = (samples: Float32Array, sampleRate: number): LocalMusicAnalysis => ({
+  tempo: estimateTempo(samples, sampleRate),
+  key: estimateKey(samples, sampleRate),
+});
+
+// --- CROSS-CHECK ---
+
+const TEMPO_TOLERANCE = 0.04;
+
+/** First number in a free-text BPM such as "~92 BPM" or "120-124". */
+export const parseBpm = (text: string): number | null => {
+  const match = text.match(/\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+};
+
+/** Tonic and mode from free text such as "C# Minor", "Bbm" or "E flat major". */
+export const parseKey = (text: string): { tonic: number; mode: 'major' | 'minor' } | null => {
+  const match = text.trim().match(/^([A-Ga-g])\s*(#|♯|b|♭|sharp|flat)?\s*(.*)$/i);
+  if (!match) return null;
+  const natural = PITCH_NAMES.indexOf(match[1].toUpperCase());
+  const accidental = (match[2] ?? '').toLowerCase();
+  const shift = ['#', '♯', 'sharp'].includes(accidental) ? 1 : ['b', '♭', 'flat'].includes(accidental) ? -1 : 0;
+  const rest = match[3].toLowerCase();
+  const minor = /^m(in|inor)?\b|^m$|minor|aeolian|dorian|phrygian/.test(rest) && !/^maj/.test(rest);
+  return { tonic: (natural + shift + 12) % 12, mode: minor ? 'minor' : 'major' };
+};
+
+/** How the AI's free-text BPM relates to the local estimate. */
+export const compareTempo = (aiBpm: string, local: TempoEstimate | null): TempoAgreement => {
+  const ai = parseBpm(aiBpm);
+  if (!ai || !local) return 'unknown';
+  const near = (a: number, b: number) => Math.abs(a - b) <= TEMPO_TOLERANCE * b;
+  if (near(ai, local.bpm)) return 'agree';
+  if (near(ai, local.bpm / 2)) return 'half';
+  if (near(ai, local.bpm * 2)) return 'double';
+  return 'differs';
+};
+
+/** How the AI's free-text key relates to the local estimate. */
+export const compareKey = (aiKey: string, local: KeyEstimate | null): KeyAgreement => {
+  const ai = parseKey(aiKey);
+  if (!ai || !local) return 'unknown';
+  if (ai.tonic === local.tonic && ai.mode === local.mode) return 'agree';
+  // A minor's relative major sits three semitones up
+  const relative = ai.mode === 'minor'
+    ? local.mode === 'major' && (ai.tonic + 3) % 12 === local.tonic
+    : local.mode === 'minor' && (local.tonic + 3) % 12 === ai.tonic;
+  return relative ? 'relative' : 'differs';
+};
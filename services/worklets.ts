@@ -0,0 +1,368 @@
+/**
+ * AudioWorklet processors used by the mastering chain.
+ *
+ * The processor code is kept as plain JS source and loaded through a Blob URL,
+ * so the same module works on realtime and offline contexts without a
+ * separate bundler entry.
+ */
+
+// Samples the 4x true-peak interpolator lags behind its newest input
+const TRUE_PEAK_DETECTOR_DELAY = 6;
+
+/**
+ * Frames of delay the limiter adds for a given lookahead, so offline renders
+ * can trim it back out.
+ */
+export const limiterLatency = (lookaheadSamples: number) =>
+  Math.max(1, Math.round(lookaheadSamples)) + TRUE_PEAK_DETECTOR_DELAY - 1;
+
+const TRUE_PEAK_LIMITER = `
+const TP_OVERSAMPLE = 4;
+const TP_TAPS = 12;
+const TP_DELAY = ${TRUE_PEAK_DETECTOR_DELAY};
+
+const makeTruePeakKernels = () => {
+  const N = TP_TAPS * TP_OVERSAMPLE;
+  // Centred on a sample, like the meter's, so phase 0 is the input itself
+  const centre = N / 2;
+  const phases = [];
+  for (let p = 0; p < TP_OVERSAMPLE; p++) {
+    const phase = new Float32Array(TP_TAPS);
+    for (let t = 0; t < TP_TAPS; t++) {
+      const n = t * TP_OVERSAMPLE + p;
+      const x = (n - centre) / TP_OVERSAMPLE;
+      const sinc = x === 0 ? 1 : Number.isInteger(x) ? 0 : Math.sin(Math.PI * x) / (Math.PI * x);
+      phase[t] = sinc * (0.5 - 0.5 * Math.cos((2 * Math.PI * n) / N));
+    }
+    phases.push(phase);
+  }
+  return phases;
+};
+
+class TruePeakLimiter extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'ceiling', defaultValue: -1, minValue: -24, maxValue: 0, automationRate: 'k-rate' },
+      { name: 'release', defaultValue: 0.1, minValue: 0.001, maxValue: 2, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor(options) {
+    super();
+    const channels = 2;
+    this.lookahead = Math.max(1, Math.round(options.processorOptions.lookaheadSamples));
+    this.kernels = makeTruePeakKernels();
+
+    // Interpolator history and audio delay line, per channel
+    this.history = [];
+    this.delay = [];
+    this.delaySize = this.lookahead + TP_DELAY - 1;
+    for (let c = 0; c < channels; c++) {
+      this.history.push(new Float32Array(TP_TAPS));
+      this.delay.push(new Float32Array(this.delaySize));
+    }
+    this.historyPos = 0;
+    this.delayPos = 0;
+
+    // Sliding minimum (monotonic deque) of the required gain; held two frames past the
+    // lookahead to cover the interpolator's sub-sample uncertainty
+    this.holdLength = this.lookahead + 2;
+    this.dqCap = this.holdLength + 1;
+    this.dqVal = new Float32Array(this.dqCap);
+    this.dqIdx = new Float64Array(this.dqCap);
+    this.dqHead = 0;
+    this.dqSize = 0;
+
+    // Box filter over the held minimum turns the step into a ramp that lands exactly on the peak
+    this.box = new Float32Array(this.lookahead).fill(1);
+    this.boxPos = 0;
+    this.boxSum = this.lookahead;
+
+    this.gain = 1;
+    this.n = 0;
+  }
+
+  detectPeak(channels, i) {
+    let peak = 0;
+    for (let c = 0; c < this.history.length; c++) {
+      const src = channels[c] || channels[0];
+      const hist = this.history[c];
+      hist[this.historyPos] = src ? src[i] : 0;
+      for (let p = 0; p < this.kernels.length; p++) {
+        const k = this.kernels[p];
+        let acc = 0;
+        for (let t = 0; t < TP_TAPS; t++) {
+          acc += k[t] * hist[(this.historyPos + 1 + t) % TP_TAPS];
+        }
+        const a = Math.abs(acc);
+        if (a > peak) peak = a;
+      }
+    }
+    this.historyPos = (this.historyPos + 1) % TP_TAPS;
+    return peak;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0] || [];
+    const output = outputs[0];
+    const ceiling = Math.pow(10, parameters.ceiling[0] / 20);
+    const releaseCoef = Math.exp(-1 / (parameters.release[0] * sampleRate));
+    const frames = output[0].length;
+
+    for (let i = 0; i < frames; i++) {
+      const peak = this.detectPeak(input, i);
+      const required = peak > ceiling ? ceiling / peak : 1;
+
+      while (this.dqSize > 0 && this.dqVal[(this.dqHead + this.dqSize - 1) % this.dqCap] >= required) this.dqSize--;
+      const tail = (this.dqHead + this.dqSize) % this.dqCap;
+      this.dqVal[tail] = required;
+      this.dqIdx[tail] = this.n;
+      this.dqSize++;
+      while (this.dqIdx[this.dqHead] <= this.n - this.holdLength) {
+        this.dqHead = (this.dqHead + 1) % this.dqCap;
+        this.dqSize--;
+      }
+      const held = this.dqVal[this.dqHead];
+
+      this.boxSum += held - this.box[this.boxPos];
+      this.box[this.boxPos] = held;
+      this.boxPos = (this.boxPos + 1) % this.lookahead;
+      const smoothed = Math.min(1, this.boxSum / this.lookahead);
+
+      // Attack is already shaped by the lookahead ramp; only the recovery is smoothed
+      this.gain = smoothed < this.gain ? smoothed : smoothed + (this.gain - smoothed) * releaseCoef;
+
+      for (let c = 0; c < output.length; c++) {
+        const src = input[c] || input[0];
+        const line = this.delay[c];
+        const delayed = line[this.delayPos];
+        line[this.delayPos] = src ? src[i] : 0;
+        const y = delayed * this.gain;
+        // Guard against interpolation error only; the gain curve does the real work
+        output[c][i] = y > ceiling ? ceiling : y < -ceiling ? -ceiling : y;
+      }
+      this.delayPos = (this.delayPos + 1) % this.delaySize;
+      this.n++;
+    }
+    return true;
+  }
+}
+
+registerProcessor('true-peak-limiter', TruePeakLimiter);
+`;
+
+// Sidechain band the de-esser listens to, and where it splits off the band it turns down
+export const DE_ESSER_BAND = { low: 5000, high: 9000, split: 4500 };
+
+const DE_ESSER = `
+const DE_BAND = ${JSON.stringify(DE_ESSER_BAND)};
+const DE_ATTACK = 0.001;
+const DE_RELEASE = 0.08;
+
+// RBJ biquad (transposed direct form II), 'lowpass' or 'highpass'
+const makeBiquad = (type, frequency, Q) => {
+  const w0 = 2 * Math.PI * frequency / sampleRate;
+  const alpha = Math.sin(w0) / (2 * Q);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b1 = (type === 'lowpass' ? 1 - cos : -(1 + cos)) / a0;
+  const b0 = b1 / (type === 'lowpass' ? 2 : -2);
+  const a1 = -2 * cos / a0;
+  const a2 = (1 - alpha) / a0;
+  let z1 = 0, z2 = 0;
+  return (x) => {
+    const y = b0 * x + z1;
+    z1 = b1 * x - a1 * y + z2;
+    z2 = b0 * x - a2 * y;
+    return y;
+  };
+};
+
+/**
+ * Split-band de-esser. The detector compares the 5-9 kHz sidechain with the
+ * full-band level, so the threshold is relative (how close sibilance may get
+ * to the overall level) and independent of the gain staging around it. Only
+ * the band above the split is turned down; the low band is untouched.
+ */
+class DeEsser extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'threshold', defaultValue: -12, minValue: -40, maxValue: 0, automationRate: 'k-rate' },
+      { name: 'range', defaultValue: 8, minValue: 0, maxValue: 24, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor(options) {
+    super();
+    this.listen = !!(options.processorOptions && options.processorOptions.listen);
+    const q = Math.SQRT1_2;
+    this.sideHigh = makeBiquad('highpass', DE_BAND.low, q);
+    this.sideLow = makeBiquad('lowpass', DE_BAND.high, q);
+    this.split = [makeBiquad('lowpass', DE_BAND.split, q), makeBiquad('lowpass', DE_BAND.split, q)];
+    this.attack = Math.exp(-1 / (DE_ATTACK * sampleRate));
+    this.release = Math.exp(-1 / (DE_RELEASE * sampleRate));
+    this.bandEnv = 0;
+    this.fullEnv = 0;
+  }
+
+  follow(env, power) {
+    const coef = power > env ? this.attack : this.release;
+    return power + (env - power) * coef;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0] || [];
+    const output = outputs[0];
+    const threshold = parameters.threshold[0];
+    const range = parameters.range[0];
+    const frames = output[0].length;
+
+    for (let i = 0; i < frames; i++) {
+      const left = input[0] ? input[0][i] : 0;
+      const right = input[1] ? input[1][i] : left;
+      const mono = (left + right) / 2;
+      const side = this.sideLow(this.sideHigh(mono));
+
+      if (this.listen) {
+        for (let c = 0; c < output.length; c++) output[c][i] = side;
+        continue;
+      }
+
+      this.bandEnv = this.follow(this.bandEnv, side * side);
+      this.fullEnv = this.follow(this.fullEnv, mono * mono);
+      let reduction = 0;
+      if (this.fullEnv > 1e-10) {
+        const over = 10 * Math.log10((this.bandEnv + 1e-20) / this.fullEnv) - threshold;
+        reduction = over > 0 ? Math.min(range, over) : 0;
+      }
+      const gain = Math.pow(10, -reduction / 20);
+
+      for (let c = 0; c < output.length; c++) {
+        const x = c === 0 ? left : right;
+        const low = this.split[c](x);
+        output[c][i] = low + (x - low) * gain;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('de-esser', DeEsser);
+`;
+
+const BITCRUSHER = `
+/**
+ * Sample-and-hold rate reduction followed by requantisation. The hold uses a
+ * phase accumulator, so rates that don't divide the context rate still work.
+ */
+class Bitcrusher extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'bits', defaultValue: 12, minValue: 1, maxValue: 16, automationRate: 'k-rate' },
+      { name: 'rate', defaultValue: 22050, minValue: 500, maxValue: 192000, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor() {
+    super();
+    this.phase = 1;
+    this.held = [0, 0];
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0] || [];
+    const output = outputs[0];
+    const steps = Math.pow(2, Math.round(parameters.bits[0]) - 1);
+    const increment = Math.min(1, parameters.rate[0] / sampleRate);
+
+    for (let i = 0; i < output[0].length; i++) {
+      this.phase += increment;
+      const take = this.phase >= 1;
+      if (take) this.phase -= 1;
+      for (let c = 0; c < output.length; c++) {
+        if (take) {
+          const channel = input[c] || input[0];
+          const x = channel ? channel[i] : 0;
+          this.held[c] = Math.round(x * steps) / steps;
+        }
+        output[c][i] = this.held[c];
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('bitcrusher', Bitcrusher);
+`;
+
+const PHASE_GUARD = `
+const PG_WINDOW = 0.3; // Energy averaging, seconds
+const PG_ATTACK = 0.02;
+const PG_RELEASE = 0.4;
+const PG_FLOOR = 1e-10; // Below this the band is silent and the gain holds
+
+/**
+ * Keeps one band's L/R correlation at or above the threshold. Input is the
+ * band's mid (channel 0) and side (channel 1); the output is the side, scaled
+ * so that (M² - g²S²) / (M² + g²S²) never falls below the threshold.
+ */
+class PhaseGuard extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'threshold', defaultValue: 0.2, minValue: -0.9, maxValue: 0.9, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor() {
+    super();
+    this.average = Math.exp(-1 / (PG_WINDOW * sampleRate));
+    this.attack = Math.exp(-1 / (PG_ATTACK * sampleRate));
+    this.release = Math.exp(-1 / (PG_RELEASE * sampleRate));
+    this.midEnergy = 0;
+    this.sideEnergy = 0;
+    this.gain = 1;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0] || [];
+    const output = outputs[0];
+    const threshold = parameters.threshold[0];
+    const limit = (1 - threshold) / (1 + threshold);
+
+    for (let i = 0; i < output[0].length; i++) {
+      const mid = input[0] ? input[0][i] : 0;
+      const side = input[1] ? input[1][i] : 0;
+      this.midEnergy = mid * mid + (this.midEnergy - mid * mid) * this.average;
+      this.sideEnergy = side * side + (this.sideEnergy - side * side) * this.average;
+
+      let target = this.gain;
+      if (this.midEnergy + this.sideEnergy > PG_FLOOR) {
+        target = this.sideEnergy > 0 ? Math.min(1, Math.sqrt((limit * this.midEnergy) / this.sideEnergy)) : 1;
+      }
+      const coef = target < this.gain ? this.attack : this.release;
+      this.gain = target + (this.gain - target) * coef;
+      output[0][i] = side * this.gain;
+    }
+    return true;
+  }
+}
+
+registerProcessor('phase-guard', PhaseGuard);
+`;
+
+const WORKLET_MODULES = [TRUE_PEAK_LIMITER, DE_ESSER, BITCRUSHER, PHASE_GUARD];
+
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+/**
+ * Registers every processor on the given context once.
+ */
+export const loadWorklets = (ctx: BaseAudioContext): Promise<void> => {
+  const existing = loadedContexts.get(ctx);
+  if (existing) return existing;
+
+  const url = URL.createObjectURL(new Blob([WORKLET_MODULES.join('\n')], { type: 'application/javascript' }));
+  const loading = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+  loadedContexts.set(ctx, loading);
+  return loading;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const ascii = (value: string) => new TextEncoder().encode(value);
+
+describe('crc32', () => {
+  it('gives the standard check value', () => {
+    expect(crc32(ascii('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores each entry and indexes it in the central directory', async () => {
+    const modified = new Date(2024, 5, 15, 13, 45, 30);
+    const entries = [
+      { name: 'Ọja.mp3', data: ascii('first'), modified },
+      { name: 'report.json', data: ascii('{"second":true}'), modified },
+    ];
+    const bytes = new Uint8Array(await createZip(entries).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const directory = view.getUint32(end + 16, true);
+    expect(directory + view.getUint32(end + 12, true)).toBe(end);
+
+    let header = directory;
+    for (const entry of entries) {
+      const name = ascii(entry.name);
+      expect(view.getUint32(header, true)).toBe(0x02014b50);
+      expect(view.getUint16(header + 8, true) & 0x0800).toBe(0x0800); // UTF-8 names
+      expect(view.getUint16(header + 10, true)).toBe(0); // Stored
+      expect(view.getUint32(header + 16, true)).toBe(crc32(entry.data));
+      expect(view.getUint16(header + 12, true)).toBe((13 << 11) | (45 << 5) | 15);
+      expect(view.getUint16(header + 14, true)).toBe((44 << 9) | (6 << 5) | 15);
+      expect(bytes.subarray(header + 46, header + 46 + name.length)).toEqual(name);
+
+      const local = view.getUint32(header + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint32(local + 14, true)).toBe(crc32(entry.data));
+      const start = local + 30 + view.getUint16(local + 26, true);
+      expect(bytes.subarray(start, start + entry.data.length)).toEqual(entry.data);
+      header += 46 + name.length;
+    }
+    expect(header).toBe(end);
+  });
+});
@@ -26,20 +26,485 @@ export interface SongContext {
 
 export type MasteringPreset = 'balanced' | 'pop' | 'electronic' | 'rock' | 'lofi';
 
+export type ExportFormat = 'mp3' | 'wav' | 'flac';
+export type BitDepth = 16 | 24 | 32; // 32 = IEEE float (WAV only)
+export type DitherMode = 'none' | 'tpdf' | 'shaped';
+export type OutputSampleRate = 44100 | 48000;
+
+export interface LoudnessTarget {
+  lufs: number; // Integrated loudness target (LUFS)
+  truePeak: number; // Ceiling (dBTP)
+}
+
+export interface LimiterSettings {
+  ceiling: number; // dBTP, ignored when a loudness target sets its own
+  release: number; // ms
+  lookahead: number; // ms
+}
+
+export interface CompressorBand {
+  threshold: number; // dB
+  ratio: number;
+  attack: number; // ms
+  release: number; // ms
+}
+
+export interface MultibandSettings {
+  enabled: boolean;
+  crossovers: number[]; // Hz, ascending; bands.length === crossovers.length + 1
+  bands: CompressorBand[];
+}
+
+export interface EqBand {
+  type: BiquadFilterType;
+  frequency: number; // Hz
+  Q: number;
+  gain: number; // dB (peaking/shelf only)
+}
+
+export interface NaturalizerSettings {
+  threshold: number; // dB a peak must stand above the local spectrum to be cut
+  maxDepth: number; // dB, deepest cut at any moment
+  maxNotches: number;
+}
+
+export type PhaseGuardMode = 'low' | 'band';
+
+export interface PhaseGuardSettings {
+  enabled: boolean;
+  mode: PhaseGuardMode; // 'low': everything below `frequency`; 'band': `band` only
+  threshold: number; // Lowest L/R correlation the guarded range may fall to
+  frequency: number; // Hz
+  band: { low: number; high: number }; // Hz
+}
+
+export interface DeEsserSettings {
+  enabled: boolean;
+  threshold: number; // dB the 5-9 kHz band may reach relative to the full-band level
+  range: number; // dB, most the sibilant band is turned down
+}
+
+/**
+ * Long-term average spectrum in third-octave bands.
+ */
+export interface SpectrumProfile {
+  frequencies: number[]; // Band centres (Hz)
+  levels: number[]; // dB per band
+}
+
+export interface ReferenceProfile extends SpectrumProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface ReferenceMatchSettings {
+  enabled: boolean;
+  reference: ReferenceProfile | null;
+  amount: number; // 0..1, share of the difference that gets corrected
+  maxBoost: number; // dB
+  maxCut: number; // dB
+}
+
+export interface ResonancePeak {
+  frequency: number; // Hz
+  Q: number;
+  prominence: number; // dB above the smoothed long-term spectrum
+}
+
+/**
+ * Result of the FFT resonance scan over a whole track.
+ */
+export interface ResonanceAnalysis {
+  frequencies: Float32Array; // Hz, one per FFT bin
+  spectrum: Float32Array; // Long-term average, dB
+  baseline: Float32Array; // Smoothed spectrum the peaks are measured against, dB
+  peaks: ResonancePeak[]; // Strongest first
+  hop: number; // Seconds between activity points
+  offset: number; // Time of the first activity point (s)
+  activity: Float32Array[]; // Per peak: prominence over time (dB)
+}
+
+export type ReverbType = 'room' | 'plate' | 'hall';
+
+export interface ReverbSettings {
+  enabled: boolean;
+  type: ReverbType;
+  decay: number; // seconds to fall by 60 dB
+  preDelay: number; // ms
+  mix: number; // 0 = dry, 1 = wet only
+}
+
+// Note value of one repeat; d = dotted, t = triplet
+export type DelayDivision = '1/4' | '1/8' | '1/8d' | '1/8t' | '1/16';
+
+export interface DelaySettings {
+  enabled: boolean;
+  bpm: number;
+  division: DelayDivision;
+  feedback: number; // 0..0.9
+  pingPong: boolean;
+  lowCut: number; // Hz; the repeats are filtered a little more on every pass
+  highCut: number; // Hz
+  mix: number;
+}
+
+export interface TapeSettings {
+  enabled: boolean;
+  drive: number; // dB into the saturator
+  wow: number; // 0..1, slow pitch drift
+  flutter: number; // 0..1, fast pitch jitter
+  mix: number;
+}
+
+export interface BitcrusherSettings {
+  enabled: boolean;
+  bits: number; // 1..16
+  rate: number; // Hz the signal is sampled-and-held at
+  mix: number;
+}
+
+export interface ModulationSettings {
+  enabled: boolean;
+  rate: number; // LFO Hz
+  depth: number; // 0..1 of the effect's sweep range
+  feedback: number; // 0..0.9
+  mix: number; // 0 = dry, 1 = wet only
+  stereoPhase: number; // degrees between the left and right LFO
+}
+
+// Chorus and flanger
+export interface DelayModulationSettings extends ModulationSettings {
+  delay: number; // ms the line sweeps around
+}
+
+export interface PhaserSettings extends ModulationSettings {
+  frequency: number; // Hz the notches sweep around
+  stages: number; // allpass filters per channel
+}
+
+export interface CreativeFxSettings {
+  chorus: DelayModulationSettings;
+  phaser: PhaserSettings;
+  flanger: DelayModulationSettings;
+  // Each is off when absent
+  reverb?: ReverbSettings;
+  delay?: DelaySettings;
+  tape?: TapeSettings;
+  bitcrusher?: BitcrusherSettings;
+}
+
+interface ChainStage<T extends string, P> {
+  id: string; // Stable key, which the chain panel's overrides refer to
+  type: T;
+  label: string;
+  bypass: boolean;
+  params: P;
+}
+
+// A chain-panel choice that wins over what the options would give
+export interface StageOverride {
+  bypass: boolean;
+}
+
+/**
+ * One step of the mastering chain as plain data. `processAudio` builds the
+ * Web Audio graph from an ordered list of these.
+ */
+export type ProcessingStage =
+  | ChainStage<'gain', { gain: number }>
+  | ChainStage<'eq', { bands: EqBand[] }>
+  | ChainStage<'naturalizer', NaturalizerSettings>
+  | ChainStage<'deEsser', Omit<DeEsserSettings, 'enabled'>>
+  | ChainStage<'matchEq', Omit<ReferenceMatchSettings, 'enabled'>>
+  | ChainStage<'chorus', Omit<DelayModulationSettings, 'enabled'>>
+  | ChainStage<'phaser', Omit<PhaserSettings, 'enabled'>>
+  | ChainStage<'flanger', Omit<DelayModulationSettings, 'enabled'>>
+  | ChainStage<'tape', Omit<TapeSettings, 'enabled'>>
+  | ChainStage<'bitcrusher', Omit<BitcrusherSettings, 'enabled'>>
+  | ChainStage<'delay', Omit<DelaySettings, 'enabled'>>
+  | ChainStage<'reverb', Omit<ReverbSettings, 'enabled'>>
+  | ChainStage<'stereoImage', { width: number; monoBassFrequency: number }>
+  | ChainStage<'phaseGuard', Omit<PhaseGuardSettings, 'enabled'>>
+  | ChainStage<'compressor', CompressorBand & { knee: number }>
+  | ChainStage<'multiband', { crossovers: number[]; bands: CompressorBand[] }>
+  | ChainStage<'saturation', { curve: 'silk' }>
+  | ChainStage<'limiter', LimiterSettings>;
+
+export type ProcessingStageType = ProcessingStage['type'];
+
+export type FadeCurve = 'linear' | 'exponential' | 'equalPower' | 'sCurve';
+
+// auto = only fade an edge that starts or stops abruptly
+export type FadeMode = 'off' | 'auto' | 'always';
+
+export interface EdgeSettings {
+  trimSilence: boolean;
+  silenceThreshold: number; // dBFS; quieter leading/trailing audio counts as silence
+  fadeMode: FadeMode;
+  fadeIn: number; // seconds
+  fadeOut: number; // seconds
+  fadeInCurve: FadeCurve;
+  fadeOutCurve: FadeCurve;
+}
+
+export interface AudioRegion {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+/**
+ * Trim region and fades resolved for one source.
+ */
+export interface EdgePlan {
+  start: number; // seconds into the source
+  end: number; // seconds into the source
+  fadeIn: number; // seconds, 0 = none
+  fadeOut: number; // seconds, 0 = none
+  fadeInCurve: FadeCurve;
+  fadeOutCurve: FadeCurve;
+  abruptStart: boolean;
+  abruptEnd: boolean;
+}
+
 export interface AudioProcessOptions {
   intensity: 'low' | 'medium' | 'high';
   stereoWidth: 'normal' | 'wide';
+  // Side-channel gain for the M/S stage (1.0 = untouched). Falls back to the stereoWidth preset.
+  widthAmount?: number;
+  // Everything below this frequency is folded to mono by the widener (Hz)
+  monoBassFrequency?: number;
   enableWarmth: boolean;
+  // Legacy switch for fixed linear fades; `edges` takes over when set
   enableFades: boolean;
+  edges?: EdgeSettings;
+  // Renders only this part of the source, with short zero-crossing crossfades instead of the edge settings
+  region?: AudioRegion | null;
   enableNaturalizer: boolean;
-  exportFormat: 'mp3' | 'wav';
+  // Pushes the tonal balance toward a reference track's long-term spectrum. Off when absent.
+  referenceMatch?: ReferenceMatchSettings;
+  // Split-band sibilance control after tonal shaping. Off when absent.
+  deEsser?: DeEsserSettings;
+  // Pulls the side of one frequency range in when it goes out of phase. Off when absent.
+  phaseGuard?: PhaseGuardSettings;
+  // Stem renders only: the naturalizer and de-esser act on the vocal stems instead of the mix
+  vocalStemCleanup?: boolean;
+  exportFormat: ExportFormat;
+  // Lossless formats only; MP3 is always encoded from 16-bit. Defaults to 16.
+  bitDepth?: BitDepth;
+  // Render rate of the master (Hz). Defaults to 48 kHz.
+  sampleRate?: OutputSampleRate;
+  // Applied whenever float samples are reduced to integers. Defaults to TPDF.
+  dither?: DitherMode;
   preset?: MasteringPreset;
+  // When set, the render is gain-matched to this target instead of the fixed makeup gain
+  loudnessTarget?: LoudnessTarget | null;
+  limiter?: LimiterSettings;
+  // Replaces the broadband "soft envelope" compressor when enabled
+  multiband?: MultibandSettings;
+  // Stages switched on or off by hand in the chain panel, by stage id; the rest follow the fields above
+  stageOverrides?: Record<string, StageOverride>;
   // New Creative FX Control
-  creativeFx: {
-    chorus: number; // 0.0 to 1.0
-    phaser: number; // 0.0 to 1.0
-    flanger: number; // 0.0 to 1.0
-  };
+  creativeFx: CreativeFxSettings;
+}
+
+export interface LoudnessStats {
+  integrated: number; // LUFS
+  shortTermMax: number; // LUFS (3 s window)
+  momentaryMax: number; // LUFS (400 ms window)
+  range: number; // LU
+  truePeak: number; // dBTP
+  samplePeak: number; // dBFS
+  rms: number; // dBFS, over all channels
+  duration: number; // seconds
+}
+
+export interface ProcessResult {
+  blob: Blob;
+  input: LoudnessStats;
+  output: LoudnessStats;
+  mono: MonoReport;
+}
+
+// Decoded audio as plain channel data, independent of Web Audio
+export interface PcmAudio {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+// Measurements of a master, whether its audio was kept or streamed to the encoder
+export interface MasterStats {
+  sampleRate: number;
+  input: LoudnessStats;
+  output: LoudnessStats;
+  mono: MonoReport;
+}
+
+// A rendered master before encoding
+export interface MasteredAudio extends PcmAudio, MasterStats {}
+
+export type QcStatus = 'pass' | 'warn' | 'fail';
+
+export type QcCheckId =
+  | 'dcOffset'
+  | 'intersampleClipping'
+  | 'silenceGaps'
+  | 'phaseInversion'
+  | 'abruptEnding'
+  | 'hfShimmer'
+  | 'lossyCutoff';
+
+export interface QcEvent {
+  start: number; // seconds
+  end: number; // seconds
+  detail: string;
+}
+
+export interface QcCheck {
+  id: QcCheckId;
+  label: string;
+  status: QcStatus;
+  summary: string;
+  value?: number; // The measured figure the status is based on (units in the summary)
+  events: QcEvent[];
+}
+
+/**
+ * Health check of a decoded source, run before mastering.
+ */
+export interface QcReport {
+  fileName: string;
+  createdAt: string; // ISO 8601
+  duration: number; // seconds
+  sampleRate: number;
+  channels: number;
+  status: QcStatus; // Worst status of all checks
+  checks: QcCheck[];
+}
+
+export interface MonoBandRange {
+  label: string;
+  low: number; // Hz
+  high: number; // Hz
+}
+
+export interface MonoWarning {
+  start: number; // seconds
+  end: number; // seconds
+  correlation: number; // Worst in the region, full band or any band loud enough to matter
+  foldDown: number; // dB, worst full-band level change when summed to mono
+  band: MonoBandRange | null; // The band that went furthest out of phase; null when the full band did
+}
+
+/**
+ * Phase correlation and mono fold-down of a rendered master.
+ */
+export interface MonoReport {
+  status: QcStatus;
+  correlation: number; // Overall L/R correlation, -1..1
+  foldDown: number; // dB the mono sum sits below the stereo level, overall
+  hop: number; // seconds per meter point
+  meter: (number | null)[]; // Correlation per window; null where it is too quiet to judge
+  bands: (MonoBandRange & { correlation: number })[];
+  warnings: MonoWarning[];
+}
+
+export type ProcessStage = 'decode' | 'render' | 'encode';
+
+export interface ProcessProgress {
+  stage: ProcessStage;
+  fraction: number; // 0..1 within the current stage
+  pass?: number; // Render pass, from 1 (loudness targeting can re-render)
+  // Multi-profile delivery: which profile is being rendered
+  delivery?: { profile: string; format: ExportFormat; index: number; count: number };
+}
+
+export type DeliveryProfileId = 'spotify' | 'appleMusic' | 'youtube' | 'saRadio';
+
+// A platform's loudness and file expectations
+export interface DeliveryProfile {
+  id: DeliveryProfileId;
+  name: string;
+  lufs: number; // Integrated loudness target
+  tolerance: number; // LU either side of the target that still passes
+  truePeak: number; // dBTP ceiling
+  sampleRate: OutputSampleRate;
+  bitDepth: BitDepth;
+  exportFormat: ExportFormat;
+}
+
+export interface ComplianceCheck {
+  label: string;
+  status: QcStatus; // pass or fail
+  detail: string;
+}
+
+export interface DeliveryResult {
+  profile: DeliveryProfile;
+  result: ProcessResult;
+  status: QcStatus;
+  checks: ComplianceCheck[];
+}
+
+export type StemRole = 'vocals' | 'instrumental' | 'other';
+
+export interface StemEq {
+  low: number; // dB, shelf
+  mid: number; // dB, bell
+  high: number; // dB, shelf
+}
+
+export interface StemSettings {
+  role: StemRole;
+  gain: number; // dB
+  pan: number; // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+  eq: StemEq;
+}
+
+// One stem of a multi-stem upload, mixed down inside the mastering render
+export interface StemTrack {
+  id: string;
+  file: File;
+  settings: StemSettings;
+}
+
+// Decoded stem with its mix settings
+export interface PcmStem extends PcmAudio {
+  settings: StemSettings;
+}
+
+export type BatchStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  // Pinned per-file settings; when absent the queue's shared options apply
+  options?: AudioProcessOptions;
+  result?: ProcessResult;
+  error?: string;
+}
+
+export interface UserPreset {
+  id: string;
+  name: string;
+  createdAt: number;
+  options: AudioProcessOptions;
+}
+
+// One finished render: everything needed to compare it and to reproduce it
+export interface RenderRecord {
+  id: string;
+  createdAt: number;
+  sourceName: string;
+  fileName: string; // Name the master downloads as
+  options: AudioProcessOptions;
+  metadata?: TrackMetadata;
+  input: LoudnessStats;
+  output: LoudnessStats;
+  mono: MonoReport;
 }
 
 export interface SavedVibe {
@@ -51,6 +516,37 @@ export interface SavedVibe {
   linguisticAnalysis?: string;
 }
 
+/**
+ * Tags written into the exported master (ID3v2, RIFF INFO/iXML or Vorbis comments).
+ */
+export interface TrackMetadata {
+  title: string;
+  artist: string;
+  lyrics?: string; // Afrikaans, unsynchronised
+  stylePrompt?: string; // The Suno style prompt the track was generated from
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number; // 0..1, how clearly one beat period stands out
+}
+
+export interface KeyEstimate {
+  tonic: number; // Pitch class, 0 = C
+  mode: 'major' | 'minor';
+  label: string; // e.g. "F# Minor"
+  confidence: number; // 0..1, margin over the next best key
+}
+
+/** On-device tempo/key, computed from the same 16 kHz mono mix the AI hears. */
+export interface LocalMusicAnalysis {
+  tempo: TempoEstimate | null;
+  key: KeyEstimate | null;
+}
+
+export type TempoAgreement = 'agree' | 'half' | 'double' | 'differs' | 'unknown';
+export type KeyAgreement = 'agree' | 'relative' | 'differs' | 'unknown';
+
 export interface AudioAnalysis {
   bpm: string;
   key: string;
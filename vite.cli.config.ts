@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite';
+import { fileURLToPath } from 'node:url';
+
+// Node build of the mastering CLI (`npm run build:cli`). Dependencies stay
+// external and are resolved from node_modules at run time; the native Web
+// Audio module is optional, so the build mustn't need it installed.
+export default defineConfig({
+  resolve: {
+    alias: {
+      // The package's `exports` name a file it doesn't ship; point at the real ESM build, which gets bundled
+      '@breezystack/lamejs': fileURLToPath(new URL('./node_modules/@breezystack/lamejs/dist/lamejs.js', import.meta.url)),
+    },
+  },
+  build: {
+    ssr: 'cli/afrisuno.ts',
+    outDir: 'dist-cli',
+    target: 'node22',
+    rollupOptions: {
+      external: ['node-web-audio-api/polyfill.js'],
+      output: { entryFileNames: 'afrisuno.js' },
+    },
+  },
+});
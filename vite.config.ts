@@ -1,6 +1,7 @@
 
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { fileURLToPath } from 'node:url';
 
 export default defineConfig(({ mode }) => {
   // Load env file based on `mode` in the current working directory.
@@ -9,6 +10,12 @@ export default defineConfig(({ mode }) => {
 
   return {
     plugins: [react()],
+    resolve: {
+      alias: {
+        // The package's `exports` name a file it doesn't ship; the MP3 encoder and its tests need the real one
+        '@breezystack/lamejs': fileURLToPath(new URL('./node_modules/@breezystack/lamejs/dist/lamejs.js', import.meta.url)),
+      },
+    },
     // CRITICAL: Sets base to './' so assets link correctly in GitHub Pages subdirectories
     base: './', 
     define: {